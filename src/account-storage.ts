@@ -1,76 +1,110 @@
-import * as fs from "fs";
-import * as os from "os";
-import * as path from "path";
+import { getConfigDir } from "./config.js";
+import { ensurePrivateDir } from "./fs-utils.js";
+import {
+	type BackendName,
+	EncryptedFileBackend,
+	type OAuthCredentials,
+	PlaintextBackend,
+	type SecretBackend,
+	createBackend,
+} from "./secret-store.js";
 import type { CalendarAccount } from "./types.js";
 
-const CONFIG_DIR = path.join(os.homedir(), ".gccli");
-const ACCOUNTS_FILE = path.join(CONFIG_DIR, "accounts.json");
-const CREDENTIALS_FILE = path.join(CONFIG_DIR, "credentials.json");
-
+/**
+ * Accounts and OAuth client credentials. The store is read on first access, so commands that never touch an
+ * account do not need the passphrase of an encrypted store.
+ */
 export class AccountStorage {
 	private accounts: Map<string, CalendarAccount> = new Map();
+	private credentials: OAuthCredentials | null = null;
+	private backend?: SecretBackend;
 
-	constructor() {
-		this.ensureConfigDir();
-		this.loadAccounts();
-	}
+	constructor(private configDir: string = getConfigDir()) {}
 
-	private ensureConfigDir(): void {
-		if (!fs.existsSync(CONFIG_DIR)) {
-			fs.mkdirSync(CONFIG_DIR, { recursive: true });
-		}
-	}
-
-	private loadAccounts(): void {
-		if (fs.existsSync(ACCOUNTS_FILE)) {
-			try {
-				const data = JSON.parse(fs.readFileSync(ACCOUNTS_FILE, "utf8"));
-				for (const account of data) {
-					this.accounts.set(account.email, account);
-				}
-			} catch {
-				// Ignore
+	/**
+	 * Reads the store on first use and returns its backend.
+	 */
+	private load(): SecretBackend {
+		if (!this.backend) {
+			ensurePrivateDir(this.configDir);
+			// Once migrated, the encrypted store takes precedence over any plaintext files
+			const encrypted = new EncryptedFileBackend(this.configDir);
+			const backend = encrypted.exists() ? encrypted : new PlaintextBackend(this.configDir);
+			const secrets = backend.load();
+			for (const account of secrets.accounts) {
+				this.accounts.set(account.email, account);
 			}
+			this.credentials = secrets.credentials;
+			this.backend = backend;
 		}
+		return this.backend;
 	}
 
 	private saveAccounts(): void {
-		fs.writeFileSync(ACCOUNTS_FILE, JSON.stringify(Array.from(this.accounts.values()), null, 2));
+		this.load().save({ accounts: Array.from(this.accounts.values()), credentials: this.credentials });
+	}
+
+	getBackendName(): BackendName {
+		return this.load().name;
+	}
+
+	/**
+	 * Moves all accounts and credentials into the given backend and deletes the old store.
+	 */
+	migrate(target: BackendName): void {
+		const backend = this.load();
+		if (target === backend.name) {
+			throw new Error(`Accounts are already stored in the ${target} backend`);
+		}
+		// Re-read the source so a store that no longer loads cleanly is never replaced
+		const secrets = backend.load();
+		const next = createBackend(target, this.configDir);
+		next.save(secrets);
+		// Verify the new store before removing the old one
+		if (JSON.stringify(next.load()) !== JSON.stringify(secrets)) {
+			next.remove();
+			throw new Error("Migration failed: the new store does not match the old one");
+		}
+		backend.remove();
+		this.backend = next;
 	}
 
 	addAccount(account: CalendarAccount): void {
+		this.load();
 		this.accounts.set(account.email, account);
 		this.saveAccounts();
 	}
 
 	getAccount(email: string): CalendarAccount | undefined {
+		this.load();
 		return this.accounts.get(email);
 	}
 
 	getAllAccounts(): CalendarAccount[] {
+		this.load();
 		return Array.from(this.accounts.values());
 	}
 
 	deleteAccount(email: string): boolean {
+		this.load();
 		const deleted = this.accounts.delete(email);
 		if (deleted) this.saveAccounts();
 		return deleted;
 	}
 
 	hasAccount(email: string): boolean {
+		this.load();
 		return this.accounts.has(email);
 	}
 
 	setCredentials(clientId: string, clientSecret: string): void {
-		fs.writeFileSync(CREDENTIALS_FILE, JSON.stringify({ clientId, clientSecret }, null, 2));
+		this.load();
+		this.credentials = { clientId, clientSecret };
+		this.saveAccounts();
 	}
 
-	getCredentials(): { clientId: string; clientSecret: string } | null {
-		if (!fs.existsSync(CREDENTIALS_FILE)) return null;
-		try {
-			return JSON.parse(fs.readFileSync(CREDENTIALS_FILE, "utf8"));
-		} catch {
-			return null;
-		}
+	getCredentials(): OAuthCredentials | null {
+		this.load();
+		return this.credentials;
 	}
 }
@@ -0,0 +1,43 @@
+import type { calendar_v3 } from "googleapis";
+
+export type AclRole = "none" | "freeBusyReader" | "reader" | "writer" | "owner";
+export type AclScopeType = "default" | "user" | "group" | "domain";
+
+export const ACL_ROLES: AclRole[] = ["none", "freeBusyReader", "reader", "writer", "owner"];
+
+export interface AclScope {
+	type: AclScopeType;
+	/** Email address or domain; absent for `default` (everyone) */
+	value?: string;
+}
+
+/**
+ * Parses `user:bob@x.com`, `group:team@x.com`, `domain:x.com` or `default` (public). A bare email address is
+ * taken as a user.
+ */
+export function parseAclScope(spec: string): AclScope {
+	if (spec === "default" || spec === "public") return { type: "default" };
+	const match = spec.match(/^(user|group|domain):(.+)$/);
+	if (match) return { type: match[1] as AclScopeType, value: match[2] };
+	if (spec.includes("@")) return { type: "user", value: spec };
+	throw new Error(`Invalid scope: ${spec} (expected user:<email>, group:<email>, domain:<domain> or default)`);
+}
+
+/**
+ * The ACL rule ID of a scope, e.g. `user:bob@x.com` or `default`.
+ */
+export function aclRuleId(scope: AclScope): string {
+	return scope.value ? `${scope.type}:${scope.value}` : scope.type;
+}
+
+/**
+ * Whether granting the role to the scope warrants a confirmation: owner access, or anything made public.
+ */
+export function isSensitiveGrant(scope: AclScope, role: AclRole): boolean {
+	return role === "owner" || (scope.type === "default" && role !== "none");
+}
+
+export function describeAclRule(rule: calendar_v3.Schema$AclRule): string {
+	const scope = rule.scope?.type === "default" ? "everyone (public)" : `${rule.scope?.type} ${rule.scope?.value}`;
+	return `${scope}: ${rule.role}`;
+}
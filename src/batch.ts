@@ -0,0 +1,107 @@
+import * as crypto from "crypto";
+
+/**
+ * One request of a batch, with a path relative to the API host (e.g. `/calendar/v3/calendars/primary/events`).
+ */
+export interface BatchRequest {
+	method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+	path: string;
+	body?: unknown;
+}
+
+export interface BatchResponse {
+	status: number;
+	/** Parsed JSON body, or undefined for empty bodies (e.g. 204 after DELETE) */
+	body?: unknown;
+}
+
+export const DEFAULT_API_ROOT = "https://www.googleapis.com/";
+
+export const BATCH_PATH = "/batch/calendar/v3";
+
+/** The Calendar API accepts at most 50 requests per batch */
+export const MAX_BATCH_SIZE = 50;
+
+export function createBoundary(): string {
+	return `batch_${crypto.randomBytes(12).toString("hex")}`;
+}
+
+/**
+ * Builds a multipart/mixed batch body. Each part is identified by `Content-ID: <item{index}>`.
+ */
+export function buildBatchBody(requests: BatchRequest[], boundary: string): string {
+	const parts = requests.map((request, index) => {
+		const lines = [
+			`--${boundary}`,
+			"Content-Type: application/http",
+			`Content-ID: <item${index}>`,
+			"",
+			`${request.method} ${request.path} HTTP/1.1`,
+		];
+		if (request.body !== undefined) {
+			lines.push("Content-Type: application/json; charset=UTF-8", "", JSON.stringify(request.body));
+		} else {
+			lines.push("");
+		}
+		return lines.join("\r\n");
+	});
+	return `${parts.join("\r\n")}\r\n--${boundary}--\r\n`;
+}
+
+/**
+ * Parses a multipart/mixed batch response into one response per request, in request order.
+ * Parts are matched by their `Content-ID: <response-item{index}>` header.
+ */
+export function parseBatchResponse(text: string, contentType: string, count: number): BatchResponse[] {
+	const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+	if (!boundary) throw new Error(`Invalid batch response content type: ${contentType}`);
+
+	const responses: BatchResponse[] = new Array(count);
+	const parts = text.split(`--${boundary}`).slice(1);
+	for (const [position, part] of parts.entries()) {
+		if (part.startsWith("--")) break;
+		const [outerHeaders, inner] = splitHeaders(part.replace(/^\r?\n/, ""));
+		const id = outerHeaders.match(/Content-ID:\s*<response-item(\d+)>/i)?.[1];
+		const index = id !== undefined ? Number(id) : position;
+
+		const [head, body] = splitHeaders(inner);
+		const status = Number(head.match(/^HTTP\/[\d.]+\s+(\d+)/)?.[1] ?? 0);
+		const trimmed = body.trim();
+		try {
+			responses[index] = { status, body: trimmed ? JSON.parse(trimmed) : undefined };
+		} catch {
+			// E.g. an HTML error page from a proxy. A successful status would hide that the result is unknown.
+			const message = `Invalid response in batch (HTTP ${status}): ${trimmed.slice(0, 100)}`;
+			responses[index] = { status: status >= 300 ? status : 0, body: { error: { message } } };
+		}
+	}
+
+	for (let i = 0; i < count; i++) {
+		responses[i] ??= { status: 0, body: { error: { message: "Missing response in batch" } } };
+	}
+	return responses;
+}
+
+/**
+ * Whether sending the request twice has the same effect as sending it once. POST creates or moves an event.
+ */
+export function isIdempotent(request: BatchRequest): boolean {
+	return request.method !== "POST";
+}
+
+/**
+ * Converts a failed batch item into an error shaped like a googleapis error, so it can be classified and retried.
+ */
+export function toBatchError(response: BatchResponse): Error {
+	const error = (response.body as { error?: { message?: string; errors?: unknown } } | undefined)?.error;
+	return Object.assign(new Error(error?.message || `HTTP ${response.status}`), {
+		status: response.status,
+		errors: error?.errors,
+	});
+}
+
+function splitHeaders(text: string): [string, string] {
+	const match = text.match(/\r?\n\r?\n/);
+	if (!match || match.index === undefined) return [text, ""];
+	return [text.slice(0, match.index), text.slice(match.index + match[0].length)];
+}
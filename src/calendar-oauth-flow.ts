@@ -5,7 +5,7 @@ import * as readline from "readline";
 import * as url from "url";
 import { OAuth2Client } from "google-auth-library";
 
-const SCOPES = ["https://www.googleapis.com/auth/calendar"];
+export const SCOPES = ["https://www.googleapis.com/auth/calendar"];
 const TIMEOUT_MS = 2 * 60 * 1000;
 
 interface AuthResult {
@@ -1,20 +1,292 @@
-import { OAuth2Client } from "google-auth-library";
+import * as path from "path";
+import { JWT, OAuth2Client } from "google-auth-library";
 import { type calendar_v3, google } from "googleapis";
 import { AccountStorage } from "./account-storage.js";
-import { CalendarOAuthFlow } from "./calendar-oauth-flow.js";
-import type { CalendarAccount } from "./types.js";
+import type { AclRole, AclScope } from "./acl.js";
+import {
+	BATCH_PATH,
+	type BatchRequest,
+	type BatchResponse,
+	DEFAULT_API_ROOT,
+	MAX_BATCH_SIZE,
+	buildBatchBody,
+	createBoundary,
+	isIdempotent,
+	parseBatchResponse,
+	toBatchError,
+} from "./batch.js";
+import { CalendarOAuthFlow, SCOPES } from "./calendar-oauth-flow.js";
+import { getConfigDir } from "./config.js";
+import { addDays, formatInTimeZone, getZonedParts, zonedTimeToUtc } from "./date-parser.js";
+import { classifyError, getApiErrorInfo, isNetworkError } from "./errors.js";
+import { type CachedCalendar, EventCache } from "./event-cache.js";
+import {
+	type AutoDecline,
+	type ChatStatus,
+	type EventProperties,
+	type EventType,
+	type Reminder,
+	type WorkingLocation,
+	applyEventProperties,
+	toAutoDeclineMode,
+	toWorkingLocationProperties,
+} from "./event-options.js";
+import { type ApplyResult, type PlanOperation, diffOperation, toBatchRequest } from "./plan.js";
+import { type RecurrenceScope, getRRuleCount, setRRuleCount, trimRecurrence } from "./recurrence.js";
+import { type RetryOptions, isRetryable, isRetryableNonIdempotent, withRetry } from "./retry.js";
+import type { BackendName } from "./secret-store.js";
+import type { CalendarAccount, ServiceAccount } from "./types.js";
 
-type CalendarEvent = calendar_v3.Schema$Event;
-type Calendar = calendar_v3.Schema$CalendarListEntry;
+export type CalendarEvent = calendar_v3.Schema$Event;
+/** A calendar as listed in an account's calendar list */
+export type Calendar = calendar_v3.Schema$CalendarListEntry;
 
 export interface EventSearchResult {
 	events: CalendarEvent[];
 	nextPageToken?: string;
 }
 
+export interface AgendaEntry {
+	account: string;
+	calendarId: string;
+	calendarName: string;
+	event: CalendarEvent;
+}
+
+export interface AgendaOptions {
+	timeMin: string;
+	timeMax: string;
+	/** Default: the calendars selected in each account's calendar list */
+	calendarIds?: string[];
+	/** Read from the event cache instead of the API */
+	cached?: boolean;
+}
+
+export interface AgendaResult {
+	entries: AgendaEntry[];
+	/** Accounts or calendars that could not be read */
+	errors: Array<{ account: string; calendarId?: string; message: string }>;
+}
+
+export interface ImportResult {
+	iCalUID: string;
+	summary?: string;
+	action: "create" | "update" | "unchanged" | "error";
+	error?: string;
+}
+
+export interface ListEventsOptions {
+	timeMin?: string;
+	timeMax?: string;
+	maxResults?: number;
+	pageToken?: string;
+	/** Free text search in summary, description, location and attendees */
+	query?: string;
+	/** Expand recurring events into instances (default). When false, series are returned as their master event. */
+	singleEvents?: boolean;
+	/** Include deleted events (status `cancelled`) */
+	showDeleted?: boolean;
+	/** Only events changed since this instant (ISO 8601) */
+	updatedMin?: string;
+	/** Only events with all of these private extended properties */
+	privateProperties?: Record<string, string>;
+	/** Only events with all of these shared extended properties */
+	sharedProperties?: Record<string, string>;
+	/** Only events of these types (default: all) */
+	eventTypes?: EventType[];
+	/** Only the event with this iCalendar UID: a single event, or a series with its modified instances */
+	iCalUID?: string;
+}
+
+export interface ListInstancesOptions {
+	timeMin?: string;
+	timeMax?: string;
+	maxResults?: number;
+	pageToken?: string;
+}
+
+/**
+ * A new event, as taken by `createEvent` (see `EventBuilder`). `start` and `end` are ISO 8601 instants, or
+ * YYYY-MM-DD dates with `allDay` (`end` is exclusive).
+ */
+export interface NewEvent extends EventProperties {
+	summary: string;
+	description?: string;
+	location?: string;
+	start: string;
+	end: string;
+	attendees?: string[];
+	allDay?: boolean;
+	/** RRULE/EXDATE/RDATE lines */
+	recurrence?: string[];
+	/** IANA time zone of timed events, also used to expand recurrences (defaults to the system zone) */
+	timeZone?: string;
+}
+
+/**
+ * An out-of-office event. `start` and `end` are ISO 8601 instants; the API has no all-day out-of-office events.
+ */
+export interface OutOfOfficeEvent {
+	start: string;
+	end: string;
+	/** Default: "Out of office" */
+	summary?: string;
+	/** Which conflicting invitations are declined (default: all) */
+	autoDecline?: AutoDecline;
+	/** Sent with declined invitations */
+	declineMessage?: string;
+	timeZone?: string;
+}
+
+export interface FocusTimeEvent {
+	start: string;
+	end: string;
+	/** Default: "Focus time" */
+	summary?: string;
+	/** Which conflicting invitations are declined (default: new ones) */
+	autoDecline?: AutoDecline;
+	declineMessage?: string;
+	/** Google Chat status during the event (default: available) */
+	chatStatus?: ChatStatus;
+	timeZone?: string;
+}
+
+/**
+ * A working location event, for whole days (`allDay` with YYYY-MM-DD dates, `end` exclusive) or part of a day.
+ */
+export interface WorkingLocationEvent {
+	location: WorkingLocation;
+	start: string;
+	end: string;
+	allDay?: boolean;
+	/** Default: "Home", the location's label, or "Office" */
+	summary?: string;
+	timeZone?: string;
+}
+
+export interface EventUpdates extends EventProperties {
+	summary?: string;
+	description?: string;
+	location?: string;
+	start?: string;
+	end?: string;
+	attendees?: string[];
+	allDay?: boolean;
+	/** IANA time zone of a new start/end time (default: the event's own time zone) */
+	timeZone?: string;
+}
+
+export interface SyncResult {
+	calendarId: string;
+	added: number;
+	changed: number;
+	deleted: number;
+	/** True if all events were fetched, either because there was no sync token yet or it had expired */
+	fullSync: boolean;
+}
+
+/**
+ * A change found by a sync. Cancelled events are the last known version of the event.
+ */
+export interface EventChange {
+	type: "created" | "updated" | "cancelled";
+	calendarId: string;
+	event: CalendarEvent;
+}
+
+/** Who the API notifies about a change: all guests, only guests outside the organizer's domain, or nobody */
+export type SendUpdates = "all" | "externalOnly" | "none";
+
+export interface MutationOptions {
+	/** Default: the API's default, which is not to notify */
+	sendUpdates?: SendUpdates;
+}
+
+export interface CopyOptions extends MutationOptions {
+	/** Account to create the copy in (default: the source event's account) */
+	toAccount?: string;
+	/** Day to move the copy to (YYYY-MM-DD), keeping its time of day */
+	toDate?: string;
+	/** Milliseconds to move the copy by, after `toDate`. Whole days keep the time of day across DST changes. */
+	shift?: number;
+	/** Do not invite the source event's attendees */
+	stripAttendees?: boolean;
+	/** Time zone of timed events without their own (default: the system time zone) */
+	timeZone?: string;
+}
+
+export type ResponseStatus = "accepted" | "declined" | "tentative" | "needsAction";
+
+export interface AttendeeInput {
+	email: string;
+	displayName?: string;
+	/** Left unchanged for existing attendees if undefined */
+	optional?: boolean;
+}
+
+/** Settings of a calendar itself */
+export interface CalendarSettings {
+	summary?: string;
+	description?: string;
+	location?: string;
+	timeZone?: string;
+}
+
+/** Personal settings of a calendar in the account's calendar list */
+export interface CalendarListSettings {
+	/** Calendar color ID (see `colors.get`, distinct from event colors) */
+	colorId?: string;
+	/** Color as #rrggbb, instead of colorId */
+	backgroundColor?: string;
+	hidden?: boolean;
+	summaryOverride?: string;
+	defaultReminders?: Reminder[];
+}
+
+/**
+ * Provides the API clients instead of googleapis, e.g. `FakeCalendarBackend` for offline use and tests.
+ * Accounts need not be configured, as no credentials are used.
+ */
+export interface CalendarBackend {
+	getClient(email: string): calendar_v3.Calendar;
+	/** Executes batch requests. Without it, batches are sent to the API's batch endpoint. */
+	executeBatch?(email: string, requests: BatchRequest[]): Promise<BatchResponse[]>;
+}
+
+export interface CalendarServiceOptions {
+	/** Directory holding credentials, account tokens and the event cache (default: GCCLI_HOME or ~/.gccli) */
+	configDir?: string;
+	/** Retry budget and backoff for failed API requests */
+	retry?: RetryOptions;
+	/** Root URL of the API (default: https://www.googleapis.com/), e.g. for a proxy or an emulator */
+	apiRoot?: string;
+	backend?: CalendarBackend;
+	/**
+	 * Authorization to use instead of the stored accounts: one client for all accounts, or a client per account
+	 * (e.g. a `JWT` or an `OAuth2Client` with the application's own tokens). Accounts need not be added then.
+	 */
+	auth?: OAuth2Client | ((email: string) => OAuth2Client);
+}
+
 export class CalendarService {
-	private accountStorage = new AccountStorage();
+	private accountStorage: AccountStorage;
+	private eventCache: EventCache;
+	private retryOptions: RetryOptions;
+	private authClients: Map<string, OAuth2Client> = new Map();
 	private calendarClients: Map<string, calendar_v3.Calendar> = new Map();
+	private apiRoot?: string;
+	private backend?: CalendarBackend;
+	private auth?: CalendarServiceOptions["auth"];
+
+	constructor(options: CalendarServiceOptions = {}) {
+		const configDir = options.configDir ?? getConfigDir();
+		this.accountStorage = new AccountStorage(configDir);
+		this.eventCache = new EventCache(path.join(configDir, "cache"));
+		this.retryOptions = options.retry ?? {};
+		this.apiRoot = options.apiRoot;
+		this.backend = options.backend;
+		this.auth = options.auth;
+	}
 
 	async addAccount(email: string, clientId: string, clientSecret: string, manual = false): Promise<void> {
 		if (this.accountStorage.hasAccount(email)) {
@@ -32,8 +304,29 @@ export class CalendarService {
 		this.accountStorage.addAccount(account);
 	}
 
+	/**
+	 * Adds an account authenticating with a service account key. With `subject`, the service account impersonates
+	 * that user, which requires domain-wide delegation for the calendar scope in the Workspace admin console.
+	 * The key is checked by requesting an access token before the account is saved.
+	 */
+	async addServiceAccount(email: string, key: ServiceAccount["serviceAccount"]): Promise<void> {
+		if (this.accountStorage.hasAccount(email)) {
+			throw new Error(`Account '${email}' already exists`);
+		}
+
+		const account: ServiceAccount = { email, authType: "service", serviceAccount: key };
+		try {
+			await createServiceAccountClient(account).authorize();
+		} catch (e) {
+			throw classifyError(e);
+		}
+		this.accountStorage.addAccount(account);
+	}
+
 	deleteAccount(email: string): boolean {
+		this.authClients.delete(email);
 		this.calendarClients.delete(email);
+		this.eventCache.remove(email);
 		return this.accountStorage.deleteAccount(email);
 	}
 
@@ -49,12 +342,25 @@ export class CalendarService {
 		return this.accountStorage.getCredentials();
 	}
 
-	private getCalendarClient(email: string): calendar_v3.Calendar {
-		if (!this.calendarClients.has(email)) {
+	getStorageBackend(): BackendName {
+		return this.accountStorage.getBackendName();
+	}
+
+	migrateStorage(target: BackendName): void {
+		this.accountStorage.migrate(target);
+	}
+
+	private getAuthClient(email: string): OAuth2Client {
+		if (this.auth) return typeof this.auth === "function" ? this.auth(email) : this.auth;
+		if (!this.authClients.has(email)) {
 			const account = this.accountStorage.getAccount(email);
 			if (!account) {
 				throw new Error(`Account '${email}' not found`);
 			}
+			if (account.authType === "service") {
+				this.authClients.set(email, createServiceAccountClient(account));
+				return this.authClients.get(email)!;
+			}
 
 			const oauth2Client = new OAuth2Client(
 				account.oauth2.clientId,
@@ -66,48 +372,536 @@ export class CalendarService {
 				refresh_token: account.oauth2.refreshToken,
 				access_token: account.oauth2.accessToken,
 			});
+			this.authClients.set(email, oauth2Client);
+		}
+
+		return this.authClients.get(email)!;
+	}
 
-			const calendar = google.calendar({ version: "v3", auth: oauth2Client });
+	private getCalendarClient(email: string): calendar_v3.Calendar {
+		if (!this.calendarClients.has(email)) {
+			// Retries are handled by request(), for all methods and with our own budget
+			const calendar =
+				this.backend?.getClient(email) ??
+				google.calendar({ version: "v3", auth: this.getAuthClient(email), retry: false, rootUrl: this.apiRoot });
 			this.calendarClients.set(email, calendar);
 		}
 
 		return this.calendarClients.get(email)!;
 	}
 
+	/**
+	 * Runs an API call of the account, retrying transient failures and converting errors into typed errors.
+	 * Calls that are not idempotent (creating or moving events) are only retried when rate limited, so a request
+	 * that failed after taking effect is not repeated.
+	 */
+	private async request<T>(
+		email: string,
+		fn: () => Promise<T>,
+		options: { idempotent?: boolean; shouldRetry?: (e: unknown) => boolean } = {},
+	): Promise<T> {
+		const shouldRetry =
+			options.shouldRetry ?? (options.idempotent === false ? isRetryableNonIdempotent : isRetryable);
+		try {
+			return await withRetry(fn, this.retryOptions, shouldRetry);
+		} catch (e) {
+			// Only look the account up if it is already loaded: reading the store here could mask the original error
+			const account = this.authClients.has(email) ? this.accountStorage.getAccount(email) : undefined;
+			throw classifyError(e, account ?? email);
+		}
+	}
+
 	async listCalendars(email: string): Promise<Calendar[]> {
 		const calendar = this.getCalendarClient(email);
-		const response = await calendar.calendarList.list();
+		const response = await this.request(email, () => calendar.calendarList.list());
 		return response.data.items || [];
 	}
 
+	/**
+	 * Lists events of several accounts and calendars, merged chronologically. Without `calendarIds`, the calendars
+	 * selected in each account's calendar list are used. Events seen via multiple calendars (same iCalUID and start)
+	 * are only included once. Failing accounts or calendars are reported in `errors` instead of failing the whole agenda.
+	 */
+	async listAgenda(accounts: string[], options: AgendaOptions): Promise<AgendaResult> {
+		const errors: AgendaResult["errors"] = [];
+		const perAccount = await Promise.all(
+			accounts.map(async (account) => {
+				let calendars: Calendar[];
+				let cached = options.cached ?? false;
+				try {
+					calendars = cached ? this.listCachedCalendars(account) : await this.listCalendars(account);
+				} catch (e) {
+					const fallback = isNetworkError(e) ? this.eventCache.loadCalendarList(account) : null;
+					if (!fallback) {
+						errors.push({ account, message: e instanceof Error ? e.message : String(e) });
+						return [];
+					}
+					// Offline: serve the account from the cache, if it has been synced before
+					errors.push({ account, message: "offline, showing cached events" });
+					calendars = fallback;
+					cached = true;
+				}
+
+				const selected = options.calendarIds
+					? calendars.filter(
+							(c) =>
+								options.calendarIds!.includes(c.id!) || (c.primary && options.calendarIds!.includes("primary")),
+						)
+					: calendars.filter((c) => c.selected);
+
+				const perCalendar = await Promise.all(
+					selected.map(async (c) => {
+						try {
+							const range = { timeMin: options.timeMin, timeMax: options.timeMax };
+							const events = cached
+								? this.listCachedEvents(account, c.id!, range).events
+								: await this.listAllEvents(account, c.id!, range);
+							return events.map((event) => ({
+								account,
+								calendarId: c.id!,
+								calendarName: c.summaryOverride || c.summary || c.id!,
+								event,
+							}));
+						} catch (e) {
+							errors.push({ account, calendarId: c.id!, message: e instanceof Error ? e.message : String(e) });
+							return [];
+						}
+					}),
+				);
+				return perCalendar.flat();
+			}),
+		);
+
+		const seen = new Set<string>();
+		const entries: AgendaEntry[] = [];
+		for (const entry of perAccount.flat()) {
+			const start = entry.event.start?.dateTime || entry.event.start?.date || "";
+			const key = entry.event.iCalUID ? `${entry.event.iCalUID}|${start}` : `${entry.calendarId}|${entry.event.id}`;
+			if (seen.has(key)) continue;
+			seen.add(key);
+			entries.push(entry);
+		}
+		entries.sort((a, b) => eventStartTime(a.event) - eventStartTime(b.event));
+
+		return { entries, errors };
+	}
+
+	/**
+	 * Lists all events in the range, following page tokens.
+	 */
+	async listAllEvents(
+		email: string,
+		calendarId: string,
+		options: Omit<ListEventsOptions, "maxResults" | "pageToken"> = {},
+	): Promise<CalendarEvent[]> {
+		const events: CalendarEvent[] = [];
+		for await (const event of this.iterateEvents(email, calendarId, options)) {
+			events.push(event);
+		}
+		return events;
+	}
+
+	/**
+	 * Yields the matching events of all pages, fetching the next page (of `maxResults`, default 250) when needed.
+	 */
+	async *iterateEvents(
+		email: string,
+		calendarId: string,
+		options: Omit<ListEventsOptions, "pageToken"> = {},
+	): AsyncGenerator<CalendarEvent> {
+		let pageToken: string | undefined;
+		do {
+			const result = await this.listEvents(email, calendarId, { maxResults: 250, ...options, pageToken });
+			yield* result.events;
+			pageToken = result.nextPageToken;
+		} while (pageToken);
+	}
+
+	/**
+	 * Yields the instances of a recurring event across all pages, like `iterateEvents`.
+	 */
+	async *iterateInstances(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		options: Omit<ListInstancesOptions, "pageToken"> = {},
+	): AsyncGenerator<CalendarEvent> {
+		let pageToken: string | undefined;
+		do {
+			const result = await this.listInstances(email, calendarId, eventId, {
+				maxResults: 250,
+				...options,
+				pageToken,
+			});
+			yield* result.events;
+			pageToken = result.nextPageToken;
+		} while (pageToken);
+	}
+
+	/**
+	 * Brings the cached events of a calendar up to date. Uses the stored sync token to only fetch changes, and falls
+	 * back to a full sync if there is none or the API rejects it as expired (410 Gone).
+	 */
+	async syncEvents(email: string, calendarId: string): Promise<SyncResult> {
+		return (await this.syncEventChanges(email, calendarId)).result;
+	}
+
+	/**
+	 * Like `syncEvents`, but also returns the events that were created, updated or cancelled since the last sync.
+	 */
+	async syncEventChanges(email: string, requestedId: string): Promise<{ result: SyncResult; changes: EventChange[] }> {
+		const calendarId = await this.resolvePrimaryId(email, requestedId);
+		const cached = this.eventCache.load(email, calendarId);
+		const previous = new Map((cached?.events || []).map((e) => [e.id!, e]));
+		let changes: { items: CalendarEvent[]; nextSyncToken?: string };
+		let fullSync = !cached?.syncToken;
+		try {
+			changes = await this.fetchChanges(email, calendarId, cached?.syncToken);
+		} catch (e) {
+			const status = (e as { status?: unknown; code?: unknown }).status ?? (e as { code?: unknown }).code;
+			if (!fullSync && status === 410) {
+				fullSync = true;
+				changes = await this.fetchChanges(email, calendarId);
+			} else {
+				throw e;
+			}
+		}
+
+		const events = fullSync ? new Map<string, CalendarEvent>() : new Map(previous);
+		const result: SyncResult = { calendarId, added: 0, changed: 0, deleted: 0, fullSync };
+		const eventChanges: EventChange[] = [];
+		for (const item of changes.items) {
+			if (item.status === "cancelled") {
+				events.delete(item.id!);
+			} else {
+				events.set(item.id!, item);
+			}
+		}
+		for (const [id, event] of events) {
+			const before = previous.get(id);
+			if (!before) {
+				result.added++;
+				eventChanges.push({ type: "created", calendarId, event });
+			} else if (before.etag !== event.etag) {
+				result.changed++;
+				eventChanges.push({ type: "updated", calendarId, event });
+			}
+		}
+		for (const [id, event] of previous) {
+			if (!events.has(id)) {
+				result.deleted++;
+				eventChanges.push({ type: "cancelled", calendarId, event: { ...event, status: "cancelled" } });
+			}
+		}
+
+		this.eventCache.save(email, {
+			calendarId,
+			syncToken: changes.nextSyncToken,
+			syncedAt: new Date().toISOString(),
+			events: Array.from(events.values()).sort((a, b) => eventStartTime(a) - eventStartTime(b)),
+		});
+		return { result, changes: eventChanges };
+	}
+
+	/**
+	 * Registers a push notification channel: Google sends a POST request to `address` (HTTPS) whenever events
+	 * of the calendar change. `ttl` is the requested lifetime in seconds; the API may grant a shorter one.
+	 */
+	async watchEvents(
+		email: string,
+		calendarId: string,
+		channel: { id: string; address: string; token?: string; ttl?: number },
+	): Promise<calendar_v3.Schema$Channel> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(email, () =>
+			calendar.events.watch({
+				calendarId,
+				requestBody: {
+					id: channel.id,
+					type: "web_hook",
+					address: channel.address,
+					token: channel.token,
+					params: channel.ttl !== undefined ? { ttl: String(channel.ttl) } : undefined,
+				},
+			}),
+		);
+		return response.data;
+	}
+
+	async stopChannel(email: string, id: string, resourceId: string): Promise<void> {
+		const calendar = this.getCalendarClient(email);
+		await this.request(email, () => calendar.channels.stop({ requestBody: { id, resourceId } }));
+	}
+
+	/**
+	 * Syncs the given calendars, or all calendars selected in the account's calendar list. The calendar list itself
+	 * is cached too, for `agenda --cached`.
+	 */
+	async syncCalendars(email: string, calendarIds?: string[]): Promise<SyncResult[]> {
+		const calendars = await this.listCalendars(email);
+		this.eventCache.saveCalendarList(email, calendars);
+		const ids = calendarIds ?? calendars.filter((c) => c.selected).map((c) => c.id!);
+		const results: SyncResult[] = [];
+		for (const id of ids) {
+			results.push(await this.syncEvents(email, id));
+		}
+		return results;
+	}
+
+	/**
+	 * Fetches all events (without sync token) or the changes since the sync token, following page tokens.
+	 * Recurring events are expanded into instances like in `listEvents`, so the cache can answer the same queries.
+	 */
+	private async fetchChanges(
+		email: string,
+		calendarId: string,
+		syncToken?: string,
+	): Promise<{ items: CalendarEvent[]; nextSyncToken?: string }> {
+		const calendar = this.getCalendarClient(email);
+		const items: CalendarEvent[] = [];
+		let pageToken: string | undefined;
+		let nextSyncToken: string | undefined;
+		do {
+			const response = await this.request(email, () =>
+				calendar.events.list({
+					calendarId,
+					syncToken,
+					pageToken,
+					singleEvents: true,
+					maxResults: 2500,
+				}),
+			);
+			items.push(...(response.data.items || []));
+			pageToken = response.data.nextPageToken || undefined;
+			nextSyncToken = response.data.nextSyncToken || undefined;
+		} while (pageToken);
+		return { items, nextSyncToken };
+	}
+
+	getCachedCalendar(email: string, calendarId: string): CachedCalendar | null {
+		return this.eventCache.load(email, this.getCachedCalendarId(email, calendarId));
+	}
+
+	/**
+	 * The cache stores calendars under their real ID, so `primary` is mapped to the primary calendar's ID from the
+	 * cached calendar list. Without one, that is the account's email, as for every user's own calendar.
+	 */
+	private getCachedCalendarId(email: string, calendarId: string): string {
+		if (calendarId !== "primary") return calendarId;
+		return this.eventCache.loadCalendarList(email)?.find((c) => c.primary)?.id ?? email;
+	}
+
+	/**
+	 * Like `getCachedCalendarId`, but asks the API for the primary calendar's ID if the calendar list is not cached.
+	 */
+	private async resolvePrimaryId(email: string, calendarId: string): Promise<string> {
+		if (calendarId !== "primary") return calendarId;
+		const cached = this.eventCache.loadCalendarList(email)?.find((c) => c.primary)?.id;
+		return cached ?? (await this.getCalendar(email, "primary")).id ?? email;
+	}
+
+	listCachedCalendars(email: string): Calendar[] {
+		const calendars = this.eventCache.loadCalendarList(email);
+		if (!calendars) throw new Error(`No cached calendars for ${email}, run: gccli ${email} sync`);
+		return calendars;
+	}
+
+	/**
+	 * Answers `listEvents` queries from the cache. The page token is an offset into the matching events.
+	 * The cache holds no deleted events and only instances of recurring events, so `showDeleted` and
+	 * `singleEvents: false` are not supported.
+	 */
+	listCachedEvents(
+		email: string,
+		calendarId: string,
+		options: ListEventsOptions = {},
+	): EventSearchResult & { syncedAt: string } {
+		const cached = this.getCachedCalendar(email, calendarId);
+		if (!cached) throw new Error(`Calendar ${calendarId} is not cached, run: gccli ${email} sync ${calendarId}`);
+		const timeMin = options.timeMin ? Date.parse(options.timeMin) : Number.NEGATIVE_INFINITY;
+		const timeMax = options.timeMax ? Date.parse(options.timeMax) : Number.POSITIVE_INFINITY;
+		const matching = cached.events.filter(
+			(e) => eventEndTime(e) > timeMin && eventStartTime(e) < timeMax && matchesFilters(e, options),
+		);
+		const offset = options.pageToken ? Number(options.pageToken) : 0;
+		const end = options.maxResults ? offset + options.maxResults : matching.length;
+		return {
+			events: matching.slice(offset, end),
+			nextPageToken: end < matching.length ? String(end) : undefined,
+			syncedAt: cached.syncedAt,
+		};
+	}
+
+	async getCalendar(email: string, calendarId: string): Promise<calendar_v3.Schema$Calendar> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(email, () => calendar.calendars.get({ calendarId }));
+		return response.data;
+	}
+
 	async getCalendarAcl(email: string, calendarId: string): Promise<calendar_v3.Schema$AclRule[]> {
 		const calendar = this.getCalendarClient(email);
-		const response = await calendar.acl.list({ calendarId });
+		const response = await this.request(email, () => calendar.acl.list({ calendarId }));
 		return response.data.items || [];
 	}
 
-	async listEvents(
+	async createCalendar(email: string, settings: CalendarSettings): Promise<calendar_v3.Schema$Calendar> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(email, () => calendar.calendars.insert({ requestBody: settings }), {
+			idempotent: false,
+		});
+		return response.data;
+	}
+
+	/**
+	 * Updates the calendar itself (shared by everyone with access) and/or the account's calendar list entry
+	 * (personal display settings). Only the given fields are changed.
+	 */
+	async updateCalendar(
+		email: string,
+		calendarId: string,
+		settings: CalendarSettings,
+		listSettings: CalendarListSettings = {},
+	): Promise<Calendar> {
+		const calendar = this.getCalendarClient(email);
+		if (Object.values(settings).some((v) => v !== undefined)) {
+			await this.request(email, () => calendar.calendars.patch({ calendarId, requestBody: settings }));
+		}
+		const response = await this.request(email, () =>
+			Object.values(listSettings).some((v) => v !== undefined)
+				? calendar.calendarList.patch({
+						calendarId,
+						requestBody: toCalendarListEntry(listSettings),
+						colorRgbFormat: listSettings.backgroundColor !== undefined,
+					})
+				: calendar.calendarList.get({ calendarId }),
+		);
+		return response.data;
+	}
+
+	/**
+	 * Deletes a secondary calendar. The primary calendar cannot be deleted, only cleared.
+	 */
+	async deleteCalendar(email: string, calendarId: string): Promise<void> {
+		const calendar = this.getCalendarClient(email);
+		await this.request(email, () => calendar.calendars.delete({ calendarId }));
+	}
+
+	/**
+	 * Deletes all events of the primary calendar.
+	 */
+	async clearCalendar(email: string, calendarId: string): Promise<void> {
+		const calendar = this.getCalendarClient(email);
+		await this.request(email, () => calendar.calendars.clear({ calendarId }));
+	}
+
+	/**
+	 * Adds an existing calendar (e.g. one shared with the account) to the account's calendar list.
+	 */
+	async subscribeCalendar(
+		email: string,
+		calendarId: string,
+		listSettings: CalendarListSettings = {},
+	): Promise<Calendar> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(email, () =>
+			calendar.calendarList.insert({
+				requestBody: { id: calendarId, ...toCalendarListEntry(listSettings) },
+				colorRgbFormat: listSettings.backgroundColor !== undefined,
+			}),
+		);
+		return response.data;
+	}
+
+	async unsubscribeCalendar(email: string, calendarId: string): Promise<void> {
+		const calendar = this.getCalendarClient(email);
+		await this.request(email, () => calendar.calendarList.delete({ calendarId }));
+	}
+
+	/**
+	 * Grants a role to a scope. If the scope already has a rule, `insert` fails unless `replace` is set,
+	 * in which case the existing rule is updated.
+	 */
+	async setAclRule(
+		email: string,
+		calendarId: string,
+		scope: AclScope,
+		role: AclRole,
+		options: { replace?: boolean; sendNotifications?: boolean } = {},
+	): Promise<calendar_v3.Schema$AclRule> {
+		const calendar = this.getCalendarClient(email);
+		const requestBody = { scope, role };
+		if (options.replace) {
+			const existing = (await this.getCalendarAcl(email, calendarId)).find(
+				(rule) => rule.scope?.type === scope.type && (rule.scope?.value ?? undefined) === scope.value,
+			);
+			if (existing) {
+				const response = await this.request(email, () =>
+					calendar.acl.update({
+						calendarId,
+						ruleId: existing.id!,
+						requestBody,
+						sendNotifications: options.sendNotifications,
+					}),
+				);
+				return response.data;
+			}
+		}
+		const response = await this.request(email, () =>
+			calendar.acl.insert({ calendarId, requestBody, sendNotifications: options.sendNotifications }),
+		);
+		return response.data;
+	}
+
+	async deleteAclRule(email: string, calendarId: string, ruleId: string): Promise<void> {
+		const calendar = this.getCalendarClient(email);
+		await this.request(email, () => calendar.acl.delete({ calendarId, ruleId }));
+	}
+
+	async listEvents(email: string, calendarId: string, options: ListEventsOptions = {}): Promise<EventSearchResult> {
+		const calendar = this.getCalendarClient(email);
+		const singleEvents = options.singleEvents ?? true;
+		const response = await this.request(email, () =>
+			calendar.events.list({
+				calendarId,
+				timeMin: options.timeMin,
+				timeMax: options.timeMax,
+				maxResults: options.maxResults || 10,
+				pageToken: options.pageToken,
+				q: options.query,
+				singleEvents,
+				orderBy: singleEvents ? "startTime" : undefined,
+				showDeleted: options.showDeleted,
+				updatedMin: options.updatedMin,
+				privateExtendedProperty: toPropertyFilter(options.privateProperties),
+				sharedExtendedProperty: toPropertyFilter(options.sharedProperties),
+				eventTypes: options.eventTypes,
+				iCalUID: options.iCalUID,
+			}),
+		);
+
+		return {
+			events: response.data.items || [],
+			nextPageToken: response.data.nextPageToken || undefined,
+		};
+	}
+
+	async listInstances(
 		email: string,
 		calendarId: string,
-		options: {
-			timeMin?: string;
-			timeMax?: string;
-			maxResults?: number;
-			pageToken?: string;
-			query?: string;
-		} = {},
+		eventId: string,
+		options: ListInstancesOptions = {},
 	): Promise<EventSearchResult> {
 		const calendar = this.getCalendarClient(email);
-		const response = await calendar.events.list({
-			calendarId,
-			timeMin: options.timeMin,
-			timeMax: options.timeMax,
-			maxResults: options.maxResults || 10,
-			pageToken: options.pageToken,
-			q: options.query,
-			singleEvents: true,
-			orderBy: "startTime",
-		});
+		const response = await this.request(email, () =>
+			calendar.events.instances({
+				calendarId,
+				eventId,
+				timeMin: options.timeMin,
+				timeMax: options.timeMax,
+				maxResults: options.maxResults || 10,
+				pageToken: options.pageToken,
+			}),
+		);
 
 		return {
 			events: response.data.items || [],
@@ -117,96 +911,618 @@ export class CalendarService {
 
 	async getEvent(email: string, calendarId: string, eventId: string): Promise<CalendarEvent> {
 		const calendar = this.getCalendarClient(email);
-		const response = await calendar.events.get({
-			calendarId,
-			eventId,
-		});
+		const response = await this.request(email, () =>
+			calendar.events.get({
+				calendarId,
+				eventId,
+			}),
+		);
 		return response.data;
 	}
 
 	async createEvent(
 		email: string,
 		calendarId: string,
-		event: {
-			summary: string;
-			description?: string;
-			location?: string;
-			start: string;
-			end: string;
-			attendees?: string[];
-			allDay?: boolean;
-		},
+		event: NewEvent,
+		options: MutationOptions = {},
 	): Promise<CalendarEvent> {
 		const calendar = this.getCalendarClient(email);
 
-		const eventBody: calendar_v3.Schema$Event = {
-			summary: event.summary,
-			description: event.description,
-			location: event.location,
-			start: event.allDay ? { date: event.start } : { dateTime: event.start },
-			end: event.allDay ? { date: event.end } : { dateTime: event.end },
-			attendees: event.attendees?.map((e) => ({ email: e })),
-		};
+		const timeZone = event.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+		const eventBody = applyEventProperties(
+			{
+				summary: event.summary,
+				description: event.description,
+				location: event.location,
+				start: event.allDay ? { date: event.start } : { dateTime: event.start, timeZone },
+				end: event.allDay ? { date: event.end } : { dateTime: event.end, timeZone },
+				attendees: event.attendees?.map((e) => ({ email: e })),
+				recurrence: event.recurrence,
+			},
+			event,
+		);
 
-		const response = await calendar.events.insert({
-			calendarId,
-			requestBody: eventBody,
+		const response = await this.request(
+			email,
+			() =>
+				calendar.events.insert({
+					calendarId,
+					requestBody: eventBody,
+					sendUpdates: options.sendUpdates,
+					// Required for conferenceData (e.g. a Meet link request) to be taken into account
+					conferenceDataVersion: 1,
+				}),
+			{ idempotent: false },
+		);
+
+		return response.data;
+	}
+
+	/**
+	 * Creates an out-of-office event on the primary calendar, which declines conflicting invitations.
+	 */
+	async createOutOfOffice(email: string, event: OutOfOfficeEvent): Promise<CalendarEvent> {
+		const timeZone = event.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+		return this.insertPrimaryEvent(email, {
+			eventType: "outOfOffice",
+			summary: event.summary ?? "Out of office",
+			start: { dateTime: event.start, timeZone },
+			end: { dateTime: event.end, timeZone },
+			transparency: "opaque",
+			outOfOfficeProperties: {
+				autoDeclineMode: toAutoDeclineMode(event.autoDecline ?? "all"),
+				declineMessage: event.declineMessage,
+			},
 		});
+	}
+
+	/**
+	 * Creates a focus time event on the primary calendar.
+	 */
+	async createFocusTime(email: string, event: FocusTimeEvent): Promise<CalendarEvent> {
+		const timeZone = event.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+		return this.insertPrimaryEvent(email, {
+			eventType: "focusTime",
+			summary: event.summary ?? "Focus time",
+			start: { dateTime: event.start, timeZone },
+			end: { dateTime: event.end, timeZone },
+			transparency: "opaque",
+			focusTimeProperties: {
+				autoDeclineMode: toAutoDeclineMode(event.autoDecline ?? "new"),
+				declineMessage: event.declineMessage,
+				chatStatus: event.chatStatus ?? "available",
+			},
+		});
+	}
 
+	/**
+	 * Sets where the user works by creating a working location event on the primary calendar.
+	 */
+	async createWorkingLocation(email: string, event: WorkingLocationEvent): Promise<CalendarEvent> {
+		const timeZone = event.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+		const location = event.location;
+		return this.insertPrimaryEvent(email, {
+			eventType: "workingLocation",
+			summary: event.summary ?? (location.type === "home" ? "Home" : location.label || "Office"),
+			start: event.allDay ? { date: event.start } : { dateTime: event.start, timeZone },
+			end: event.allDay ? { date: event.end } : { dateTime: event.end, timeZone },
+			// The API only accepts working locations that are free and public
+			transparency: "transparent",
+			visibility: "public",
+			workingLocationProperties: toWorkingLocationProperties(location),
+		});
+	}
+
+	private async insertPrimaryEvent(email: string, event: CalendarEvent): Promise<CalendarEvent> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(
+			email,
+			() => calendar.events.insert({ calendarId: "primary", requestBody: event }),
+			{ idempotent: false },
+		);
 		return response.data;
 	}
 
+	/**
+	 * Updates an event. For instances of a recurring event, `scope` selects what is changed:
+	 * - `this`: only the given instance
+	 * - `following`: the given instance and all later ones (splits the series into two)
+	 * - `all`: the whole series; start/end changes shift every instance by the same amount
+	 */
 	async updateEvent(
 		email: string,
 		calendarId: string,
 		eventId: string,
-		updates: {
-			summary?: string;
-			description?: string;
-			location?: string;
-			start?: string;
-			end?: string;
-			attendees?: string[];
-			allDay?: boolean;
-		},
+		updates: EventUpdates,
+		scope: RecurrenceScope = "this",
+		options: MutationOptions = {},
+	): Promise<CalendarEvent> {
+		const existing = await this.getEvent(email, calendarId, eventId);
+		if (scope === "this" || !existing.recurringEventId) {
+			return this.putEvent(email, calendarId, eventId, applyEventUpdates(existing, updates), options);
+		}
+
+		const master = await this.getEvent(email, calendarId, existing.recurringEventId);
+		if (scope === "all" || isFirstOccurrence(master, existing)) {
+			const eventBody = applyEventUpdates(master, { ...updates, start: undefined, end: undefined });
+			const updated = applyEventUpdates(existing, updates);
+			if (updates.start !== undefined) {
+				eventBody.start = shiftEventTime(master.start!, existing.start!, updated.start!);
+			}
+			if (updates.end !== undefined) {
+				eventBody.end = shiftEventTime(master.end!, existing.end!, updated.end!);
+			}
+			return this.putEvent(email, calendarId, master.id!, eventBody, options);
+		}
+
+		return this.splitSeries(email, calendarId, master, existing, updates, options);
+	}
+
+	/**
+	 * Ends `master` right before `instance` and creates a new series starting at `instance`
+	 * with the updates applied.
+	 */
+	private async splitSeries(
+		email: string,
+		calendarId: string,
+		master: CalendarEvent,
+		instance: CalendarEvent,
+		updates: EventUpdates,
+		options: MutationOptions,
 	): Promise<CalendarEvent> {
 		const calendar = this.getCalendarClient(email);
+		const originalStart = instance.originalStartTime!;
+		const recurrence = master.recurrence || [];
 
-		// Get existing event first
-		const existing = await this.getEvent(email, calendarId, eventId);
+		let newRecurrence = recurrence;
+		const count = getRRuleCount(recurrence);
+		if (count !== undefined) {
+			const before = await this.countInstancesBefore(email, calendarId, master.id!, originalStart);
+			newRecurrence = setRRuleCount(recurrence, Math.max(1, count - before));
+		}
+
+		await this.request(email, () =>
+			calendar.events.patch({
+				calendarId,
+				eventId: master.id!,
+				requestBody: { recurrence: trimRecurrence(recurrence, originalStart) },
+				sendUpdates: options.sendUpdates,
+			}),
+		);
 
-		const eventBody: calendar_v3.Schema$Event = {
-			...existing,
-			summary: updates.summary ?? existing.summary,
-			description: updates.description ?? existing.description,
-			location: updates.location ?? existing.location,
+		const timeZone = master.start?.timeZone;
+		const base: CalendarEvent = {
+			...master,
+			start: { ...instance.start, timeZone: instance.start?.timeZone ?? timeZone },
+			end: { ...instance.end, timeZone: instance.end?.timeZone ?? timeZone },
 		};
+		const response = await this.request(
+			email,
+			() =>
+				calendar.events.insert({
+					calendarId,
+					requestBody: { ...stripEventIdentity(applyEventUpdates(base, updates)), recurrence: newRecurrence },
+					sendUpdates: options.sendUpdates,
+					conferenceDataVersion: 1,
+				}),
+			{ idempotent: false },
+		);
+		return response.data;
+	}
 
-		if (updates.start !== undefined) {
-			eventBody.start = updates.allDay ? { date: updates.start } : { dateTime: updates.start };
+	private async countInstancesBefore(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		start: calendar_v3.Schema$EventDateTime,
+	): Promise<number> {
+		const calendar = this.getCalendarClient(email);
+		const timeMax = start.dateTime ?? `${start.date}T00:00:00Z`;
+		let count = 0;
+		let pageToken: string | undefined;
+		do {
+			const response = await this.request(email, () =>
+				calendar.events.instances({
+					calendarId,
+					eventId,
+					timeMax,
+					showDeleted: true,
+					maxResults: 2500,
+					pageToken,
+				}),
+			);
+			count += response.data.items?.length || 0;
+			pageToken = response.data.nextPageToken || undefined;
+		} while (pageToken);
+		return count;
+	}
+
+	private async putEvent(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		eventBody: CalendarEvent,
+		options: MutationOptions,
+	): Promise<CalendarEvent> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(email, () =>
+			calendar.events.update({
+				calendarId,
+				eventId,
+				requestBody: eventBody,
+				sendUpdates: options.sendUpdates,
+				conferenceDataVersion: 1,
+			}),
+		);
+		return response.data;
+	}
+
+	/**
+	 * Deletes an event. For instances of a recurring event, `scope` selects what is deleted:
+	 * only this instance, this and all following instances (the series is ended before it), or the whole series.
+	 */
+	async deleteEvent(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		scope: RecurrenceScope = "this",
+		options: MutationOptions = {},
+	): Promise<void> {
+		const calendar = this.getCalendarClient(email);
+		let targetId = eventId;
+		if (scope !== "this") {
+			const existing = await this.getEvent(email, calendarId, eventId);
+			if (existing.recurringEventId) {
+				const master = await this.getEvent(email, calendarId, existing.recurringEventId);
+				if (scope === "following" && !isFirstOccurrence(master, existing)) {
+					await this.request(email, () =>
+						calendar.events.patch({
+							calendarId,
+							eventId: master.id!,
+							requestBody: { recurrence: trimRecurrence(master.recurrence || [], existing.originalStartTime!) },
+							sendUpdates: options.sendUpdates,
+						}),
+					);
+					return;
+				}
+				targetId = master.id!;
+			}
 		}
-		if (updates.end !== undefined) {
-			eventBody.end = updates.allDay ? { date: updates.end } : { dateTime: updates.end };
+		await this.request(email, () =>
+			calendar.events.delete({
+				calendarId,
+				eventId: targetId,
+				sendUpdates: options.sendUpdates,
+			}),
+		);
+	}
+
+	/**
+	 * Moves an event to another calendar of the same account. The event keeps its ID.
+	 */
+	async moveEvent(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		destination: string,
+		options: MutationOptions = {},
+	): Promise<CalendarEvent> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(
+			email,
+			() => calendar.events.move({ calendarId, eventId, destination, sendUpdates: options.sendUpdates }),
+			{ idempotent: false },
+		);
+		return response.data;
+	}
+
+	/**
+	 * Creates a copy of an event in `destination`, optionally in another account and at another time.
+	 * Description, reminders, color and other settings are kept. Attendees are invited again (their responses
+	 * are not copied), and a Google Meet conference gets a new link. Copying an instance of a recurring
+	 * event creates a single event.
+	 */
+	async copyEvent(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		destination: string,
+		options: CopyOptions = {},
+	): Promise<CalendarEvent> {
+		const source = await this.getEvent(email, calendarId, eventId);
+		const { organizer, creator, hangoutLink, conferenceData, attendees, ...rest } = stripEventIdentity(source);
+		let eventBody: CalendarEvent = {
+			...rest,
+			attendees: options.stripAttendees
+				? undefined
+				: attendees
+						?.filter((a) => !a.organizer)
+						.map((a) => ({ email: a.email, displayName: a.displayName, optional: a.optional })),
+		};
+		if (options.toDate !== undefined || options.shift !== undefined) {
+			eventBody = shiftEvent(eventBody, options.toDate, options.shift ?? 0, options.timeZone);
 		}
-		if (updates.attendees !== undefined) {
-			eventBody.attendees = updates.attendees.map((e) => ({ email: e }));
+		eventBody = applyEventProperties(eventBody, {
+			meet: conferenceData?.conferenceSolution?.key?.type === "hangoutsMeet",
+		});
+
+		const target = options.toAccount ?? email;
+		const calendar = this.getCalendarClient(target);
+		const response = await this.request(
+			target,
+			() =>
+				calendar.events.insert({
+					calendarId: destination,
+					requestBody: eventBody,
+					sendUpdates: options.sendUpdates,
+					conferenceDataVersion: 1,
+				}),
+			{ idempotent: false },
+		);
+		return response.data;
+	}
+
+	/**
+	 * Adds, updates or removes individual attendees, keeping everyone else (and their responses) as is.
+	 * Adding an existing attendee updates their display name and optional flag, if given.
+	 */
+	async updateAttendees(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		changes: { add?: AttendeeInput[]; remove?: string[] },
+		options: MutationOptions = {},
+	): Promise<CalendarEvent> {
+		const existing = await this.getEvent(email, calendarId, eventId);
+		const remove = new Set((changes.remove || []).map((e) => e.toLowerCase()));
+		const attendees = (existing.attendees || []).filter((a) => !remove.has(a.email?.toLowerCase() || ""));
+		for (const input of changes.add || []) {
+			const current = attendees.find((a) => a.email?.toLowerCase() === input.email.toLowerCase());
+			if (current) {
+				if (input.displayName !== undefined) current.displayName = input.displayName;
+				if (input.optional !== undefined) current.optional = input.optional;
+			} else {
+				attendees.push({ email: input.email, displayName: input.displayName, optional: input.optional });
+			}
 		}
+		return this.patchEvent(email, calendarId, eventId, { attendees }, options);
+	}
 
-		const response = await calendar.events.update({
-			calendarId,
-			eventId,
-			requestBody: eventBody,
-		});
+	/**
+	 * Sets the response of the account's user to an event they are invited to.
+	 */
+	async respondToEvent(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		response: Exclude<ResponseStatus, "needsAction">,
+		comment?: string,
+		options: MutationOptions = {},
+	): Promise<CalendarEvent> {
+		const existing = await this.getEvent(email, calendarId, eventId);
+		const attendees = existing.attendees || [];
+		const self =
+			attendees.find((a) => a.self) ?? attendees.find((a) => a.email?.toLowerCase() === email.toLowerCase());
+		if (!self) throw new Error(`${email} is not an attendee of this event`);
+		self.responseStatus = response;
+		if (comment !== undefined) self.comment = comment;
+		return this.patchEvent(email, calendarId, eventId, { attendees }, options);
+	}
+
+	/**
+	 * Lists events in the range the account's user has not responded to yet.
+	 */
+	async listInvitations(
+		email: string,
+		calendarId: string,
+		options: { timeMin: string; timeMax: string },
+	): Promise<CalendarEvent[]> {
+		const events = await this.listAllEvents(email, calendarId, options);
+		return events.filter((e) => e.attendees?.some((a) => a.self && a.responseStatus === "needsAction"));
+	}
 
+	private async patchEvent(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		eventBody: CalendarEvent,
+		options: MutationOptions,
+	): Promise<CalendarEvent> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(email, () =>
+			calendar.events.patch({
+				calendarId,
+				eventId,
+				requestBody: eventBody,
+				sendUpdates: options.sendUpdates,
+			}),
+		);
 		return response.data;
 	}
 
-	async deleteEvent(email: string, calendarId: string, eventId: string): Promise<void> {
+	/**
+	 * Imports events (e.g. parsed from an .ics file) via `events.import`, which creates or updates by iCalUID.
+	 * Events identical to the existing copy are skipped. With `dryRun`, only reports what would happen.
+	 */
+	async importEvents(
+		email: string,
+		calendarId: string,
+		events: CalendarEvent[],
+		options: { dryRun?: boolean } = {},
+	): Promise<ImportResult[]> {
 		const calendar = this.getCalendarClient(email);
-		await calendar.events.delete({
-			calendarId,
-			eventId,
+		const results: ImportResult[] = [];
+		for (const event of events) {
+			const result: ImportResult = {
+				iCalUID: event.iCalUID!,
+				summary: event.summary || undefined,
+				action: "create",
+			};
+			try {
+				const existing = (await this.findEventsByICalUID(email, calendarId, event.iCalUID!)).find((e) =>
+					sameOccurrence(e, event),
+				);
+				if (existing) result.action = eventDiffers(existing, event) ? "update" : "unchanged";
+				if (!options.dryRun && result.action !== "unchanged") {
+					await this.request(email, () => calendar.events.import({ calendarId, requestBody: event }), {
+						idempotent: false,
+					});
+				}
+			} catch (e) {
+				result.action = "error";
+				result.error = e instanceof Error ? e.message : String(e);
+			}
+			results.push(result);
+		}
+		return results;
+	}
+
+	/**
+	 * Returns the series master and modified instances (including deleted ones) with the given iCalUID.
+	 */
+	async findEventsByICalUID(email: string, calendarId: string, iCalUID: string): Promise<CalendarEvent[]> {
+		const calendar = this.getCalendarClient(email);
+		const response = await this.request(email, () =>
+			calendar.events.list({ calendarId, iCalUID, showDeleted: true }),
+		);
+		return response.data.items || [];
+	}
+
+	/**
+	 * Executes plan operations in batch requests. Failed operations are reported in their result instead of
+	 * aborting the plan. With `dryRun`, nothing is changed; the affected events are fetched to compute the changes.
+	 */
+	async applyPlan(
+		email: string,
+		operations: PlanOperation[],
+		options: { dryRun?: boolean } & MutationOptions = {},
+	): Promise<ApplyResult[]> {
+		const results: ApplyResult[] = operations.map((operation, index) => ({
+			index,
+			op: operation.op,
+			calendarId: operation.calendar,
+			eventId: operation.op === "create" ? undefined : operation.id,
+			summary: "event" in operation ? operation.event.summary || undefined : undefined,
+			status: options.dryRun ? "planned" : "ok",
+		}));
+
+		if (options.dryRun) {
+			const lookups = operations.filter(
+				(operation): operation is Exclude<PlanOperation, { op: "create" }> => operation.op !== "create",
+			);
+			const responses = await this.executeBatch(
+				email,
+				lookups.map((operation) => ({
+					method: "GET",
+					path: `/calendar/v3/calendars/${encodeURIComponent(operation.calendar)}/events/${encodeURIComponent(operation.id)}`,
+				})),
+			);
+			let next = 0;
+			for (const [index, operation] of operations.entries()) {
+				const result = results[index];
+				if (operation.op === "create") {
+					result.changes = diffOperation(operation);
+					continue;
+				}
+				const response = responses[next++];
+				if (response.status >= 300) {
+					result.status = "error";
+					result.error = toBatchError(response).message;
+					continue;
+				}
+				const existing = response.body as CalendarEvent | undefined;
+				result.summary ??= existing?.summary || undefined;
+				result.changes = diffOperation(operation, existing);
+			}
+			return results;
+		}
+
+		const responses = await this.executeBatch(
+			email,
+			operations.map((operation) => toBatchRequest(operation, options.sendUpdates)),
+		);
+		for (const [index, response] of responses.entries()) {
+			const result = results[index];
+			if (response.status >= 300) {
+				result.status = "error";
+				result.error = toBatchError(response).message;
+				continue;
+			}
+			const event = response.body as CalendarEvent | undefined;
+			if (event?.id) result.eventId = event.id;
+			result.summary ??= event?.summary || undefined;
+		}
+		return results;
+	}
+
+	/**
+	 * Sends requests as multipart batches of up to 50. Items failing with a retryable status are resent within the
+	 * retry budget. Returns one response per request; failed items keep their error response. If a batch request
+	 * itself fails, its unanswered items and all later ones get an error response, keeping earlier results.
+	 */
+	async executeBatch(email: string, requests: BatchRequest[]): Promise<BatchResponse[]> {
+		const responses: BatchResponse[] = [];
+		for (let offset = 0; offset < requests.length; offset += MAX_BATCH_SIZE) {
+			const chunk = requests.slice(offset, offset + MAX_BATCH_SIZE);
+			const chunkResponses: Array<BatchResponse | undefined> = new Array(chunk.length).fill(undefined);
+			let pending = chunk.map((_, index) => index);
+			let itemsFailed = false;
+			const canRetry = (request: BatchRequest, e: unknown) =>
+				isIdempotent(request) ? isRetryable(e) : isRetryableNonIdempotent(e);
+			try {
+				await this.request(
+					email,
+					async () => {
+						itemsFailed = false;
+						const sent = await this.postBatch(
+							email,
+							pending.map((index) => chunk[index]),
+						);
+						for (const [position, response] of sent.entries()) {
+							chunkResponses[pending[position]] = response;
+						}
+						pending = pending.filter((index) => canRetry(chunk[index], toBatchError(chunkResponses[index]!)));
+						itemsFailed = pending.length > 0;
+						if (itemsFailed) throw toBatchError(chunkResponses[pending[0]]!);
+					},
+					{
+						// Pending items were already checked. A failed batch request is only resent if every item may be.
+						shouldRetry: (e) => itemsFailed || pending.every((index) => canRetry(chunk[index], e)),
+					},
+				);
+			} catch (e) {
+				// Out of retries for some items: they keep their error response. Otherwise the batch request failed.
+				if (chunkResponses.includes(undefined)) {
+					const failed: BatchResponse = {
+						status: getApiErrorInfo(e).status ?? 0,
+						body: { error: { message: e instanceof Error ? e.message : String(e) } },
+					};
+					responses.push(...chunkResponses.map((response) => response ?? failed));
+					while (responses.length < requests.length) responses.push(failed);
+					break;
+				}
+			}
+			responses.push(...(chunkResponses as BatchResponse[]));
+		}
+		return responses;
+	}
+
+	private async postBatch(email: string, requests: BatchRequest[]): Promise<BatchResponse[]> {
+		if (this.backend?.executeBatch) return this.backend.executeBatch(email, requests);
+		const boundary = createBoundary();
+		const response = await this.getAuthClient(email).request<string>({
+			url: new URL(BATCH_PATH, this.apiRoot ?? DEFAULT_API_ROOT).href,
+			method: "POST",
+			headers: { "Content-Type": `multipart/mixed; boundary=${boundary}` },
+			data: buildBatchBody(requests, boundary),
+			responseType: "text",
 		});
+		const headers = response.headers as unknown as Headers | Record<string, string>;
+		const contentType =
+			typeof (headers as Headers).get === "function"
+				? (headers as Headers).get("content-type")
+				: (headers as Record<string, string>)["content-type"];
+		return parseBatchResponse(response.data, contentType || "", requests.length);
 	}
 
 	async getFreeBusy(
@@ -216,13 +1532,15 @@ export class CalendarService {
 		timeMax: string,
 	): Promise<Map<string, Array<{ start: string; end: string }>>> {
 		const calendar = this.getCalendarClient(email);
-		const response = await calendar.freebusy.query({
-			requestBody: {
-				timeMin,
-				timeMax,
-				items: calendarIds.map((id) => ({ id })),
-			},
-		});
+		const response = await this.request(email, () =>
+			calendar.freebusy.query({
+				requestBody: {
+					timeMin,
+					timeMax,
+					items: calendarIds.map((id) => ({ id })),
+				},
+			}),
+		);
 
 		const result = new Map<string, Array<{ start: string; end: string }>>();
 		const calendars = response.data.calendars || {};
@@ -238,3 +1556,218 @@ export class CalendarService {
 		return result;
 	}
 }
+
+function toCalendarListEntry(settings: CalendarListSettings): Calendar {
+	return {
+		colorId: settings.colorId,
+		backgroundColor: settings.backgroundColor,
+		// The API requires a foreground color whenever a background color is set
+		foregroundColor: settings.backgroundColor ? "#000000" : undefined,
+		hidden: settings.hidden,
+		// Hidden calendars are not selected, visible ones are
+		selected: settings.hidden === undefined ? undefined : !settings.hidden,
+		summaryOverride: settings.summaryOverride,
+		defaultReminders: settings.defaultReminders,
+	};
+}
+
+/**
+ * Start of an event in ms since epoch. All-day events start at local midnight.
+ */
+function eventStartTime(event: CalendarEvent): number {
+	if (event.start?.dateTime) return Date.parse(event.start.dateTime);
+	if (event.start?.date) return Date.parse(`${event.start.date}T00:00:00`);
+	return 0;
+}
+
+function eventEndTime(event: CalendarEvent): number {
+	if (event.end?.dateTime) return Date.parse(event.end.dateTime);
+	if (event.end?.date) return Date.parse(`${event.end.date}T00:00:00`);
+	return eventStartTime(event);
+}
+
+/**
+ * Extended property filters as the API takes them: `key=value` strings, of which events must match all.
+ */
+function toPropertyFilter(properties: Record<string, string> | undefined): string[] | undefined {
+	return properties && Object.entries(properties).map(([key, value]) => `${key}=${value}`);
+}
+
+/**
+ * Whether a cached event matches the filters `listEvents` leaves to the API.
+ */
+function matchesFilters(event: CalendarEvent, options: ListEventsOptions): boolean {
+	const query = options.query?.toLowerCase();
+	if (query && !eventText(event).includes(query)) return false;
+	if (options.iCalUID && event.iCalUID !== options.iCalUID) return false;
+	if (options.updatedMin && Date.parse(event.updated || "") < Date.parse(options.updatedMin)) return false;
+	if (options.eventTypes && !options.eventTypes.includes((event.eventType || "default") as EventType)) return false;
+	const hasAll = (properties: Record<string, string> | undefined, actual: Record<string, string> | undefined | null) =>
+		Object.entries(properties ?? {}).every(([key, value]) => actual?.[key] === value);
+	return (
+		hasAll(options.privateProperties, event.extendedProperties?.private) &&
+		hasAll(options.sharedProperties, event.extendedProperties?.shared)
+	);
+}
+
+/**
+ * Lowercased text a cached event is searched in, approximating the fields the API's free text search covers.
+ */
+function eventText(event: CalendarEvent): string {
+	const people = [event.organizer, ...(event.attendees || [])].map((p) => `${p?.displayName || ""} ${p?.email || ""}`);
+	return [event.summary, event.description, event.location, ...people].join("\n").toLowerCase();
+}
+
+function sameOccurrence(a: CalendarEvent, b: CalendarEvent): boolean {
+	if (!a.originalStartTime || !b.originalStartTime) return !a.originalStartTime && !b.originalStartTime;
+	return timeValue(a.originalStartTime) === timeValue(b.originalStartTime);
+}
+
+/**
+ * Whether an imported event changes the existing copy: a different status or content, or a newer revision
+ * (higher SEQUENCE or later LAST-MODIFIED) of the event.
+ */
+function eventDiffers(existing: CalendarEvent, incoming: CalendarEvent): boolean {
+	if (existing.status === "cancelled") return true;
+	const text = (v: string | null | undefined) => v || "";
+	return (
+		(incoming.status || "confirmed") !== (existing.status || "confirmed") ||
+		(incoming.sequence ?? 0) > (existing.sequence ?? 0) ||
+		Date.parse(incoming.updated || "") > Date.parse(existing.updated || "") ||
+		text(existing.summary) !== text(incoming.summary) ||
+		text(existing.description) !== text(incoming.description) ||
+		text(existing.location) !== text(incoming.location) ||
+		timeValue(existing.start) !== timeValue(incoming.start) ||
+		timeValue(existing.end) !== timeValue(incoming.end) ||
+		(existing.recurrence || []).join("\n") !== (incoming.recurrence || []).join("\n") ||
+		(existing.attendees || []).map((a) => a.email).join(",") !==
+			(incoming.attendees || []).map((a) => a.email).join(",")
+	);
+}
+
+function timeValue(time: calendar_v3.Schema$EventDateTime | undefined): string {
+	if (!time) return "";
+	if (time.date) return time.date;
+	const floating = time.dateTime?.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/);
+	if (floating && time.timeZone) {
+		const [, year, month, day, hour, minute, second] = floating.map(Number);
+		return String(zonedTimeToUtc({ year, month, day }, hour, minute, second, time.timeZone).getTime());
+	}
+	return String(Date.parse(time.dateTime || ""));
+}
+
+function applyEventUpdates(existing: CalendarEvent, updates: EventUpdates): CalendarEvent {
+	const eventBody: calendar_v3.Schema$Event = {
+		...existing,
+		summary: updates.summary ?? existing.summary,
+		description: updates.description ?? existing.description,
+		location: updates.location ?? existing.location,
+	};
+
+	if (updates.start !== undefined) {
+		eventBody.start = updates.allDay
+			? { date: updates.start }
+			: { dateTime: updates.start, timeZone: updates.timeZone ?? existing.start?.timeZone };
+	}
+	if (updates.end !== undefined) {
+		eventBody.end = updates.allDay
+			? { date: updates.end }
+			: { dateTime: updates.end, timeZone: updates.timeZone ?? existing.end?.timeZone };
+	}
+	if (updates.attendees !== undefined) {
+		// Keep response status, optional flag and name of attendees that stay
+		const previous = new Map((existing.attendees || []).map((a) => [a.email?.toLowerCase(), a]));
+		eventBody.attendees = updates.attendees.map((e) => previous.get(e.toLowerCase()) ?? { email: e });
+	}
+	return applyEventProperties(eventBody, updates);
+}
+
+function createServiceAccountClient(account: ServiceAccount): JWT {
+	return new JWT({
+		email: account.serviceAccount.clientEmail,
+		key: account.serviceAccount.privateKey,
+		keyId: account.serviceAccount.privateKeyId,
+		subject: account.serviceAccount.subject,
+		scopes: SCOPES,
+	});
+}
+
+function stripEventIdentity(event: CalendarEvent): CalendarEvent {
+	const { id, iCalUID, etag, htmlLink, created, updated, sequence, recurringEventId, originalStartTime, ...rest } =
+		event;
+	return rest;
+}
+
+/**
+ * Moves an event to `toDate` (keeping its time of day and length), then by `shift` milliseconds.
+ * Whole days are added to the wall-clock date in the event's time zone, so 9:00 stays 9:00 across DST changes.
+ */
+function shiftEvent(
+	event: CalendarEvent,
+	toDate: string | undefined,
+	shift: number,
+	fallbackZone?: string,
+): CalendarEvent {
+	const DAY = 24 * 60 * 60 * 1000;
+	const days = Math.trunc(shift / DAY);
+	const rest = shift - days * DAY;
+
+	if (event.start?.date && event.end?.date) {
+		if (rest !== 0) throw new Error("All-day events can only be shifted by whole days");
+		const offset = (toDate ? daysBetween(event.start.date, toDate) : 0) + days;
+		return {
+			...event,
+			start: { date: addDays(event.start.date, offset) },
+			end: { date: addDays(event.end.date, offset) },
+		};
+	}
+	if (!event.start?.dateTime || !event.end?.dateTime) return event;
+
+	const timeZone = event.start.timeZone || fallbackZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+	const start = new Date(event.start.dateTime);
+	const length = Date.parse(event.end.dateTime) - start.getTime();
+	const p = getZonedParts(start, timeZone);
+	const date = `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+	const day = new Date(`${addDays(date, (toDate ? daysBetween(date, toDate) : 0) + days)}T00:00:00Z`);
+	const wallDay = { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() };
+	const newStart = new Date(zonedTimeToUtc(wallDay, p.hour, p.minute, p.second, timeZone).getTime() + rest);
+	return {
+		...event,
+		start: { dateTime: formatInTimeZone(newStart, timeZone), timeZone },
+		end: {
+			dateTime: formatInTimeZone(new Date(newStart.getTime() + length), timeZone),
+			timeZone: event.end.timeZone || timeZone,
+		},
+	};
+}
+
+function daysBetween(from: string, to: string): number {
+	return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
+function isFirstOccurrence(master: CalendarEvent, instance: CalendarEvent): boolean {
+	const original = instance.originalStartTime;
+	if (!original || !master.start) return false;
+	if (original.date || master.start.date) return original.date === master.start.date;
+	return Date.parse(original.dateTime!) === Date.parse(master.start.dateTime!);
+}
+
+/**
+ * Moves `target` by the distance between `from` and `to` (an instance's old and new time), so changing
+ * one instance's time for the whole series keeps the series' own start date.
+ */
+function shiftEventTime(
+	target: calendar_v3.Schema$EventDateTime,
+	from: calendar_v3.Schema$EventDateTime,
+	to: calendar_v3.Schema$EventDateTime,
+): calendar_v3.Schema$EventDateTime {
+	if (target.dateTime && from.dateTime && to.dateTime) {
+		const delta = Date.parse(to.dateTime) - Date.parse(from.dateTime);
+		return { dateTime: new Date(Date.parse(target.dateTime) + delta).toISOString(), timeZone: target.timeZone };
+	}
+	if (target.date && from.date && to.date) {
+		const delta = Date.parse(to.date) - Date.parse(from.date);
+		return { date: new Date(Date.parse(target.date) + delta).toISOString().slice(0, 10) };
+	}
+	return { ...to, timeZone: to.dateTime ? target.timeZone : undefined };
+}
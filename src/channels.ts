@@ -0,0 +1,66 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getConfigDir } from "./config.js";
+import { writeFileAtomic } from "./fs-utils.js";
+
+/**
+ * A push notification channel registered with `watch --webhook`.
+ */
+export interface WatchChannel {
+	id: string;
+	/** ID of the watched resource, needed to stop the channel */
+	resourceId: string;
+	account: string;
+	calendarId: string;
+	address: string;
+	/** Secret sent with every notification, to tell them apart from forged requests */
+	token?: string;
+	/** ISO 8601 time the channel expires */
+	expiration?: string;
+}
+
+/**
+ * Registered channels, stored in `channels.json`, so channels of crashed or detached watchers can be stopped.
+ */
+export class ChannelStore {
+	private channels: WatchChannel[] = [];
+
+	constructor(private file: string = path.join(getConfigDir(), "channels.json")) {
+		this.load();
+	}
+
+	private load(): void {
+		if (!fs.existsSync(this.file)) return;
+		try {
+			this.channels = JSON.parse(fs.readFileSync(this.file, "utf8"));
+		} catch (e) {
+			throw new Error(`Invalid channels file ${this.file}: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	private save(): void {
+		fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+		writeFileAtomic(this.file, JSON.stringify(this.channels, null, 2));
+	}
+
+	list(): WatchChannel[] {
+		return this.channels;
+	}
+
+	get(id: string): WatchChannel | undefined {
+		return this.channels.find((c) => c.id === id);
+	}
+
+	add(channel: WatchChannel): void {
+		this.channels.push(channel);
+		this.save();
+	}
+
+	remove(id: string): boolean {
+		const count = this.channels.length;
+		this.channels = this.channels.filter((c) => c.id !== id);
+		if (this.channels.length === count) return false;
+		this.save();
+		return true;
+	}
+}
@@ -1,10 +1,121 @@
 #!/usr/bin/env node
 
+import * as crypto from "crypto";
 import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
 import { parseArgs } from "util";
-import { CalendarService } from "./calendar-service.js";
+import type { calendar_v3 } from "googleapis";
+import { ACL_ROLES, type AclRole, aclRuleId, describeAclRule, isSensitiveGrant, parseAclScope } from "./acl.js";
+import {
+	type AgendaEntry,
+	type CalendarEvent,
+	CalendarService,
+	type EventSearchResult,
+	type ListEventsOptions,
+	type ResponseStatus,
+	type SendUpdates,
+} from "./calendar-service.js";
+import { ChannelStore, type WatchChannel } from "./channels.js";
+import { CONFIG_KEYS, ConfigStore, getConfigDir, isConfigKey } from "./config.js";
+import { DaemonState, getPendingReminders, reminderKey, runHook, sendDesktopNotification } from "./daemon.js";
+import {
+	type ResolvedDate,
+	addDays,
+	assertTimeZone,
+	formatInTimeZone,
+	getSystemTimeZone,
+	parseDateExpression,
+	parseDateRange,
+	parseDuration,
+} from "./date-parser.js";
+import { GccliError, NotFoundError, getApiErrorInfo, isNetworkError } from "./errors.js";
+import {
+	AUTO_DECLINE,
+	type AutoDecline,
+	EVENT_TYPES,
+	type EventProperties,
+	type EventType,
+	SHOW_AS,
+	type ShowAs,
+	VISIBILITIES,
+	type Visibility,
+	type WorkingLocation,
+	colorName,
+	describeWorkingLocation,
+	eventTypeLabel,
+	fromAutoDeclineMode,
+	getConferenceLink,
+	parseColor,
+	parseReminder,
+} from "./event-options.js";
+import { FakeCalendarBackend } from "./fake-backend.js";
+import { type Participant, findFreeSlots, parseWorkingHours } from "./find-time.js";
+import { fromVEvent, parseICalendar, toICalendar } from "./ics.js";
+import { type OutputFormat, extractOutputFormat, toErrorOutput, writeJson, writeNdjson } from "./output.js";
+import { parsePlan } from "./plan.js";
+import { FREQUENCIES, type Frequency, RECURRENCE_SCOPES, type RecurrenceScope, buildRRule } from "./recurrence.js";
+import { BACKEND_NAMES, type BackendName } from "./secret-store.js";
+import { type EventTemplate, TemplateStore, applyTemplate, fillTemplate, getTemplateVariables } from "./templates.js";
+import {
+	formatDateTime,
+	formatDay,
+	formatDuration,
+	formatEventSpan,
+	formatTimeOfDay,
+	getEventTimes,
+} from "./time-format.js";
+import { TUI_VIEWS, type TuiView } from "./tui-view.js";
+import { CalendarTui } from "./tui.js";
+import { WebhookReceiver } from "./webhook-receiver.js";
 
-const service = new CalendarService();
+const NOTIFY_OPTIONS = ["all", "external", "none"];
+
+/** Options for event settings, shared by create and update */
+const EVENT_PROPERTY_OPTIONS = {
+	reminder: { type: "string", multiple: true },
+	"no-default-reminders": { type: "boolean" },
+	"default-reminders": { type: "boolean" },
+	color: { type: "string" },
+	visibility: { type: "string" },
+	"show-as": { type: "string" },
+	"guests-can-modify": { type: "string" },
+	"guests-can-invite": { type: "string" },
+	"guests-can-see-others": { type: "string" },
+	property: { type: "string", multiple: true },
+	meet: { type: "boolean" },
+} as const;
+/** Options of create, which can also be saved in templates */
+const CREATE_OPTIONS = {
+	summary: { type: "string" },
+	description: { type: "string" },
+	location: { type: "string" },
+	start: { type: "string" },
+	end: { type: "string" },
+	duration: { type: "string" },
+	attendees: { type: "string" },
+	"all-day": { type: "boolean" },
+	repeat: { type: "string" },
+	interval: { type: "string" },
+	count: { type: "string" },
+	until: { type: "string" },
+	byday: { type: "string" },
+	rrule: { type: "string" },
+	notify: { type: "string" },
+	...EVENT_PROPERTY_OPTIONS,
+} as const;
+type ParsedCreateOptions = ReturnType<typeof parseArgs<{ options: typeof CREATE_OPTIONS }>>["values"];
+const RSVP_RESPONSES = ["accepted", "declined", "tentative"];
+
+let service: CalendarService;
+let config: ConfigStore;
+let templates: TemplateStore;
+/** Directory of the config file, holding accounts, templates, the event cache and all other state */
+let configDir: string;
+/** Only loaded by the commands managing push channels */
+let channels: ChannelStore;
+let format: OutputFormat = "text";
+let timeZone = getSystemTimeZone();
 
 function usage(): never {
 	console.log(`gccli - Google Calendar CLI
@@ -12,31 +123,173 @@ function usage(): never {
 USAGE
 
   gccli accounts <action>                    Account management
+  gccli agenda [options]                     Agenda across all accounts
+  gccli config <action>                      Configuration
+  gccli templates <action>                   Event templates
+  gccli channels <action>                    Push notification channels
+  gccli daemon [options]                     Reminders for upcoming events
+  gccli tui [options]                        Interactive calendar in the terminal
   gccli <email> <command> [options]          Calendar operations
+  gccli <command> [options]                  Calendar operations on the default account
+
+  <calendarId> can be a calendar alias, and can be omitted when a default calendar is configured.
+
+GLOBAL OPTIONS
+
+  --json                                     Output JSON (see README for the schema per command)
+  --ndjson                                   Output one JSON object per line for list commands
+  --tz <zone>                                IANA time zone for date expressions and displayed times
+                                             (default: config, system)
+  --config <file>                            Config file (default: ~/.gccli/config.json)
+                                             All other data is stored in the same directory
+  --profile <name>                           Use the settings of a config profile (or GCCLI_PROFILE)
+
+DATES
+
+  All date options accept ISO 8601 or expressions resolved in --tz:
+    today, tomorrow, yesterday, monday, next monday, last friday, now
+    tomorrow 14:00, friday at 9am, 2024-01-15 10:30pm, 14:00 (today)
+    +2h, -30m, +3d (relative to now; for --end/--to relative to --start/--from)
+  --start also accepts a range on one day, e.g. "friday 9am-10:30am".
 
 ACCOUNT COMMANDS
 
   gccli accounts credentials <file.json>     Set OAuth credentials (once)
   gccli accounts list                        List configured accounts
   gccli accounts add <email> [--manual]      Add account (--manual for browserless OAuth)
+  gccli accounts add-service <email> --key <sa.json> [--subject <user>]
+                                             Add account using a service account key; with --subject,
+                                             impersonate that user (domain-wide delegation)
   gccli accounts remove <email>              Remove account
+  gccli accounts migrate [--to <backend>]    Move accounts to another store: encrypted (default), plaintext
+
+CONFIG COMMANDS
+
+  gccli config list                          Show all settings, profiles and aliases
+  gccli config get <key>                     Show a setting (from --profile if given)
+  gccli config set <key> <value>             Set a setting (in --profile if given)
+  gccli config unset <key>                   Remove a setting
+  gccli config alias <email> <alias> <calendarId>
+                                             Add a calendar alias for an account
+  gccli config unalias <email> <alias>       Remove a calendar alias
+      Keys: defaultAccount, defaultCalendar, timezone (IANA), output (text, json, ndjson),
+            retries (retries of failed API requests, default: 3)
+
+TEMPLATE COMMANDS
+
+  gccli templates list                       List templates and their variables
+  gccli templates show <name>                Show the options saved in a template
+  gccli templates add <name> [options]       Save create options as a template (replaces an existing one)
+  gccli templates remove <name>              Remove a template
+      Options: any create options. String values may contain {{name}} placeholders,
+      filled in with create --template <name> --var name=value.
+
+CHANNEL COMMANDS
+
+  gccli channels list                        List channels registered with watch --webhook
+  gccli channels stop <channelId>            Stop a channel (--all: all channels)
+      Channels registered elsewhere can be stopped with --account <email> --resource-id <id>.
+
+DAEMON
+
+  gccli daemon [options]
+      Run in the foreground and fire reminders before upcoming timed events of all accounts. Each reminder
+      is printed (NDJSON with --json/--ndjson) and fires the actions. Fired reminders are remembered in
+      ~/.gccli/daemon-state.json, so a restart does not repeat them. Declined events are skipped.
+      Options:
+        --before <d>         How long before the start (default: 10m)
+        --interval <d>       How often to fetch upcoming events (default: 1m)
+        --accounts <emails>  Only these accounts (comma-separated)
+        --calendars <ids>    Only these calendars (comma-separated, default: selected calendars)
+        --desktop            Desktop notification via notify-send (default if no action is given)
+        --bell               Ring the terminal bell
+        --hook <command>     Run a shell command with the event as JSON on stdin
+        --once               Fire the reminders due now and exit (e.g. from cron)
+
+AGENDA
+
+  gccli agenda [options]
+      Events of all accounts and their selected calendars, merged and grouped by day.
+      Events seen in several calendars are shown once.
+      Options:
+        --accounts <emails>  Only these accounts (comma-separated)
+        --calendars <ids>    Only these calendars (comma-separated, default: selected calendars)
+        --from <datetime>    Start time (default: today)
+        --to <datetime>      End time (default: 1 week after --from)
+        --cached             Read from the local cache instead of the API (see sync)
+
+TUI
+
+  gccli tui [options]
+      Full-screen calendar of all accounts and their selected calendars, with day, week and month views,
+      event details and quick actions (new, edit, delete, RSVP, move). Press ? for the keys.
+      New events go to the default account and calendar (first account and primary if not configured).
+      Options:
+        --accounts <emails>  Only these accounts (comma-separated)
+        --calendars <ids>    Only these calendars (comma-separated, default: selected calendars)
+        --view <view>        day, week (default), month
+        --date <date>        Day to start at (default: today)
 
 CALENDAR COMMANDS
 
-  gccli <email> calendars
+  gccli <email> calendars [list]
       List all calendars. Returns: ID, name, access role.
 
-  gccli <email> acl <calendarId>
+  gccli <email> calendars create <name> [--description <d>] [--location <l>] [--timezone <tz>]
+  gccli <email> calendars update <calendarId> [options]
+  gccli <email> calendars delete <calendarId> [--yes]
+  gccli <email> calendars clear <calendarId> [--yes]
+  gccli <email> calendars subscribe <calendarId> [options]
+  gccli <email> calendars unsubscribe <calendarId>
+      Create, change or delete secondary calendars, delete all events of the primary calendar (clear),
+      or add/remove a calendar shared with you to/from your calendar list.
+      delete and clear ask for confirmation unless --yes is given.
+      Options:
+        --name <n>           Calendar name (update)
+        --description <d>    Description
+        --location <l>       Location
+        --timezone <tz>      IANA time zone
+        --color <c>          Calendar list color: color ID or #rrggbb (update, subscribe)
+        --hidden <yes|no>    Hide from the calendar list (update, subscribe)
+        --display-name <n>   Your own name for the calendar (update, subscribe)
+        --reminder <m:offset>  Default reminder, e.g. popup:10m (repeatable; update, subscribe)
+
+  gccli <email> acl [list] <calendarId>
       List access control rules (who has access to the calendar).
 
+  gccli <email> acl add <calendarId> <scope> --role <role> [--no-notify] [--yes]
+  gccli <email> acl set <calendarId> <scope> --role <role> [--no-notify] [--yes]
+  gccli <email> acl remove <calendarId> <scope>
+      Share a calendar, change or remove access. add fails if the scope already has a rule, set replaces it.
+      Scopes: user:<email>, group:<email>, domain:<domain>, default (public)
+      Roles: none, freeBusyReader, reader, writer, owner
+      Granting owner or public access asks for confirmation unless --yes is given.
+
   gccli <email> events <calendarId> [options]
       List events from a calendar.
       Options:
-        --from <datetime>    Start time (ISO 8601, default: now)
-        --to <datetime>      End time (ISO 8601, default: 1 week from now)
-        --max <n>            Max results (default: 10)
+        --from <datetime>    Start time (default: now)
+        --to <datetime>      End time (default: 1 week after --from)
+        --max <n>            Max results per page (default: 10, 250 with --all or --limit)
         --page <token>       Page token for pagination
+        --all                List all matching events, fetching all pages
+        --limit <n>          List at most n events, fetching as many pages as needed
         --query <q>          Free text search
+        --series             List recurring events as one master event instead of expanded instances
+        --cached             Read from the local cache instead of the API (see sync)
+        --show-deleted       Include deleted events
+        --updated-min <datetime>
+                             Only events changed since then
+        --property <k=v>     Only events with this private extended property (repeatable)
+        --shared-property <k=v>
+                             Only events with this shared extended property (repeatable)
+        --event-types <list> Only these types (comma-separated): default, birthday, focusTime, fromGmail,
+                             outOfOffice, workingLocation
+        --ical-uid <uid>     Only the event with this iCalendar UID (all time, unless --from/--to are given)
+
+  gccli <email> instances <calendarId> <eventId> [options]
+      List instances of a recurring event.
+      Options: --from, --to, --max, --page (as for events)
 
   gccli <email> event <calendarId> <eventId>
       Get event details.
@@ -45,50 +298,250 @@ CALENDAR COMMANDS
       Create a new event.
       Options:
         --summary <s>        Event title (required)
-        --start <datetime>   Start time (required, ISO 8601)
-        --end <datetime>     End time (required, ISO 8601)
+        --start <datetime>   Start time (required)
+        --end <datetime>     End time (required unless --duration or a --start range is given)
+        --duration <d>       Duration instead of --end (e.g. 45m, 1h30m, 2d)
         --description <d>    Event description
         --location <l>       Event location
         --attendees <emails> Attendees (comma-separated)
         --all-day            Create all-day event (use YYYY-MM-DD for start/end)
+        --repeat <freq>      Make it recurring: daily, weekly, monthly, yearly
+        --interval <n>       Repeat every n days/weeks/months/years (default: 1)
+        --count <n>          Number of occurrences
+        --until <date>       Last occurrence date (YYYY-MM-DD or ISO 8601)
+        --byday <days>       Weekdays (comma-separated: MO,TU,WE,TH,FR,SA,SU, e.g. 1MO for first Monday)
+        --rrule <rule>       Raw RFC 5545 rule instead of --repeat (e.g. "RRULE:FREQ=WEEKLY;BYDAY=MO")
+        --notify <who>       Send notifications to: all, external (outside your domain), none
+        --reminder <m:offset>  Reminder, e.g. popup:10m, email:1d (repeatable, max 5)
+        --no-default-reminders  No reminders (unless --reminder is given)
+        --default-reminders  Use the calendar's default reminders
+        --color <name>       lavender, sage, grape, flamingo, banana, tangerine, peacock,
+                             graphite, blueberry, basil, tomato (or 1-11)
+        --visibility <v>     default, public, private, confidential
+        --show-as <s>        busy or free
+        --guests-can-modify <yes|no>     Guests can edit the event (default: no)
+        --guests-can-invite <yes|no>     Guests can invite others (default: yes)
+        --guests-can-see-others <yes|no> Guests can see the guest list (default: yes)
+        --property <k=v>     Private extended property (repeatable, empty value removes it)
+        --meet               Add a Google Meet link
+        --template <name>    Start from the options of a template (explicit options take precedence)
+        --var <name=value>   Value of a template placeholder (repeatable)
 
   gccli <email> update <calendarId> <eventId> [options]
       Update an existing event.
-      Options: same as create (all optional)
+      Options: same as create (all optional, except recurrence), plus:
+        --scope <scope>      For recurring event instances: this (default), following, all
+
+  gccli <email> ooo --from <datetime> [--to <datetime>] [options]
+      Create an out-of-office event on the primary calendar, which declines conflicting invitations.
+      Days without a time are taken whole (--from monday --to friday is Monday to Friday).
+      Options:
+        --summary <s>        Event title (default: Out of office)
+        --decline <which>    Decline conflicting invitations: all (default), new, none
+        --decline-message <m>  Message sent with declined invitations
+
+  gccli <email> focus --start <datetime> --end <datetime> [options]
+      Create a focus time event on the primary calendar.
+      Options:
+        --duration <d>       Duration instead of --end (a --start range works too)
+        --summary <s>        Event title (default: Focus time)
+        --decline <which>    Decline conflicting invitations: all, new (default), none
+        --decline-message <m>  Message sent with declined invitations
+        --do-not-disturb     Set the Google Chat status to do not disturb
+
+  gccli <email> location home|office [<label>]|custom <label> [options]
+      Set your working location for a day (default: today) or part of it, on the primary calendar.
+      Options:
+        --date <date>        Day (default: today)
+        --days <n>           Number of days (default: 1)
+        --start <datetime>   Start of a part of the day instead of --date (with --end or --duration)
+        --summary <s>        Event title (default: Home, the label, or Office)
+        --building-id <id>   Office building ID of your organization (office)
+        --floor <f>          Office floor (office)
+        --desk <d>           Office desk (office)
 
-  gccli <email> delete <calendarId> <eventId>
-      Delete an event.
+  gccli <email> delete <calendarId> <eventId> [--scope <scope>] [--notify <who>]
+      Delete an event. For recurring event instances, --scope selects this (default), following or all.
+
+  gccli <email> move <calendarId> <eventId> <destinationCalendarId> [--notify <who>]
+      Move an event to another calendar of the account. The event keeps its ID.
+
+  gccli <email> copy <calendarId> <eventId> [destinationCalendarId] [options]
+      Create a copy of an event, in the same calendar by default. Description, reminders and other
+      settings are kept, attendees are invited again and Google Meet events get a new link.
+      Options:
+        --to-account <email>  Create the copy in another configured account (default calendar: primary)
+        --to-date <date>      Move the copy to this day, keeping its time of day
+        --shift <offset>      Move the copy by an offset, e.g. +7d, -1d, +2h
+        --strip-attendees     Do not invite the attendees
+        --notify <who>        Send invitations: all, external, none
+
+  gccli <email> attendees list <calendarId> <eventId>
+  gccli <email> attendees add <calendarId> <eventId> <emails> [--optional|--required] [--name <n>]
+  gccli <email> attendees remove <calendarId> <eventId> <emails>
+      List, add or remove attendees (comma-separated emails). Other attendees and responses are kept.
+      Adding an existing attendee updates --optional/--required and --name. All take --notify <who>.
+
+  gccli <email> rsvp <calendarId> <eventId> accepted|declined|tentative [--comment <c>] [--notify <who>]
+      Respond to an invitation.
+
+  gccli <email> invitations [calendarId] [--from <dt>] [--to <dt>]
+      List invitations you have not responded to (default: primary calendar, next 4 weeks).
 
   gccli <email> freebusy <calendarIds> --from <dt> --to <dt>
       Check free/busy status for calendars (comma-separated IDs).
 
+  gccli <email> export <calendarId> [--from <dt>] [--to <dt>]
+      Export events as iCalendar (.ics) to stdout. Recurring events are exported as series.
+
+  gccli <email> import <calendarId> <file.ics> [--dry-run]
+      Import events from an .ics file. Events are created or updated by UID, unchanged ones are skipped.
+      --dry-run only reports what would be created/updated.
+
+  gccli <email> sync [calendarIds...]
+      Update the local event cache of the given calendars (default: all selected calendars).
+      Only changes since the last sync are fetched. Reports added, changed and deleted events.
+      events and agenda fall back to the cache when offline, or use it with --cached.
+
+  gccli <email> watch <calendarId> [--interval <d>] [--once]
+      Print changes to the calendar's events as NDJSON ({ "type": "created|updated|cancelled", "calendarId",
+      "event" }), polling with sync tokens every --interval (default: 30s). Also updates the local cache.
+      --once prints the changes since the last sync or watch and exits.
+
+  gccli <email> watch <calendarId> --webhook <url> [--port <n>] [--ttl <d>] [--no-receiver]
+      Register a push notification channel for the calendar. Google sends notifications to <url> (HTTPS),
+      which has to forward to the local receiver on --port (default: 8080); each one prints the changes.
+      The channel is renewed before it expires and stopped on exit. --no-receiver only registers the channel.
+
+  gccli <email> apply <plan.yaml|plan.json|-> [--dry-run] [--notify <who>]
+      Apply a list of create, update, delete and move operations in batch requests (50 per request).
+      Failed operations are reported per item without aborting the others.
+      --dry-run shows what each operation would change, without changing anything.
+      See README for the plan format.
+
+  gccli <email> findtime <calendarIds> --duration <d> [options]
+      Find slots where all calendars (comma-separated IDs, e.g. attendee emails) are free.
+      Options:
+        --duration <d>       Meeting duration (required, e.g. 30m, 1h)
+        --from <datetime>    Search window start (default: now)
+        --to <datetime>      Search window end (default: 1 week after --from)
+        --hours <HH:MM-HH:MM>  Working hours for all participants in --tz (default: 09:00-17:00)
+        --participant <id=HH:MM-HH:MM[@zone]>  Working hours of one participant (repeatable)
+        --include-weekends   Also consider Saturday and Sunday
+        --buffer <d>         Free time required before and after the meeting (e.g. 10m)
+        --step <d>           Granularity of candidate start times (default: 15m)
+        --limit <n>          Number of candidates (default: 5)
+        --book               Create an event in the best (or --pick) slot, inviting the participants
+        --pick <n>           Candidate to book (default: 1)
+        --summary <s>        Event title (required with --book)
+        --description <d>    Event description
+        --calendar <id>      Calendar to book in (default: primary)
+        --notify <who>       Notify the invited participants: all, external, none
+
 EXAMPLES
 
   gccli accounts list
+  gccli agenda --to +1d
   gccli you@gmail.com calendars
+  gccli you@gmail.com calendars create "Team" --timezone Europe/Vienna
+  gccli you@gmail.com acl add team@group.calendar.google.com user:bob@x.com --role writer
   gccli you@gmail.com events primary
   gccli you@gmail.com events primary --from 2024-01-01T00:00:00Z --max 50
   gccli you@gmail.com event primary abc123
   gccli you@gmail.com create primary --summary "Meeting" --start 2024-01-15T10:00:00 --end 2024-01-15T11:00:00
+  gccli you@gmail.com create primary --summary "1:1" --start "tomorrow 14:00" --duration 30m
+  gccli you@gmail.com create primary --summary "Review" --start "friday 9am-10:30am"
   gccli you@gmail.com create primary --summary "Vacation" --start 2024-01-20 --end 2024-01-25 --all-day
+  gccli you@gmail.com create primary --summary "Call" --start "tomorrow 10am" --duration 30m --meet --reminder popup:5m --color tomato
+  gccli you@gmail.com create primary --summary "Standup" --start 2024-01-15T09:00:00 --end 2024-01-15T09:15:00 --repeat weekly --byday MO,WE --until 2024-06-30
+  gccli you@gmail.com update primary abc123_20240301T090000Z --start 2024-03-01T10:00:00 --end 2024-03-01T10:15:00 --scope following
   gccli you@gmail.com update primary abc123 --summary "Updated Meeting"
-  gccli you@gmail.com delete primary abc123
+  gccli you@gmail.com delete primary abc123 --notify all
+  gccli you@gmail.com attendees add primary abc123 bob@x.com --optional --notify all
+  gccli you@gmail.com rsvp primary abc123 declined --comment "On vacation"
   gccli you@gmail.com freebusy primary,work@group.calendar.google.com --from 2024-01-15T00:00:00Z --to 2024-01-16T00:00:00Z
+  gccli you@gmail.com export primary --from 2024-01-01 --to 2025-01-01 > calendar.ics
+  gccli you@gmail.com import primary invite.ics --dry-run
+  gccli you@gmail.com sync && gccli agenda --cached
+  gccli you@gmail.com apply plan.yaml --dry-run
+  gccli you@gmail.com findtime primary,bob@x.com --duration 45m --to +3d --participant bob@x.com=10:00-18:00@America/New_York
 
 DATA STORAGE
 
-  ~/.gccli/credentials.json   OAuth client credentials
-  ~/.gccli/accounts.json      Account tokens`);
+  ~/.gccli can be moved with GCCLI_HOME, or with --config to the directory of the config file.
+  ~/.gccli/config.json        Settings, profiles and calendar aliases
+  ~/.gccli/templates.json     Event templates
+  ~/.gccli/channels.json      Push notification channels (see watch --webhook)
+  ~/.gccli/daemon-state.json  Reminders fired by the daemon
+  ~/.gccli/credentials.json   OAuth client credentials (plaintext store)
+  ~/.gccli/accounts.json      Account tokens and service account keys (plaintext store)
+  ~/.gccli/secrets.enc        Credentials and tokens (encrypted store, see accounts migrate)
+  ~/.gccli/cache/             Event cache per account and calendar (see sync)
+
+  The encrypted store needs GCCLI_PASSPHRASE (passphrase) or GCCLI_KEY (32 byte key, base64 or hex).
+
+API ENDPOINT
+
+  GCCLI_API_ROOT=<url>        Send API requests to another root URL, e.g. a proxy (default: https://www.googleapis.com/)
+  GCCLI_FAKE=<state.json>     Use an offline fake of the Calendar API, stored in the file. Accounts need not be
+                              added; use --accounts with agenda and daemon.
+
+ERRORS
+
+  Rate limits (429, 403 rateLimitExceeded), server errors (5xx) and network failures are retried with
+  exponential backoff, honoring Retry-After. GCCLI_RETRIES or the retries setting sets the budget (default: 3).
+  Exit codes: 1 other errors, 3 authorization expired or revoked, 4 not found, 5 permission denied,
+  6 rate limit or quota exceeded, 7 conflict.`);
 	process.exit(1);
 }
 
-function error(msg: string): never {
-	console.error("Error:", msg);
-	process.exit(1);
+function error(msg: string | Error): never {
+	if (format === "text") {
+		console.error("Error:", msg instanceof Error ? msg.message : msg);
+	} else {
+		console.error(JSON.stringify(toErrorOutput(msg instanceof Error ? msg : new Error(msg))));
+	}
+	process.exit(msg instanceof GccliError ? msg.exitCode : 1);
+}
+
+/**
+ * Writes a list in the selected machine-readable format. `json` overrides what --json prints,
+ * --ndjson always streams the items. Returns false in text mode so the caller renders text.
+ */
+function emitList(items: unknown[], json: unknown = items): boolean {
+	if (format === "json") {
+		writeJson(json);
+		return true;
+	}
+	if (format === "ndjson") {
+		writeNdjson(items);
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Writes a single object in the selected machine-readable format. Returns false in text mode.
+ */
+function emitObject(value: unknown): boolean {
+	if (format === "json") {
+		writeJson(value);
+		return true;
+	}
+	if (format === "ndjson") {
+		writeNdjson([value]);
+		return true;
+	}
+	return false;
 }
 
 async function main() {
-	const args = process.argv.slice(2);
+	const extracted = extractOutputFormat(process.argv.slice(2));
+	if (extracted.format) format = extracted.format;
+	const args = extracted.args;
+	const tz = extractGlobalOption(args, "--tz");
+	const configFile = extractGlobalOption(args, "--config");
+	const profile = extractGlobalOption(args, "--profile");
 	if (args.length === 0 || args.includes("--help") || args.includes("-h")) {
 		usage();
 	}
@@ -97,14 +550,69 @@ async function main() {
 	const rest = args.slice(1);
 
 	try {
+		configDir = configFile ? path.dirname(path.resolve(configFile)) : getConfigDir();
+		config = new ConfigStore(configFile ?? path.join(configDir, "config.json"), profile);
+		templates = new TemplateStore(path.join(configDir, "templates.json"));
+		// `config` may create the profile, everything else needs it to exist
+		if (first !== "config") config.assertProfile();
+		if (!extracted.format) format = config.get("output") ?? "text";
+		const zone = tz ?? config.get("timezone");
+		if (zone) {
+			assertTimeZone(zone);
+			timeZone = zone;
+		}
+
+		// Created here so errors loading the account store are reported like any other error
+		service = new CalendarService({
+			configDir,
+			apiRoot: process.env.GCCLI_API_ROOT || undefined,
+			backend: process.env.GCCLI_FAKE ? new FakeCalendarBackend(process.env.GCCLI_FAKE) : undefined,
+			retry: {
+				retries: parseRetries(process.env.GCCLI_RETRIES) ?? config.get("retries"),
+				onRetry: ({ attempt, retries, delay, error: e }) => {
+					const { status, reason } = getApiErrorInfo(e);
+					const cause = [status, reason].filter(Boolean).join(" ") || (e instanceof Error ? e.message : String(e));
+					console.error(`Warning: ${cause}, retrying in ${(delay / 1000).toFixed(1)}s (${attempt}/${retries})`);
+				},
+			},
+		});
+
 		if (first === "accounts") {
 			await handleAccounts(rest);
 			return;
 		}
+		if (first === "agenda") {
+			await handleAgenda(rest);
+			return;
+		}
+		if (first === "config") {
+			handleConfig(rest);
+			return;
+		}
+		if (first === "templates") {
+			handleTemplates(rest);
+			return;
+		}
+		if (first === "channels") {
+			await handleChannels(rest);
+			return;
+		}
+		if (first === "daemon") {
+			await handleDaemon(rest);
+			return;
+		}
+		if (first === "tui") {
+			await handleTui(rest);
+			return;
+		}
 
-		const account = first;
-		const command = rest[0];
-		const commandArgs = rest.slice(1);
+		// The account may be omitted when a default account is configured: `gccli events` instead of `gccli <email> events`
+		const explicitAccount = first.includes("@");
+		const account = explicitAccount
+			? first
+			: (config.get("defaultAccount") ?? error("No account given and no defaultAccount configured"));
+		const command = explicitAccount ? rest[0] : first;
+		const commandArgs = explicitAccount ? rest.slice(1) : rest;
 
 		if (!command) {
 			error("Missing command. Use --help for usage.");
@@ -112,7 +620,7 @@ async function main() {
 
 		switch (command) {
 			case "calendars":
-				await handleCalendars(account);
+				await handleCalendars(account, commandArgs);
 				break;
 			case "acl":
 				await handleAcl(account, commandArgs);
@@ -123,38 +631,89 @@ async function main() {
 			case "event":
 				await handleEvent(account, commandArgs);
 				break;
+			case "instances":
+				await handleInstances(account, commandArgs);
+				break;
 			case "create":
 				await handleCreate(account, commandArgs);
 				break;
 			case "update":
 				await handleUpdate(account, commandArgs);
 				break;
+			case "ooo":
+				await handleOutOfOffice(account, commandArgs);
+				break;
+			case "focus":
+				await handleFocus(account, commandArgs);
+				break;
+			case "location":
+				await handleLocation(account, commandArgs);
+				break;
 			case "delete":
 				await handleDelete(account, commandArgs);
 				break;
+			case "move":
+				await handleMove(account, commandArgs);
+				break;
+			case "copy":
+				await handleCopy(account, commandArgs);
+				break;
 			case "freebusy":
 				await handleFreeBusy(account, commandArgs);
 				break;
+			case "export":
+				await handleExport(account, commandArgs);
+				break;
+			case "import":
+				await handleImport(account, commandArgs);
+				break;
+			case "findtime":
+				await handleFindTime(account, commandArgs);
+				break;
+			case "sync":
+				await handleSync(account, commandArgs);
+				break;
+			case "watch":
+				await handleWatch(account, commandArgs);
+				break;
+			case "apply":
+				await handleApply(account, commandArgs);
+				break;
+			case "attendees":
+				await handleAttendees(account, commandArgs);
+				break;
+			case "rsvp":
+				await handleRsvp(account, commandArgs);
+				break;
+			case "invitations":
+				await handleInvitations(account, commandArgs);
+				break;
 			default:
 				error(`Unknown command: ${command}`);
 		}
 	} catch (e) {
-		error(e instanceof Error ? e.message : String(e));
+		error(e instanceof Error ? e : String(e));
 	}
 }
 
 async function handleAccounts(args: string[]) {
 	const action = args[0];
-	if (!action) error("Missing action: list|add|remove|credentials");
+	if (!action) error("Missing action: list|add|add-service|remove|credentials|migrate");
 
 	switch (action) {
 		case "list": {
 			const accounts = service.listAccounts();
-			if (accounts.length === 0) {
+			const rows = accounts.map((a) =>
+				a.authType === "service"
+					? { email: a.email, authType: "service", subject: a.serviceAccount.subject }
+					: { email: a.email, authType: "oauth" },
+			);
+			if (emitList(rows)) break;
+			if (rows.length === 0) {
 				console.log("No accounts configured");
 			} else {
-				for (const a of accounts) {
-					console.log(a.email);
+				for (const a of rows) {
+					console.log(`${a.email}\t${a.authType}${a.subject ? ` (as ${a.subject})` : ""}`);
 				}
 			}
 			break;
@@ -169,6 +728,7 @@ async function handleAccounts(args: string[]) {
 			const clientSecret = installed?.client_secret || creds.clientSecret;
 			if (!clientId || !clientSecret) error("Invalid credentials file");
 			service.setCredentials(clientId, clientSecret);
+			if (emitObject({ saved: true })) break;
 			console.log("Credentials saved");
 			break;
 		}
@@ -180,189 +740,1864 @@ async function handleAccounts(args: string[]) {
 			const creds = service.getCredentials();
 			if (!creds) error("No credentials configured. Run: gccli accounts credentials <credentials.json>");
 			await service.addAccount(email, creds.clientId, creds.clientSecret, manual);
+			if (emitObject({ email, added: true })) break;
 			console.log(`Account '${email}' added`);
 			break;
 		}
+		case "add-service": {
+			const { values, positionals } = parseArgs({
+				args: args.slice(1),
+				options: { key: { type: "string" }, subject: { type: "string" } },
+				allowPositionals: true,
+			});
+			const email = positionals[0];
+			if (!email || !values.key) error("Usage: accounts add-service <email> --key <sa.json> [--subject <user>]");
+			let key: { type?: string; client_email?: string; private_key?: string; private_key_id?: string };
+			try {
+				key = JSON.parse(fs.readFileSync(values.key, "utf8"));
+			} catch (e) {
+				error(`Cannot read key file ${values.key}: ${e instanceof Error ? e.message : String(e)}`);
+			}
+			if (key.type !== "service_account" || !key.client_email || !key.private_key) {
+				error(`Not a service account key file: ${values.key}`);
+			}
+			await service.addServiceAccount(email, {
+				clientEmail: key.client_email,
+				privateKey: key.private_key,
+				privateKeyId: key.private_key_id,
+				subject: values.subject,
+			});
+			if (emitObject({ email, authType: "service", subject: values.subject, added: true })) break;
+			console.log(`Account '${email}' added (service account ${key.client_email})`);
+			break;
+		}
 		case "remove": {
 			const email = args[1];
 			if (!email) error("Usage: accounts remove <email>");
 			const deleted = service.deleteAccount(email);
+			if (emitObject({ email, removed: deleted })) break;
 			console.log(deleted ? `Removed '${email}'` : `Not found: ${email}`);
 			break;
 		}
+		case "migrate": {
+			const { values } = parseArgs({
+				args: args.slice(1),
+				options: { to: { type: "string" } },
+			});
+			const target = (values.to || "encrypted") as BackendName;
+			if (!BACKEND_NAMES.includes(target)) {
+				error(`Invalid --to: ${values.to} (expected ${BACKEND_NAMES.join(", ")})`);
+			}
+			const from = service.getStorageBackend();
+			service.migrateStorage(target);
+			if (emitObject({ from, to: target, migrated: true })) break;
+			console.log(`Migrated accounts from ${from} to ${target} store`);
+			break;
+		}
 		default:
 			error(`Unknown action: ${action}`);
 	}
 }
 
-async function handleCalendars(account: string) {
-	const calendars = await service.listCalendars(account);
-	if (calendars.length === 0) {
-		console.log("No calendars");
-	} else {
-		console.log("ID\tNAME\tROLE");
-		for (const c of calendars) {
-			console.log(`${c.id}\t${c.summary || ""}\t${c.accessRole || ""}`);
+function handleTemplates(args: string[]) {
+	const { values, positionals } = parseArgs({ args, options: CREATE_OPTIONS, allowPositionals: true });
+	const [action, name] = positionals;
+	switch (action) {
+		case "list": {
+			const list = templates.list();
+			if (emitList(list.map(({ name, template }) => ({ name, ...template })))) break;
+			if (list.length === 0) {
+				console.log("No templates");
+				break;
+			}
+			console.log("NAME\tSUMMARY\tVARIABLES");
+			for (const { name, template } of list) {
+				console.log(`${name}\t${template.summary ?? ""}\t${getTemplateVariables(template).join(",")}`);
+			}
+			break;
+		}
+		case "show": {
+			if (!name) error("Usage: templates show <name>");
+			const template = templates.get(name) ?? error(`Unknown template: ${name}`);
+			if (emitObject({ name, ...template })) break;
+			for (const [key, value] of Object.entries(template)) {
+				for (const item of Array.isArray(value) ? value : [value]) {
+					console.log(item === true ? `--${key}` : `--${key} ${JSON.stringify(item)}`);
+				}
+			}
+			const variables = getTemplateVariables(template);
+			if (variables.length > 0) console.log(`Variables: ${variables.join(", ")}`);
+			break;
+		}
+		case "add": {
+			if (!name) error("Usage: templates add <name> [create options]");
+			if (Object.keys(values).length === 0) error("A template needs at least one create option, e.g. --summary");
+			templates.set(name, values as EventTemplate);
+			if (emitObject({ name, ...values })) break;
+			console.log(`Saved template: ${name}`);
+			break;
+		}
+		case "remove": {
+			if (!name) error("Usage: templates remove <name>");
+			const removed = templates.remove(name);
+			if (emitObject({ name, removed })) break;
+			console.log(removed ? `Removed template: ${name}` : `Not found: ${name}`);
+			break;
 		}
+		default:
+			error(action ? `Unknown action: ${action}` : "Missing action: list|show|add|remove");
 	}
 }
 
-async function handleAcl(account: string, args: string[]) {
-	const calendarId = args[0];
-	if (!calendarId) error("Usage: <email> acl <calendarId>");
-
-	const rules = await service.getCalendarAcl(account, calendarId);
-	if (rules.length === 0) {
-		console.log("No ACL rules");
-	} else {
-		console.log("SCOPE_TYPE\tSCOPE_VALUE\tROLE");
-		for (const rule of rules) {
-			const scopeType = rule.scope?.type || "";
-			const scopeValue = rule.scope?.value || "";
-			const role = rule.role || "";
-			console.log(`${scopeType}\t${scopeValue}\t${role}`);
+function handleConfig(args: string[]) {
+	const action = args[0];
+	const profile = config.getProfile();
+	switch (action) {
+		case "list": {
+			const all = config.getAll();
+			if (emitObject(all)) break;
+			console.log(`# ${config.getPath()}`);
+			for (const key of CONFIG_KEYS) {
+				if (all[key] !== undefined) console.log(`${key}=${all[key]}`);
+			}
+			for (const [name, settings] of Object.entries(all.profiles || {})) {
+				for (const [key, value] of Object.entries(settings)) {
+					console.log(`[${name}] ${key}=${value}`);
+				}
+			}
+			for (const [account, aliases] of Object.entries(all.aliases || {})) {
+				for (const [alias, calendarId] of Object.entries(aliases)) {
+					console.log(`alias ${account} ${alias}=${calendarId}`);
+				}
+			}
+			break;
+		}
+		case "get": {
+			const key = args[1];
+			if (!key || !isConfigKey(key)) error(`Usage: config get <${CONFIG_KEYS.join("|")}>`);
+			const value = config.get(key);
+			if (emitObject({ key, value: value ?? null })) break;
+			if (value !== undefined) console.log(value);
+			break;
+		}
+		case "set": {
+			const key = args[1];
+			const value = args[2];
+			if (!key || !isConfigKey(key) || value === undefined) {
+				error(`Usage: config set <${CONFIG_KEYS.join("|")}> <value>`);
+			}
+			config.set(key, value, profile);
+			if (emitObject({ key, value, profile: profile ?? null })) break;
+			console.log(`${profile ? `[${profile}] ` : ""}${key}=${value}`);
+			break;
+		}
+		case "unset": {
+			const key = args[1];
+			if (!key || !isConfigKey(key)) error(`Usage: config unset <${CONFIG_KEYS.join("|")}>`);
+			const removed = config.unset(key, profile);
+			if (emitObject({ key, removed })) break;
+			console.log(removed ? `Unset ${key}` : `Not set: ${key}`);
+			break;
+		}
+		case "alias": {
+			const [account, alias, calendarId] = args.slice(1);
+			if (!account || !alias || !calendarId) error("Usage: config alias <email> <alias> <calendarId>");
+			config.setAlias(account, alias, calendarId);
+			if (emitObject({ account, alias, calendarId })) break;
+			console.log(`${account}: ${alias} -> ${calendarId}`);
+			break;
+		}
+		case "unalias": {
+			const [account, alias] = args.slice(1);
+			if (!account || !alias) error("Usage: config unalias <email> <alias>");
+			const removed = config.removeAlias(account, alias);
+			if (emitObject({ account, alias, removed })) break;
+			console.log(removed ? `Removed alias ${alias}` : `Not found: ${alias}`);
+			break;
 		}
+		default:
+			error(action ? `Unknown action: ${action}` : "Missing action: list|get|set|unset|alias|unalias");
 	}
 }
 
-async function handleEvents(account: string, args: string[]) {
-	const { values, positionals } = parseArgs({
+async function handleAgenda(args: string[]) {
+	const { values } = parseArgs({
 		args,
 		options: {
+			accounts: { type: "string" },
+			calendars: { type: "string" },
 			from: { type: "string" },
 			to: { type: "string" },
-			max: { type: "string" },
-			page: { type: "string" },
-			query: { type: "string" },
+			cached: { type: "boolean" },
 		},
-		allowPositionals: true,
 	});
 
-	const calendarId = positionals[0];
-	if (!calendarId) error("Usage: <email> events <calendarId> [options]");
+	const accounts = values.accounts ? values.accounts.split(",") : service.listAccounts().map((a) => a.email);
+	if (accounts.length === 0) error("No accounts configured");
 
-	const now = new Date();
-	const oneWeekLater = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+	const from = resolveDate(values.from || "today").instant;
+	const to = values.to ? resolveDate(values.to, from).instant : new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
 
-	const result = await service.listEvents(account, calendarId, {
-		timeMin: values.from || now.toISOString(),
-		timeMax: values.to || oneWeekLater.toISOString(),
-		maxResults: values.max ? Number(values.max) : 10,
-		pageToken: values.page,
-		query: values.query,
+	const result = await service.listAgenda(accounts, {
+		timeMin: from.toISOString(),
+		timeMax: to.toISOString(),
+		calendarIds: values.calendars?.split(","),
+		cached: values.cached,
 	});
 
-	if (result.events.length === 0) {
+	for (const e of result.errors) {
+		console.error(`Warning: ${e.account}${e.calendarId ? ` / ${e.calendarId}` : ""}: ${e.message}`);
+	}
+	if (emitList(result.entries)) return;
+	if (result.entries.length === 0) {
 		console.log("No events");
-	} else {
-		console.log("ID\tSTART\tEND\tSUMMARY");
-		for (const e of result.events) {
-			const start = e.start?.dateTime || e.start?.date || "";
-			const end = e.end?.dateTime || e.end?.date || "";
-			console.log(`${e.id}\t${start}\t${end}\t${e.summary || "(no title)"}`);
+		return;
+	}
+
+	const fromDay = formatInTimeZone(from, timeZone).slice(0, 10);
+	let currentDay = "";
+	for (const entry of result.entries) {
+		const e = entry.event;
+		const startDay = e.start?.date ?? formatInTimeZone(new Date(e.start?.dateTime || 0), timeZone).slice(0, 10);
+		// Events that started before the agenda window are listed on its first day
+		const day = startDay < fromDay ? fromDay : startDay;
+		if (day !== currentDay) {
+			if (currentDay) console.log("");
+			console.log(formatDay(day));
+			currentDay = day;
 		}
-		if (result.nextPageToken) {
-			console.log(`\n# Next page: --page ${result.nextPageToken}`);
+		const time = formatTimeOfDay(e, timeZone);
+		console.log(`  ${time.padEnd(11)}\t${e.summary || "(no title)"}\t[${entry.account} / ${entry.calendarName}]`);
+	}
+}
+
+async function handleTui(args: string[]) {
+	const { values } = parseArgs({
+		args,
+		options: {
+			accounts: { type: "string" },
+			calendars: { type: "string" },
+			view: { type: "string" },
+			date: { type: "string" },
+		},
+	});
+	if (!process.stdin.isTTY || !process.stdout.isTTY) error("tui requires a terminal");
+	if (values.view && !TUI_VIEWS.includes(values.view as TuiView)) {
+		error(`Invalid --view: ${values.view} (expected ${TUI_VIEWS.join(", ")})`);
+	}
+
+	const accounts = values.accounts ? values.accounts.split(",") : service.listAccounts().map((a) => a.email);
+	if (accounts.length === 0) error("No accounts configured");
+	const defaultAccount = config.get("defaultAccount");
+	const account = defaultAccount && accounts.includes(defaultAccount) ? defaultAccount : accounts[0];
+	const defaultCalendar = config.get("defaultCalendar");
+
+	await new CalendarTui(service, {
+		accounts,
+		calendarIds: values.calendars?.split(","),
+		timeZone,
+		view: values.view as TuiView | undefined,
+		date: values.date ? resolveDate(values.date).date : undefined,
+		createIn: { account, calendarId: defaultCalendar ? config.resolveCalendar(account, defaultCalendar) : "primary" },
+		resolveCalendar: (email, calendar) => config.resolveCalendar(email, calendar),
+	}).run();
+}
+
+async function handleDaemon(args: string[]) {
+	const { values } = parseArgs({
+		args,
+		options: {
+			accounts: { type: "string" },
+			calendars: { type: "string" },
+			before: { type: "string" },
+			interval: { type: "string" },
+			desktop: { type: "boolean" },
+			bell: { type: "boolean" },
+			hook: { type: "string" },
+			once: { type: "boolean" },
+		},
+	});
+
+	const accounts = values.accounts ? values.accounts.split(",") : service.listAccounts().map((a) => a.email);
+	if (accounts.length === 0) error("No accounts configured");
+	const before = parseDuration(values.before ?? "10m");
+	const interval = parseDuration(values.interval ?? "1m");
+	const actions = {
+		// Desktop notifications are the default action
+		desktop: values.desktop || (!values.bell && !values.hook),
+		bell: values.bell ?? false,
+		hook: values.hook,
+	};
+	const state = new DaemonState(path.join(configDir, "daemon-state.json"));
+	console.error(`Reminding ${formatDuration(before)} before events of ${accounts.join(", ")}`);
+
+	let timers: NodeJS.Timeout[] = [];
+	while (true) {
+		// Timers are set again from the fresh agenda, in case events were moved or cancelled
+		for (const timer of timers) clearTimeout(timer);
+		timers = [];
+		const now = Date.now();
+		const result = await service.listAgenda(accounts, {
+			timeMin: new Date(now).toISOString(),
+			timeMax: new Date(now + before + interval).toISOString(),
+			calendarIds: values.calendars?.split(","),
+		});
+		for (const e of result.errors) {
+			console.error(`Warning: ${e.account}${e.calendarId ? ` / ${e.calendarId}` : ""}: ${e.message}`);
+		}
+
+		// Reminders due before the next check get a timer, so they fire on time rather than at the next check
+		for (const { entry, at } of getPendingReminders(result.entries, now, before, state)) {
+			if (at <= now) {
+				await fireReminder(entry, state, actions);
+			} else if (!values.once && at <= now + interval) {
+				const fire = () =>
+					fireReminder(entry, state, actions).catch((e) => error(e instanceof Error ? e : String(e)));
+				timers.push(setTimeout(fire, at - now));
+			}
 		}
+		if (values.once) return;
+		await new Promise((resolve) => setTimeout(resolve, interval));
 	}
 }
 
-async function handleEvent(account: string, args: string[]) {
-	const calendarId = args[0];
-	const eventId = args[1];
-	if (!calendarId || !eventId) error("Usage: <email> event <calendarId> <eventId>");
+async function fireReminder(
+	entry: AgendaEntry,
+	state: DaemonState,
+	actions: { desktop: boolean; bell: boolean; hook?: string },
+): Promise<void> {
+	const key = reminderKey(entry);
+	if (state.has(key)) return;
+	// Recorded first: a failing action must not make the reminder fire again
+	state.add(key, entry.event.start!.dateTime!);
 
-	const event = await service.getEvent(account, calendarId, eventId);
+	const event = entry.event;
+	const title = event.summary || "(no title)";
+	const minutes = Math.max(0, Math.round((Date.parse(event.start!.dateTime!) - Date.now()) / 60000));
+	const when = formatEventSpan(event, timeZone);
+	if (format === "text") {
+		console.log(
+			`${formatDateTime(new Date(), timeZone)}\tin ${minutes}m\t${title}\t${when}\t[${entry.account} / ${entry.calendarName}]`,
+		);
+	} else {
+		writeNdjson([entry]);
+	}
 
-	console.log(`ID: ${event.id}`);
-	console.log(`Summary: ${event.summary || "(no title)"}`);
-	console.log(`Start: ${event.start?.dateTime || event.start?.date || ""}`);
-	console.log(`End: ${event.end?.dateTime || event.end?.date || ""}`);
-	if (event.location) console.log(`Location: ${event.location}`);
-	if (event.description) console.log(`Description: ${event.description}`);
-	if (event.attendees && event.attendees.length > 0) {
-		console.log(`Attendees: ${event.attendees.map((a) => a.email).join(", ")}`);
+	if (actions.bell) process.stderr.write("\x07");
+	const tasks: Promise<void>[] = [];
+	if (actions.desktop) {
+		const body = [`In ${minutes} min: ${when}`, event.location].filter(Boolean).join("\n");
+		tasks.push(sendDesktopNotification(title, body));
+	}
+	if (actions.hook) tasks.push(runHook(actions.hook, entry));
+	for (const result of await Promise.allSettled(tasks)) {
+		if (result.status === "rejected")
+			console.error(`Warning: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
 	}
-	console.log(`Status: ${event.status}`);
-	console.log(`Link: ${event.htmlLink}`);
 }
 
-async function handleCreate(account: string, args: string[]) {
+async function handleCalendars(account: string, args: string[]) {
 	const { values, positionals } = parseArgs({
 		args,
 		options: {
-			summary: { type: "string" },
+			name: { type: "string" },
 			description: { type: "string" },
 			location: { type: "string" },
-			start: { type: "string" },
-			end: { type: "string" },
-			attendees: { type: "string" },
-			"all-day": { type: "boolean" },
+			timezone: { type: "string" },
+			color: { type: "string" },
+			hidden: { type: "string" },
+			"display-name": { type: "string" },
+			reminder: { type: "string", multiple: true },
+			yes: { type: "boolean", short: "y" },
 		},
 		allowPositionals: true,
 	});
-
-	const calendarId = positionals[0];
-	if (!calendarId) error("Usage: <email> create <calendarId> --summary <s> --start <dt> --end <dt>");
-	if (!values.summary || !values.start || !values.end) {
-		error("Required: --summary, --start, --end");
-	}
-
-	const event = await service.createEvent(account, calendarId, {
-		summary: values.summary,
+	const action = positionals[0] ?? "list";
+	const calendarId = positionals[1] && config.resolveCalendar(account, positionals[1]);
+	if (values.timezone) assertTimeZone(values.timezone);
+	const settings = {
+		summary: values.name,
 		description: values.description,
 		location: values.location,
-		start: values.start,
-		end: values.end,
-		attendees: values.attendees?.split(","),
-		allDay: values["all-day"],
-	});
+		timeZone: values.timezone,
+	};
+	const listSettings = {
+		...parseCalendarColor(values.color),
+		hidden: parseYesNo("--hidden", values.hidden),
+		summaryOverride: values["display-name"],
+		defaultReminders: values.reminder?.map(parseReminder),
+	};
 
-	console.log(`Created: ${event.id}`);
-	console.log(`Link: ${event.htmlLink}`);
+	switch (action) {
+		case "list": {
+			const calendars = await service.listCalendars(account);
+			if (emitList(calendars)) return;
+			if (calendars.length === 0) {
+				console.log("No calendars");
+			} else {
+				console.log("ID\tNAME\tROLE");
+				for (const c of calendars) {
+					console.log(`${c.id}\t${c.summary || ""}\t${c.accessRole || ""}`);
+				}
+			}
+			return;
+		}
+		case "create": {
+			const name = positionals[1];
+			if (!name) error("Usage: <email> calendars create <name> [--description <d>] [--timezone <tz>]");
+			const created = await service.createCalendar(account, { ...settings, summary: name });
+			if (emitObject(created)) return;
+			console.log(`Created: ${created.id}`);
+			return;
+		}
+		case "update": {
+			if (!calendarId) error("Usage: <email> calendars update <calendarId> [options]");
+			const updated = await service.updateCalendar(account, calendarId, settings, listSettings);
+			if (emitObject(updated)) return;
+			console.log(`Updated: ${updated.id}`);
+			return;
+		}
+		case "delete":
+		case "clear": {
+			if (!calendarId) error(`Usage: <email> calendars ${action} <calendarId> [--yes]`);
+			const what = action === "delete" ? "Delete calendar" : "Delete all events of";
+			if (!values.yes && !(await confirm(`${what} ${calendarId}?`))) error("Aborted");
+			if (action === "delete") await service.deleteCalendar(account, calendarId);
+			else await service.clearCalendar(account, calendarId);
+			if (emitObject({ calendarId, [action === "delete" ? "deleted" : "cleared"]: true })) return;
+			console.log(action === "delete" ? "Deleted" : "Cleared");
+			return;
+		}
+		case "subscribe": {
+			if (!calendarId) error("Usage: <email> calendars subscribe <calendarId> [options]");
+			const entry = await service.subscribeCalendar(account, calendarId, listSettings);
+			if (emitObject(entry)) return;
+			console.log(`Subscribed: ${entry.id}`);
+			return;
+		}
+		case "unsubscribe": {
+			if (!calendarId) error("Usage: <email> calendars unsubscribe <calendarId>");
+			await service.unsubscribeCalendar(account, calendarId);
+			if (emitObject({ calendarId, unsubscribed: true })) return;
+			console.log("Unsubscribed");
+			return;
+		}
+		default:
+			error(`Unknown action: ${action} (expected list, create, update, delete, clear, subscribe, unsubscribe)`);
+	}
 }
 
-async function handleUpdate(account: string, args: string[]) {
+/**
+ * `--color` for calendar list entries: a calendar color ID or #rrggbb.
+ */
+function parseCalendarColor(color: string | undefined): { colorId?: string; backgroundColor?: string } {
+	if (color === undefined) return {};
+	if (/^#[0-9a-f]{6}$/i.test(color)) return { backgroundColor: color };
+	if (/^\d+$/.test(color)) return { colorId: color };
+	error(`Invalid --color: ${color} (expected a calendar color ID or #rrggbb)`);
+}
+
+async function handleAcl(account: string, args: string[]) {
 	const { values, positionals } = parseArgs({
 		args,
 		options: {
-			summary: { type: "string" },
-			description: { type: "string" },
-			location: { type: "string" },
-			start: { type: "string" },
-			end: { type: "string" },
-			attendees: { type: "string" },
-			"all-day": { type: "boolean" },
+			role: { type: "string" },
+			"no-notify": { type: "boolean" },
+			yes: { type: "boolean", short: "y" },
 		},
 		allowPositionals: true,
 	});
+	const actions = ["list", "add", "set", "remove"];
+	// `acl <calendarId>` lists the rules
+	const action = actions.includes(positionals[0]) ? positionals[0] : "list";
+	const rest = actions.includes(positionals[0]) ? positionals.slice(1) : positionals;
 
-	const calendarId = positionals[0];
-	const eventId = positionals[1];
-	if (!calendarId || !eventId) error("Usage: <email> update <calendarId> <eventId> [options]");
+	if (action === "list") {
+		const [calendarId] = calendarArgs(account, rest, 0);
+		if (!calendarId) error("Usage: <email> acl [list] <calendarId>");
+		const rules = await service.getCalendarAcl(account, calendarId);
+		if (emitList(rules)) return;
+		if (rules.length === 0) {
+			console.log("No ACL rules");
+		} else {
+			console.log("SCOPE_TYPE\tSCOPE_VALUE\tROLE");
+			for (const rule of rules) {
+				const scopeType = rule.scope?.type || "";
+				const scopeValue = rule.scope?.value || "";
+				const role = rule.role || "";
+				console.log(`${scopeType}\t${scopeValue}\t${role}`);
+			}
+		}
+		return;
+	}
 
-	const event = await service.updateEvent(account, calendarId, eventId, {
-		summary: values.summary,
-		description: values.description,
-		location: values.location,
-		start: values.start,
-		end: values.end,
-		attendees: values.attendees?.split(","),
-		allDay: values["all-day"],
-	});
+	const [calendarId, scopeSpec] = calendarArgs(account, rest, 1);
+	if (!calendarId || !scopeSpec) {
+		error(`Usage: <email> acl ${action} <calendarId> <scope>${action === "remove" ? "" : " --role <role>"}`);
+	}
+	const scope = parseAclScope(scopeSpec);
 
-	console.log(`Updated: ${event.id}`);
+	if (action === "remove") {
+		await service.deleteAclRule(account, calendarId, aclRuleId(scope));
+		if (emitObject({ calendarId, scope, removed: true })) return;
+		console.log(`Removed: ${aclRuleId(scope)}`);
+		return;
+	}
+
+	const role = values.role as AclRole | undefined;
+	if (!role || !ACL_ROLES.includes(role)) error(`Required: --role ${ACL_ROLES.join("|")}`);
+	if (isSensitiveGrant(scope, role) && !values.yes) {
+		const who = scope.type === "default" ? "everyone (public)" : aclRuleId(scope);
+		if (!(await confirm(`Grant ${role} access to ${calendarId} to ${who}?`))) error("Aborted");
+	}
+	const rule = await service.setAclRule(account, calendarId, scope, role, {
+		replace: action === "set",
+		sendNotifications: values["no-notify"] ? false : undefined,
+	});
+	if (emitObject(rule)) return;
+	console.log(`${action === "set" ? "Set" : "Added"}: ${describeAclRule(rule)}`);
 }
 
-async function handleDelete(account: string, args: string[]) {
-	const calendarId = args[0];
-	const eventId = args[1];
-	if (!calendarId || !eventId) error("Usage: <email> delete <calendarId> <eventId>");
+/**
+ * Asks a yes/no question on the terminal. Fails when stdin is not a terminal, so scripts have to pass --yes.
+ */
+async function confirm(question: string): Promise<boolean> {
+	if (!process.stdin.isTTY) error(`${question} Pass --yes to confirm non-interactively`);
+	const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+	return new Promise((resolve) => {
+		rl.question(`${question} [y/N] `, (answer) => {
+			rl.close();
+			resolve(/^y(es)?$/i.test(answer.trim()));
+		});
+	});
+}
 
-	await service.deleteEvent(account, calendarId, eventId);
+async function handleEvents(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			from: { type: "string" },
+			to: { type: "string" },
+			max: { type: "string" },
+			page: { type: "string" },
+			query: { type: "string" },
+			series: { type: "boolean" },
+			cached: { type: "boolean" },
+			all: { type: "boolean" },
+			limit: { type: "string" },
+			"show-deleted": { type: "boolean" },
+			"updated-min": { type: "string" },
+			property: { type: "string", multiple: true },
+			"shared-property": { type: "string", multiple: true },
+			"event-types": { type: "string" },
+			"ical-uid": { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId] = calendarArgs(account, positionals, 0);
+	if (!calendarId) error("Usage: <email> events <calendarId> [options]");
+	if (values.cached && values.series) error("--series cannot be used with --cached");
+	if (values.cached && values["show-deleted"]) error("--show-deleted cannot be used with --cached");
+	if (values.all && values.limit) error("Use either --all or --limit");
+	const limit = values.limit !== undefined ? Number(values.limit) : undefined;
+	if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) error(`Invalid --limit: ${values.limit}`);
+	const eventTypes = values["event-types"]?.split(",").map((t) => t.trim()) as EventType[] | undefined;
+	for (const type of eventTypes ?? []) {
+		if (!EVENT_TYPES.includes(type)) error(`Invalid event type: ${type} (expected ${EVENT_TYPES.join(", ")})`);
+	}
+
+	// Looking up a UID searches all time, unless a range is given
+	const unbounded = values["ical-uid"] !== undefined && !values.from && !values.to;
+	const from = values.from ? resolveDate(values.from).instant : new Date();
+	const to = values.to ? resolveDate(values.to, from).instant : new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+	const options: ListEventsOptions = {
+		timeMin: unbounded ? undefined : from.toISOString(),
+		timeMax: unbounded ? undefined : to.toISOString(),
+		maxResults: values.max ? Number(values.max) : values.all || limit ? Math.min(limit ?? 250, 250) : 10,
+		query: values.query,
+		showDeleted: values["show-deleted"],
+		updatedMin: values["updated-min"] ? resolveDate(values["updated-min"]).instant.toISOString() : undefined,
+		privateProperties: parseProperties("--property", values.property),
+		sharedProperties: parseProperties("--shared-property", values["shared-property"]),
+		eventTypes,
+		iCalUID: values["ical-uid"],
+	};
+	const fetchPage = async (pageToken: string | undefined): Promise<EventSearchResult> => {
+		if (values.cached) return service.listCachedEvents(account, calendarId, { ...options, pageToken });
+		try {
+			return await service.listEvents(account, calendarId, { ...options, pageToken, singleEvents: !values.series });
+		} catch (e) {
+			// Page tokens of the API mean nothing to the cache, so only the first page can fall back to it
+			const fallback = !values.series && pageToken === values.page && isNetworkError(e);
+			const cached = fallback ? service.getCachedCalendar(account, calendarId) : null;
+			if (!cached) throw e;
+			console.error(`Warning: offline, showing cached events (synced ${cached.syncedAt})`);
+			return service.listCachedEvents(account, calendarId, { ...options, pageToken: undefined });
+		}
+	};
+
+	if (values.all || limit !== undefined) {
+		await streamEvents(fetchPage, values.page, limit, values.series);
+	} else {
+		printEvents(await fetchPage(values.page), values.series);
+	}
+}
+
+/**
+ * Prints events as their pages arrive, following page tokens until `limit` events were printed (default: all).
+ * JSON output is written once all pages are fetched.
+ */
+async function streamEvents(
+	fetchPage: (pageToken: string | undefined) => Promise<EventSearchResult>,
+	firstPageToken: string | undefined,
+	limit: number | undefined,
+	showRecurrence = false,
+) {
+	const collected: CalendarEvent[] = [];
+	let count = 0;
+	let pageToken = firstPageToken;
+	do {
+		const result = await fetchPage(pageToken);
+		for (const e of result.events.slice(0, limit === undefined ? undefined : limit - count)) {
+			if (format === "json") {
+				collected.push(e);
+			} else if (format === "ndjson") {
+				writeNdjson([e]);
+			} else {
+				if (count === 0) console.log(eventsHeader(showRecurrence));
+				console.log(formatEventRow(e, showRecurrence));
+			}
+			count++;
+		}
+		pageToken = result.nextPageToken;
+	} while (pageToken && (limit === undefined || count < limit));
+
+	if (format === "json") writeJson({ events: collected });
+	else if (format === "text" && count === 0) console.log("No events");
+}
+
+async function handleSync(account: string, args: string[]) {
+	const { positionals } = parseArgs({ args, allowPositionals: true });
+	// Unlike other commands, no calendar means all selected calendars rather than the default calendar
+	const calendarIds =
+		positionals.length > 0 ? positionals.map((id) => config.resolveCalendar(account, id)) : undefined;
+
+	const results = await service.syncCalendars(account, calendarIds);
+	if (emitList(results)) return;
+	if (results.length === 0) {
+		console.log("No calendars to sync");
+		return;
+	}
+	console.log("CALENDAR\tADDED\tCHANGED\tDELETED\tSYNC");
+	for (const r of results) {
+		console.log(`${r.calendarId}\t${r.added}\t${r.changed}\t${r.deleted}\t${r.fullSync ? "full" : "incremental"}`);
+	}
+}
+
+async function handleWatch(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			interval: { type: "string" },
+			once: { type: "boolean" },
+			webhook: { type: "string" },
+			port: { type: "string" },
+			ttl: { type: "string" },
+			"no-receiver": { type: "boolean" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId] = calendarArgs(account, positionals, 0);
+	if (!calendarId) error("Usage: <email> watch <calendarId> [--interval <d>] [--once] [--webhook <url>]");
+	const port = Number(values.port ?? 8080);
+	if (!/^\d+$/.test(values.port ?? "8080") || port > 65535) error(`Invalid --port: ${values.port} (0-65535)`);
+	if (values.webhook) channels = new ChannelStore(path.join(configDir, "channels.json"));
+	if (values.webhook && values["no-receiver"]) {
+		const channel = await registerChannel(account, calendarId, values.webhook, values.ttl);
+		if (emitObject(channel)) return;
+		console.log(`Channel: ${channel.id}`);
+		console.log(`Resource: ${channel.resourceId}`);
+		console.log(`Token: ${channel.token}`);
+		if (channel.expiration) console.log(`Expires: ${formatDateTime(new Date(channel.expiration), timeZone)}`);
+		return;
+	}
+
+	// Without a previous sync, the first sync only establishes what is already there
+	if (!service.getCachedCalendar(account, calendarId)?.syncToken) {
+		const { result } = await service.syncEventChanges(account, calendarId);
+		console.error(`Synced ${result.added} existing events of ${calendarId}`);
+	}
+
+	if (values.webhook) {
+		await watchWebhook(account, calendarId, values.webhook, port, values.ttl);
+		return;
+	}
+
+	const interval = parseDuration(values.interval ?? "30s");
+	while (true) {
+		await emitChanges(account, calendarId);
+		if (values.once) return;
+		await new Promise((resolve) => setTimeout(resolve, interval));
+	}
+}
+
+/**
+ * Syncs the calendar and prints its changes as NDJSON. Network errors are reported, the next sync catches up.
+ */
+async function emitChanges(account: string, calendarId: string): Promise<void> {
+	try {
+		const { changes } = await service.syncEventChanges(account, calendarId);
+		writeNdjson(changes);
+	} catch (e) {
+		if (!isNetworkError(e)) throw e;
+		console.error(`Warning: ${e instanceof Error ? e.message : String(e)}, will retry`);
+	}
+}
+
+/**
+ * Registers a push channel and saves it. With a receiver, the channel is added to it before registering, so the
+ * API's first (sync) message is accepted.
+ */
+async function registerChannel(
+	account: string,
+	calendarId: string,
+	address: string,
+	ttl: string | undefined,
+	receiver?: WebhookReceiver,
+): Promise<WatchChannel> {
+	const id = crypto.randomUUID();
+	const token = crypto.randomBytes(16).toString("hex");
+	receiver?.addChannel(id, token);
+	const response = await service.watchEvents(account, calendarId, {
+		id,
+		address,
+		token,
+		ttl: ttl ? Math.round(parseDuration(ttl) / 1000) : undefined,
+	});
+	const channel: WatchChannel = {
+		id,
+		resourceId: response.resourceId!,
+		account,
+		calendarId,
+		address,
+		token,
+		expiration: response.expiration ? new Date(Number(response.expiration)).toISOString() : undefined,
+	};
+	channels.add(channel);
+	return channel;
+}
+
+/**
+ * Registers a push channel and prints the changes of every notification it receives, until interrupted.
+ * The channel is renewed before it expires, and stopped on exit.
+ */
+async function watchWebhook(
+	account: string,
+	calendarId: string,
+	address: string,
+	port: number,
+	ttl: string | undefined,
+): Promise<void> {
+	// Notifications can arrive while a sync is running, those are folded into one follow-up sync
+	let syncing = false;
+	let pending = false;
+	const sync = async () => {
+		if (syncing) {
+			pending = true;
+			return;
+		}
+		syncing = true;
+		try {
+			do {
+				pending = false;
+				await emitChanges(account, calendarId);
+			} while (pending);
+		} catch (e) {
+			error(e instanceof Error ? e : String(e));
+		} finally {
+			syncing = false;
+		}
+	};
+
+	const receiver = new WebhookReceiver((notification) => {
+		if (notification.resourceState === "exists") void sync();
+	});
+	const localPort = await receiver.listen(port);
+	console.error(`Receiving notifications on port ${localPort}, forward ${address} to it`);
+
+	let channel = await registerChannel(account, calendarId, address, ttl, receiver);
+	console.error(`Channel ${channel.id} registered${channel.expiration ? `, expires ${channel.expiration}` : ""}`);
+	// Catch up on changes made before the channel existed
+	await sync();
+
+	let renewTimer: NodeJS.Timeout | undefined;
+	const scheduleRenewal = () => {
+		if (!channel.expiration) return;
+		// Renew 5 minutes early; setTimeout cannot wait longer than ~24.8 days
+		const delay = Math.min(Math.max(Date.parse(channel.expiration) - Date.now() - 5 * 60 * 1000, 0), 2 ** 31 - 1);
+		renewTimer = setTimeout(async () => {
+			try {
+				const previous = channel;
+				channel = await registerChannel(account, calendarId, address, ttl, receiver);
+				await stopChannel(previous);
+				receiver.removeChannel(previous.id);
+				scheduleRenewal();
+			} catch (e) {
+				error(e instanceof Error ? e : String(e));
+			}
+		}, delay);
+	};
+	scheduleRenewal();
+
+	await new Promise<void>((resolve) => {
+		const shutdown = async () => {
+			clearTimeout(renewTimer);
+			try {
+				await stopChannel(channel);
+			} catch (e) {
+				console.error(
+					`Warning: could not stop channel ${channel.id}: ${e instanceof Error ? e.message : String(e)}`,
+				);
+			}
+			await receiver.close();
+			resolve();
+		};
+		process.once("SIGINT", shutdown);
+		process.once("SIGTERM", shutdown);
+	});
+}
+
+async function stopChannel(channel: WatchChannel): Promise<void> {
+	await service.stopChannel(channel.account, channel.id, channel.resourceId);
+	channels.remove(channel.id);
+}
+
+async function handleChannels(args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			account: { type: "string" },
+			"resource-id": { type: "string" },
+			all: { type: "boolean" },
+		},
+		allowPositionals: true,
+	});
+	const [action, id] = positionals;
+	channels = new ChannelStore(path.join(configDir, "channels.json"));
+	switch (action) {
+		case "list": {
+			const list = channels.list();
+			if (emitList(list)) break;
+			if (list.length === 0) {
+				console.log("No channels");
+				break;
+			}
+			console.log("ID\tACCOUNT\tCALENDAR\tEXPIRES\tADDRESS");
+			for (const c of list) {
+				const expires = c.expiration ? formatDateTime(new Date(c.expiration), timeZone) : "";
+				console.log(`${c.id}\t${c.account}\t${c.calendarId}\t${expires}\t${c.address}`);
+			}
+			break;
+		}
+		case "stop": {
+			if (!id && !values.all) error("Usage: channels stop <channelId> | --all");
+			// Channels not registered by gccli can be stopped given their account and resource ID
+			const targets = values.all
+				? [...channels.list()]
+				: [
+						channels.get(id) ??
+							(values.account && values["resource-id"]
+								? { id, resourceId: values["resource-id"], account: values.account }
+								: error(`Unknown channel: ${id} (use --account and --resource-id for other channels)`)),
+					];
+			const stopped: string[] = [];
+			for (const channel of targets) {
+				try {
+					await service.stopChannel(channel.account, channel.id, channel.resourceId);
+				} catch (e) {
+					// Expired channels are gone on Google's side already
+					if (!(e instanceof NotFoundError)) throw e;
+				}
+				channels.remove(channel.id);
+				stopped.push(channel.id);
+			}
+			if (emitList(stopped.map((id) => ({ id, stopped: true })))) break;
+			for (const stoppedId of stopped) console.log(`Stopped: ${stoppedId}`);
+			break;
+		}
+		default:
+			error(action ? `Unknown action: ${action}` : "Missing action: list|stop");
+	}
+}
+
+async function handleInstances(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			from: { type: "string" },
+			to: { type: "string" },
+			max: { type: "string" },
+			page: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId, eventId] = calendarArgs(account, positionals, 1);
+	if (!calendarId || !eventId) error("Usage: <email> instances <calendarId> <eventId> [options]");
+
+	const from = values.from ? resolveDate(values.from).instant : undefined;
+	const result = await service.listInstances(account, calendarId, eventId, {
+		timeMin: from?.toISOString(),
+		timeMax: values.to ? resolveDate(values.to, from).instant.toISOString() : undefined,
+		maxResults: values.max ? Number(values.max) : 10,
+		pageToken: values.page,
+	});
+
+	printEvents(result);
+}
+
+function printEvents(result: EventSearchResult, showRecurrence = false) {
+	if (emitList(result.events, result)) {
+		if (format === "ndjson" && result.nextPageToken) {
+			console.error(`# Next page: --page ${result.nextPageToken}`);
+		}
+		return;
+	}
+	if (result.events.length === 0) {
+		console.log("No events");
+	} else {
+		console.log(eventsHeader(showRecurrence));
+		for (const e of result.events) {
+			console.log(formatEventRow(e, showRecurrence));
+		}
+		if (result.nextPageToken) {
+			console.log(`\n# Next page: --page ${result.nextPageToken} (or --all for all pages)`);
+		}
+	}
+}
+
+function eventsHeader(showRecurrence: boolean): string {
+	const header = "ID\tSTART\tEND\tDURATION\tSUMMARY";
+	return showRecurrence ? `${header}\tRECURRENCE` : header;
+}
+
+function formatEventRow(e: CalendarEvent, showRecurrence: boolean): string {
+	const t = getEventTimes(e, timeZone);
+	const label = eventTypeLabel(e);
+	const type = label ? ` [${label}]` : "";
+	const status = e.status === "cancelled" ? " (deleted)" : "";
+	const line = `${e.id}\t${t.start}\t${t.end}\t${t.duration}\t${e.summary || "(no title)"}${type}${status}`;
+	return showRecurrence ? `${line}\t${(e.recurrence || []).join(" ")}` : line;
+}
+
+async function handleEvent(account: string, args: string[]) {
+	const [calendarId, eventId] = calendarArgs(account, args, 1);
+	if (!calendarId || !eventId) error("Usage: <email> event <calendarId> <eventId>");
+
+	const event = await service.getEvent(account, calendarId, eventId);
+	if (emitObject(event)) return;
+
+	console.log(`ID: ${event.id}`);
+	console.log(`Summary: ${event.summary || "(no title)"}`);
+	const label = eventTypeLabel(event);
+	if (label) console.log(`Type: ${label}`);
+	const times = getEventTimes(event, timeZone);
+	console.log(`Start: ${times.start}${times.allDay ? "" : ` (${timeZone})`}`);
+	console.log(`End: ${times.end}${times.allDay ? "" : ` (${timeZone})`}`);
+	console.log(`Duration: ${times.allDay && times.days > 1 ? `${times.duration} (all day)` : times.duration}`);
+	if (event.start?.timeZone && event.start.timeZone !== timeZone) {
+		console.log(`Event time zone: ${event.start.timeZone}`);
+	}
+	if (event.location) console.log(`Location: ${event.location}`);
+	if (event.description) console.log(`Description: ${event.description}`);
+	if (event.organizer?.email) console.log(`Organizer: ${event.organizer.email}`);
+	if (event.attendees && event.attendees.length > 0) {
+		console.log("Attendees:");
+		for (const a of event.attendees) console.log(`  ${formatAttendee(a)}`);
+	}
+	if (event.recurrence && event.recurrence.length > 0) {
+		console.log(`Recurrence: ${event.recurrence.join(" ")}`);
+	}
+	if (event.recurringEventId) console.log(`Recurring event: ${event.recurringEventId}`);
+	const conference = getConferenceLink(event);
+	if (conference) console.log(`Conference: ${conference}`);
+	if (event.reminders) {
+		const overrides = (event.reminders.overrides || []).map((r) => `${r.method}:${r.minutes}m`);
+		console.log(`Reminders: ${event.reminders.useDefault ? "calendar default" : overrides.join(", ") || "none"}`);
+	}
+	const autoDecline = event.outOfOfficeProperties ?? event.focusTimeProperties;
+	if (autoDecline) {
+		console.log(`Auto-decline: ${fromAutoDeclineMode(autoDecline.autoDeclineMode) ?? autoDecline.autoDeclineMode}`);
+		if (autoDecline.declineMessage) console.log(`Decline message: ${autoDecline.declineMessage}`);
+	}
+	if (event.focusTimeProperties?.chatStatus) {
+		console.log(
+			`Chat status: ${event.focusTimeProperties.chatStatus === "doNotDisturb" ? "do not disturb" : "available"}`,
+		);
+	}
+	if (event.workingLocationProperties) console.log(`Working location: ${describeWorkingLocation(event)}`);
+	if (event.colorId) console.log(`Color: ${colorName(event.colorId) ?? event.colorId}`);
+	console.log(`Visibility: ${event.visibility || "default"}`);
+	console.log(`Show as: ${event.transparency === "transparent" ? "free" : "busy"}`);
+	const yesNo = (value: boolean | null | undefined, fallback: boolean) => ((value ?? fallback) ? "yes" : "no");
+	console.log(
+		`Guests can modify: ${yesNo(event.guestsCanModify, false)}, invite others: ${yesNo(event.guestsCanInviteOthers, true)}, see other guests: ${yesNo(event.guestsCanSeeOtherGuests, true)}`,
+	);
+	for (const [scope, properties] of Object.entries(event.extendedProperties || {})) {
+		for (const [key, value] of Object.entries(properties || {})) {
+			console.log(`Property (${scope}): ${key}=${value}`);
+		}
+	}
+	console.log(`Status: ${event.status}`);
+	console.log(`Link: ${event.htmlLink}`);
+}
+
+async function handleCreate(account: string, args: string[]) {
+	const { values: flags, positionals } = parseArgs({
+		args,
+		options: {
+			...CREATE_OPTIONS,
+			template: { type: "string" },
+			var: { type: "string", multiple: true },
+		},
+		allowPositionals: true,
+	});
+	const values = flags.template ? applyTemplate(loadTemplate(flags.template, flags.var), flags, timeZone) : flags;
+	if (!flags.template && flags.var) error("--var requires --template");
+
+	const [calendarId] = calendarArgs(account, positionals, 0);
+	if (!calendarId) error("Usage: <email> create <calendarId> --summary <s> --start <dt> --end <dt>");
+	if (!values.summary || !values.start) {
+		error("Required: --summary, --start, --end");
+	}
+	const times = resolveEventTimes(values, values["all-day"]);
+	if (!times.end) error("Required: --end, --duration or a --start range");
+
+	let recurrence: string[] | undefined;
+	if (values.rrule) {
+		if (values.repeat) error("Use either --repeat or --rrule, not both");
+		recurrence = [values.rrule.startsWith("RRULE:") ? values.rrule : `RRULE:${values.rrule}`];
+	} else if (values.repeat) {
+		if (!FREQUENCIES.includes(values.repeat as Frequency)) {
+			error(`Invalid --repeat: ${values.repeat} (expected ${FREQUENCIES.join(", ")})`);
+		}
+		const rule = buildRRule(
+			{
+				frequency: values.repeat as Frequency,
+				interval: values.interval ? Number(values.interval) : undefined,
+				count: values.count ? Number(values.count) : undefined,
+				until: values.until ? resolveUntil(values.until) : undefined,
+				byDay: values.byday?.split(","),
+			},
+			values["all-day"],
+			timeZone,
+		);
+		recurrence = [rule];
+	} else if (values.interval || values.count || values.until || values.byday) {
+		error("--interval, --count, --until and --byday require --repeat");
+	}
+
+	const event = await service.createEvent(
+		account,
+		calendarId,
+		{
+			summary: values.summary,
+			description: values.description,
+			location: values.location,
+			start: times.start!,
+			end: times.end,
+			attendees: values.attendees?.split(","),
+			allDay: values["all-day"],
+			recurrence,
+			timeZone,
+			...parseEventProperties(values),
+		},
+		{ sendUpdates: parseNotify(values.notify) },
+	);
+
+	if (emitObject(event)) return;
+	console.log(`Created: ${event.id}`);
+	console.log(`Link: ${event.htmlLink}`);
+}
+
+/**
+ * The options saved in a template, with its placeholders filled in from `--var name=value`.
+ */
+function loadTemplate(name: string, vars: string[] = []): ParsedCreateOptions {
+	const template = templates.get(name) ?? error(`Unknown template: ${name} (see gccli templates list)`);
+	const variables: Record<string, string> = {};
+	for (const spec of vars) {
+		const index = spec.indexOf("=");
+		if (index <= 0) error(`Invalid --var: ${spec} (expected name=value)`);
+		variables[spec.slice(0, index)] = spec.slice(index + 1);
+	}
+	return fillTemplate(template, variables) as ParsedCreateOptions;
+}
+
+async function handleOutOfOffice(account: string, args: string[]) {
+	const { values } = parseArgs({
+		args,
+		options: {
+			from: { type: "string" },
+			to: { type: "string" },
+			summary: { type: "string" },
+			decline: { type: "string" },
+			"decline-message": { type: "string" },
+		},
+	});
+	if (!values.from) error("Usage: <email> ooo --from <datetime> [--to <datetime>] [options]");
+
+	// Days without a time of day are taken whole: --to friday ends on Friday at midnight
+	const from = resolveDate(values.from);
+	const to = values.to ? resolveDate(values.to, from.instant) : from.dateOnly ? from : error("Required: --to");
+	const end = to.dateOnly ? resolveDate(addDays(to.date, 1)).instant : to.instant;
+	const start = formatInTimeZone(from.instant, timeZone);
+	console.error(`Start: ${start} (${timeZone})`);
+	console.error(`End: ${formatInTimeZone(end, timeZone)} (${timeZone})`);
+
+	const event = await service.createOutOfOffice(account, {
+		start,
+		end: formatInTimeZone(end, timeZone),
+		summary: values.summary,
+		autoDecline: parseAutoDecline(values.decline),
+		declineMessage: values["decline-message"],
+		timeZone,
+	});
+	if (emitObject(event)) return;
+	console.log(`Created: ${event.id}`);
+	console.log(`Link: ${event.htmlLink}`);
+}
+
+async function handleFocus(account: string, args: string[]) {
+	const { values } = parseArgs({
+		args,
+		options: {
+			start: { type: "string" },
+			end: { type: "string" },
+			duration: { type: "string" },
+			summary: { type: "string" },
+			decline: { type: "string" },
+			"decline-message": { type: "string" },
+			"do-not-disturb": { type: "boolean" },
+		},
+	});
+	if (!values.start) error("Usage: <email> focus --start <datetime> --end <datetime> [options]");
+	const times = resolveEventTimes(values, false);
+	if (!times.end) error("Required: --end, --duration or a --start range");
+
+	const event = await service.createFocusTime(account, {
+		start: times.start!,
+		end: times.end,
+		summary: values.summary,
+		autoDecline: parseAutoDecline(values.decline),
+		declineMessage: values["decline-message"],
+		chatStatus: values["do-not-disturb"] ? "doNotDisturb" : undefined,
+		timeZone,
+	});
+	if (emitObject(event)) return;
+	console.log(`Created: ${event.id}`);
+	console.log(`Link: ${event.htmlLink}`);
+}
+
+async function handleLocation(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			date: { type: "string" },
+			days: { type: "string" },
+			start: { type: "string" },
+			end: { type: "string" },
+			duration: { type: "string" },
+			summary: { type: "string" },
+			"building-id": { type: "string" },
+			floor: { type: "string" },
+			desk: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+	const [type, label] = positionals;
+	const usage = "Usage: <email> location home|office [<label>]|custom <label> [--date <date>] [options]";
+	let location: WorkingLocation;
+	if (type === "home") {
+		location = { type: "home" };
+	} else if (type === "office") {
+		location = {
+			type: "office",
+			label,
+			buildingId: values["building-id"],
+			floorId: values.floor,
+			deskId: values.desk,
+		};
+	} else if (type === "custom") {
+		location = { type: "custom", label: label ?? error(usage) };
+	} else {
+		error(usage);
+	}
+	if (type !== "office" && (values["building-id"] || values.floor || values.desk)) {
+		error("--building-id, --floor and --desk require office");
+	}
+
+	let times: { start?: string; end?: string };
+	if (values.start) {
+		if (values.date || values.days) error("Use either --date/--days or --start");
+		times = resolveEventTimes(values, false);
+		if (!times.end) error("Required: --end, --duration or a --start range");
+	} else {
+		if (values.end || values.duration) error("--end and --duration require --start");
+		const days = values.days ? Number(values.days) : 1;
+		if (!Number.isInteger(days) || days < 1) error(`Invalid --days: ${values.days}`);
+		const date = resolveDate(values.date || "today").date;
+		times = { start: date, end: addDays(date, days) };
+	}
+
+	const event = await service.createWorkingLocation(account, {
+		location,
+		start: times.start!,
+		end: times.end!,
+		allDay: !values.start,
+		summary: values.summary,
+		timeZone,
+	});
+	if (emitObject(event)) return;
+	console.log(`Created: ${event.id}`);
+	console.log(`Working location: ${describeWorkingLocation(event)}`);
+	console.log(`Link: ${event.htmlLink}`);
+}
+
+function parseAutoDecline(decline: string | undefined): AutoDecline | undefined {
+	if (decline === undefined) return undefined;
+	if (!AUTO_DECLINE.includes(decline as AutoDecline)) {
+		error(`Invalid --decline: ${decline} (expected ${AUTO_DECLINE.join(", ")})`);
+	}
+	return decline as AutoDecline;
+}
+
+async function handleUpdate(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			summary: { type: "string" },
+			description: { type: "string" },
+			location: { type: "string" },
+			start: { type: "string" },
+			end: { type: "string" },
+			duration: { type: "string" },
+			attendees: { type: "string" },
+			"all-day": { type: "boolean" },
+			scope: { type: "string" },
+			notify: { type: "string" },
+			...EVENT_PROPERTY_OPTIONS,
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId, eventId] = calendarArgs(account, positionals, 1);
+	if (!calendarId || !eventId) error("Usage: <email> update <calendarId> <eventId> [options]");
+	const times = resolveEventTimes(values, values["all-day"]);
+
+	const event = await service.updateEvent(
+		account,
+		calendarId,
+		eventId,
+		{
+			summary: values.summary,
+			description: values.description,
+			location: values.location,
+			start: times.start,
+			end: times.end,
+			attendees: values.attendees?.split(","),
+			allDay: values["all-day"],
+			timeZone: times.start || times.end ? timeZone : undefined,
+			...parseEventProperties(values),
+		},
+		parseScope(values.scope),
+		{ sendUpdates: parseNotify(values.notify) },
+	);
+
+	if (emitObject(event)) return;
+	console.log(`Updated: ${event.id}`);
+}
+
+async function handleDelete(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			scope: { type: "string" },
+			notify: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId, eventId] = calendarArgs(account, positionals, 1);
+	if (!calendarId || !eventId) error("Usage: <email> delete <calendarId> <eventId> [--scope this|following|all]");
+
+	await service.deleteEvent(account, calendarId, eventId, parseScope(values.scope), {
+		sendUpdates: parseNotify(values.notify),
+	});
+	if (emitObject({ calendarId, eventId, deleted: true })) return;
 	console.log("Deleted");
 }
 
+async function handleMove(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			notify: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId, eventId, destination] = calendarArgs(account, positionals, 2);
+	if (!calendarId || !eventId || !destination) {
+		error("Usage: <email> move <calendarId> <eventId> <destinationCalendarId>");
+	}
+
+	const event = await service.moveEvent(account, calendarId, eventId, config.resolveCalendar(account, destination), {
+		sendUpdates: parseNotify(values.notify),
+	});
+	if (emitObject(event)) return;
+	console.log(`Moved: ${event.id}`);
+}
+
+async function handleCopy(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			"to-account": { type: "string" },
+			"to-date": { type: "string" },
+			shift: { type: "string" },
+			"strip-attendees": { type: "boolean" },
+			notify: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId, eventId, destination] = calendarArgs(account, positionals, 1);
+	if (!calendarId || !eventId) {
+		error("Usage: <email> copy <calendarId> <eventId> [destinationCalendarId] [--to-account <email>] [options]");
+	}
+
+	const toAccount = values["to-account"] ?? account;
+	// Within the account the copy defaults to the same calendar, in another account to its primary calendar
+	const target = destination
+		? config.resolveCalendar(toAccount, destination)
+		: toAccount === account
+			? calendarId
+			: "primary";
+	const event = await service.copyEvent(account, calendarId, eventId, target, {
+		toAccount,
+		toDate: values["to-date"] ? resolveDate(values["to-date"]).date : undefined,
+		shift: values.shift ? parseShift(values.shift) : undefined,
+		stripAttendees: values["strip-attendees"],
+		timeZone,
+		sendUpdates: parseNotify(values.notify),
+	});
+	if (emitObject(event)) return;
+	console.log(`Created: ${event.id}`);
+	console.log(`Link: ${event.htmlLink}`);
+}
+
+/**
+ * Parses a signed duration like `+7d`, `-1h` or `2h30m` (positive) into milliseconds.
+ */
+function parseShift(shift: string): number {
+	const negative = shift.startsWith("-");
+	const ms = parseDuration(shift.replace(/^[+-]/, ""));
+	return negative ? -ms : ms;
+}
+
+async function handleExport(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			from: { type: "string" },
+			to: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId] = calendarArgs(account, positionals, 0);
+	if (!calendarId) error("Usage: <email> export <calendarId> [--from <dt>] [--to <dt>]");
+
+	const from = values.from ? resolveDate(values.from).instant : undefined;
+	const to = values.to ? resolveDate(values.to, from).instant : undefined;
+	const [calendar, events] = await Promise.all([
+		service.getCalendar(account, calendarId),
+		service.listAllEvents(account, calendarId, {
+			timeMin: from?.toISOString(),
+			timeMax: to?.toISOString(),
+			singleEvents: false,
+		}),
+	]);
+
+	process.stdout.write(
+		toICalendar(events, { name: calendar.summary || undefined, timeZone: calendar.timeZone || undefined }),
+	);
+}
+
+async function handleImport(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			"dry-run": { type: "boolean" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId, file] = calendarArgs(account, positionals, 1);
+	if (!calendarId || !file) error("Usage: <email> import <calendarId> <file.ics> [--dry-run]");
+
+	const root = parseICalendar(fs.readFileSync(file, "utf8"));
+	const events = root.components.filter((c) => c.name === "VEVENT").map((c) => fromVEvent(c, root, timeZone));
+	if (events.length === 0) error("No events in file");
+
+	const results = await service.importEvents(account, calendarId, events, { dryRun: values["dry-run"] });
+	if (emitList(results)) return;
+
+	console.log("ACTION\tUID\tSUMMARY");
+	for (const r of results) {
+		console.log(`${r.action}\t${r.iCalUID}\t${r.summary || "(no title)"}${r.error ? `\t${r.error}` : ""}`);
+	}
+	const count = (action: string) => results.filter((r) => r.action === action).length;
+	const verb = values["dry-run"] ? "Would create" : "Created";
+	console.log(
+		`\n# ${verb} ${count("create")}, ${values["dry-run"] ? "would update" : "updated"} ${count("update")}, unchanged ${count("unchanged")}, errors ${count("error")}`,
+	);
+	if (count("error") > 0) process.exitCode = 1;
+}
+
+async function handleApply(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			"dry-run": { type: "boolean" },
+			notify: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const file = positionals[0];
+	if (!file) error("Usage: <email> apply <plan.yaml|plan.json|-> [--dry-run]");
+
+	const text = fs.readFileSync(file === "-" ? 0 : file, "utf8");
+	const operations = parsePlan(text, file, config.get("defaultCalendar") ?? "primary", timeZone).map((operation) => ({
+		...operation,
+		calendar: config.resolveCalendar(account, operation.calendar),
+		...(operation.op === "move" ? { to: config.resolveCalendar(account, operation.to) } : {}),
+	}));
+	if (operations.length === 0) error("No operations in plan");
+
+	const results = await service.applyPlan(account, operations, {
+		dryRun: values["dry-run"],
+		sendUpdates: parseNotify(values.notify),
+	});
+	const failed = results.filter((r) => r.status === "error").length;
+	if (failed > 0) process.exitCode = 1;
+	if (emitList(results)) return;
+
+	const show = (value: unknown) => JSON.stringify(value);
+	for (const r of results) {
+		const operation = operations[r.index];
+		const target = [r.calendarId, r.eventId, r.summary ? `"${r.summary}"` : undefined].filter(Boolean).join(" ");
+		const status = r.status === "planned" ? "" : `${r.status === "ok" ? "OK" : "ERROR"}\t`;
+		console.log(`${status}${r.index + 1}. ${r.op} ${target}${operation.op === "move" ? ` -> ${operation.to}` : ""}`);
+		if (r.error) console.log(`     ${r.error}`);
+		for (const change of r.changes || []) {
+			if (r.op === "create") console.log(`     + ${change.field}: ${show(change.after)}`);
+			else if (r.op === "update")
+				console.log(`     ~ ${change.field}: ${show(change.before)} -> ${show(change.after)}`);
+		}
+	}
+	const verb = values["dry-run"] ? "Planned" : "Applied";
+	console.log(`\n# ${verb} ${results.length - failed}, errors ${failed}`);
+}
+
+function formatAttendee(a: calendar_v3.Schema$EventAttendee): string {
+	const flags = [a.responseStatus, a.optional && "optional", a.organizer && "organizer", a.self && "you"];
+	const name = a.displayName ? ` ${a.displayName}` : "";
+	const comment = a.comment ? ` "${a.comment}"` : "";
+	return `${a.email}${name} (${flags.filter(Boolean).join(", ")})${comment}`;
+}
+
+async function handleAttendees(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			optional: { type: "boolean" },
+			required: { type: "boolean" },
+			name: { type: "string" },
+			notify: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const action = positionals[0];
+	const usage = "Usage: <email> attendees list|add|remove <calendarId> <eventId> [emails] [options]";
+	if (action === "list") {
+		const [calendarId, eventId] = calendarArgs(account, positionals.slice(1), 1);
+		if (!calendarId || !eventId) error(usage);
+		const event = await service.getEvent(account, calendarId, eventId);
+		const attendees = event.attendees || [];
+		if (emitList(attendees)) return;
+		if (attendees.length === 0) {
+			console.log("No attendees");
+			return;
+		}
+		console.log("EMAIL\tNAME\tRESPONSE\tOPTIONAL\tCOMMENT");
+		for (const a of attendees) {
+			console.log(
+				`${a.email}\t${a.displayName || ""}\t${a.responseStatus || ""}\t${a.optional ? "yes" : "no"}\t${a.comment || ""}`,
+			);
+		}
+		return;
+	}
+	if (action !== "add" && action !== "remove") error(usage);
+
+	const [calendarId, eventId, emails] = calendarArgs(account, positionals.slice(1), 2);
+	if (!calendarId || !eventId || !emails) error(usage);
+	if (values.optional && values.required) error("Use either --optional or --required, not both");
+	const list = emails.split(",");
+	if (values.name && list.length > 1) error("--name requires a single attendee");
+
+	const optional = values.optional ? true : values.required ? false : undefined;
+	const event = await service.updateAttendees(
+		account,
+		calendarId,
+		eventId,
+		action === "add"
+			? { add: list.map((email) => ({ email, displayName: values.name, optional })) }
+			: { remove: list },
+		{ sendUpdates: parseNotify(values.notify) },
+	);
+	if (emitObject(event)) return;
+	for (const a of event.attendees || []) console.log(formatAttendee(a));
+}
+
+async function handleRsvp(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			comment: { type: "string" },
+			notify: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId, eventId, response] = calendarArgs(account, positionals, 2);
+	if (!calendarId || !eventId || !response) {
+		error("Usage: <email> rsvp <calendarId> <eventId> accepted|declined|tentative [--comment <c>]");
+	}
+	if (!RSVP_RESPONSES.includes(response)) {
+		error(`Invalid response: ${response} (expected ${RSVP_RESPONSES.join(", ")})`);
+	}
+
+	const event = await service.respondToEvent(
+		account,
+		calendarId,
+		eventId,
+		response as Exclude<ResponseStatus, "needsAction">,
+		values.comment,
+		{ sendUpdates: parseNotify(values.notify) },
+	);
+	if (emitObject(event)) return;
+	console.log(`${response[0].toUpperCase()}${response.slice(1)}: ${event.summary || "(no title)"}`);
+}
+
+async function handleInvitations(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			from: { type: "string" },
+			to: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const [calendarId] = calendarArgs(account, positionals, 0);
+	const from = values.from ? resolveDate(values.from).instant : new Date();
+	const to = values.to ? resolveDate(values.to, from).instant : new Date(from.getTime() + 28 * 24 * 60 * 60 * 1000);
+
+	const events = await service.listInvitations(account, calendarId || "primary", {
+		timeMin: from.toISOString(),
+		timeMax: to.toISOString(),
+	});
+	if (emitList(events)) return;
+	if (events.length === 0) {
+		console.log("No pending invitations");
+		return;
+	}
+	console.log("ID\tSTART\tSUMMARY\tORGANIZER");
+	for (const e of events) {
+		const start = getEventTimes(e, timeZone).start;
+		console.log(`${e.id}\t${start}\t${e.summary || "(no title)"}\t${e.organizer?.email || ""}`);
+	}
+}
+
+async function handleFindTime(account: string, args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			duration: { type: "string" },
+			from: { type: "string" },
+			to: { type: "string" },
+			hours: { type: "string" },
+			participant: { type: "string", multiple: true },
+			"include-weekends": { type: "boolean" },
+			buffer: { type: "string" },
+			step: { type: "string" },
+			limit: { type: "string" },
+			book: { type: "boolean" },
+			pick: { type: "string" },
+			summary: { type: "string" },
+			description: { type: "string" },
+			calendar: { type: "string" },
+			notify: { type: "string" },
+		},
+		allowPositionals: true,
+	});
+
+	const calendarIds = positionals[0];
+	if (!calendarIds || !values.duration) error("Usage: <email> findtime <calendarIds> --duration <d> [options]");
+	if (values.book && !values.summary) error("--book requires --summary");
+	const limit = values.limit !== undefined ? Number(values.limit) : undefined;
+	if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) error(`Invalid --limit: ${values.limit}`);
+
+	const from = values.from ? resolveDate(values.from).instant : new Date();
+	const to = values.to ? resolveDate(values.to, from).instant : new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
+	const days = values["include-weekends"] ? [0, 1, 2, 3, 4, 5, 6] : undefined;
+	const defaultHours = { ...parseWorkingHours(values.hours || "09:00-17:00", timeZone), days };
+
+	const hoursById = new Map<string, Participant["workingHours"]>();
+	for (const spec of values.participant || []) {
+		const match = spec.match(/^([^=]+)=([^@]+)(?:@(.+))?$/);
+		if (!match) error(`Invalid --participant: ${spec} (expected id=HH:MM-HH:MM[@zone])`);
+		const zone = match[3] || timeZone;
+		assertTimeZone(zone);
+		hoursById.set(match[1], { ...parseWorkingHours(match[2], zone), days });
+	}
+
+	const ids = Array.from(
+		new Set([...calendarIds.split(",").map((id) => config.resolveCalendar(account, id)), ...hoursById.keys()]),
+	);
+	const busy = await service.getFreeBusy(account, ids, from.toISOString(), to.toISOString());
+	const participants: Participant[] = ids.map((id) => ({
+		id,
+		busy: (busy.get(id) || []).map((b) => ({ start: Date.parse(b.start), end: Date.parse(b.end) })),
+		workingHours: hoursById.get(id) ?? defaultHours,
+	}));
+
+	const slots = findFreeSlots(participants, {
+		duration: parseDuration(values.duration),
+		windowStart: from.getTime(),
+		windowEnd: to.getTime(),
+		buffer: values.buffer ? parseDuration(values.buffer) : undefined,
+		step: values.step ? parseDuration(values.step) : undefined,
+		limit,
+	});
+	if (slots.length === 0) error("No free slot found");
+
+	if (values.book) {
+		const pick = values.pick ? Number(values.pick) : 1;
+		const slot = slots[pick - 1];
+		if (!slot) error(`Invalid --pick: ${values.pick} (${slots.length} candidates)`);
+		const start = formatInTimeZone(slot.start, timeZone);
+		const end = formatInTimeZone(slot.end, timeZone);
+		console.error(`Start: ${start} (${timeZone})`);
+		console.error(`End: ${end} (${timeZone})`);
+		const event = await service.createEvent(
+			account,
+			values.calendar || "primary",
+			{
+				summary: values.summary!,
+				description: values.description,
+				start,
+				end,
+				attendees: ids.filter((id) => id !== "primary" && id !== account && id.includes("@")),
+				timeZone,
+			},
+			{ sendUpdates: parseNotify(values.notify) },
+		);
+		if (emitObject(event)) return;
+		console.log(`Created: ${event.id}`);
+		console.log(`Link: ${event.htmlLink}`);
+		return;
+	}
+
+	const candidates = slots.map((slot) => ({
+		start: formatInTimeZone(slot.start, timeZone),
+		end: formatInTimeZone(slot.end, timeZone),
+	}));
+	if (emitList(candidates)) return;
+	console.log("#\tSTART\tEND");
+	slots.forEach((slot, i) => {
+		console.log(`${i + 1}\t${formatDateTime(slot.start, timeZone)}\t${formatDateTime(slot.end, timeZone)}`);
+	});
+}
+
+/**
+ * Removes a global `--name <value>` (or `--name=value`) option from args and returns its value.
+ */
+function extractGlobalOption(args: string[], name: string): string | undefined {
+	let value: string | undefined;
+	for (let i = 0; i < args.length; i++) {
+		if (args[i] === name) {
+			value = args[i + 1];
+			if (value === undefined) error(`Missing value for ${name}`);
+			args.splice(i, 2);
+			i--;
+		} else if (args[i].startsWith(`${name}=`)) {
+			value = args[i].slice(name.length + 1);
+			args.splice(i, 1);
+			i--;
+		}
+	}
+	return value;
+}
+
+function parseRetries(value: string | undefined): number | undefined {
+	if (value === undefined) return undefined;
+	const retries = Number(value);
+	if (!Number.isInteger(retries) || retries < 0) error(`Invalid GCCLI_RETRIES: ${value}`);
+	return retries;
+}
+
+/**
+ * Resolves the leading `<calendarId>` of commands taking `argCount` further positionals. The calendar may be an
+ * alias, and may be omitted entirely when a default calendar is configured.
+ */
+function calendarArgs(account: string, positionals: string[], argCount: number): Array<string | undefined> {
+	const explicit = positionals.length > argCount;
+	const calendar = explicit ? positionals[0] : config.get("defaultCalendar");
+	return [calendar && config.resolveCalendar(account, calendar), ...(explicit ? positionals.slice(1) : positionals)];
+}
+
+function resolveDate(expression: string, base?: Date): ResolvedDate {
+	return parseDateExpression(expression, { timeZone, base });
+}
+
+function resolveUntil(expression: string): string {
+	const resolved = resolveDate(expression);
+	return resolved.dateOnly ? resolved.date : resolved.instant.toISOString();
+}
+
+/**
+ * Resolves --start/--end/--duration into API times (dates for all-day events) and echoes them to stderr.
+ * --start may be a range like "friday 9am-10:30am"; --end offsets are relative to the start.
+ */
+function resolveEventTimes(
+	values: { start?: string; end?: string; duration?: string },
+	allDay: boolean | undefined,
+): { start?: string; end?: string } {
+	if (values.end && values.duration) error("Use either --end or --duration, not both");
+	if (!values.start) {
+		if (values.duration) error("--duration requires --start");
+		if (!values.end) return {};
+		const end = toApiTime(resolveDate(values.end), allDay);
+		console.error(`End: ${end}`);
+		return { end };
+	}
+
+	const range = parseDateRange(values.start, { timeZone });
+	if (range.end && (values.end || values.duration)) error("--start is a range, omit --end and --duration");
+
+	const start = toApiTime(range.start, allDay);
+	let end: string | undefined;
+	if (range.end) {
+		end = toApiTime(range.end, allDay);
+	} else if (values.end) {
+		end = toApiTime(resolveDate(values.end, range.start.instant), allDay);
+	} else if (values.duration) {
+		const ms = parseDuration(values.duration);
+		end = allDay
+			? addDays(range.start.date, Math.max(1, Math.ceil(ms / (24 * 60 * 60 * 1000))))
+			: formatInTimeZone(new Date(range.start.instant.getTime() + ms), timeZone);
+	}
+
+	console.error(`Start: ${start}${allDay ? "" : ` (${timeZone})`}`);
+	if (end) console.error(`End: ${end}${allDay ? "" : ` (${timeZone})`}`);
+	return { start, end };
+}
+
+function toApiTime(resolved: ResolvedDate, allDay: boolean | undefined): string {
+	return allDay ? resolved.date : formatInTimeZone(resolved.instant, timeZone);
+}
+
+function parseEventProperties(values: {
+	reminder?: string[];
+	"no-default-reminders"?: boolean;
+	"default-reminders"?: boolean;
+	color?: string;
+	visibility?: string;
+	"show-as"?: string;
+	"guests-can-modify"?: string;
+	"guests-can-invite"?: string;
+	"guests-can-see-others"?: string;
+	property?: string[];
+	meet?: boolean;
+}): EventProperties {
+	if (values["default-reminders"] && (values.reminder || values["no-default-reminders"])) {
+		error("--default-reminders cannot be combined with --reminder or --no-default-reminders");
+	}
+	if (values.visibility && !VISIBILITIES.includes(values.visibility as Visibility)) {
+		error(`Invalid --visibility: ${values.visibility} (expected ${VISIBILITIES.join(", ")})`);
+	}
+	if (values["show-as"] && !SHOW_AS.includes(values["show-as"] as ShowAs)) {
+		error(`Invalid --show-as: ${values["show-as"]} (expected ${SHOW_AS.join(", ")})`);
+	}
+
+	const privateProperties = parseProperties("--property", values.property);
+
+	return {
+		reminders: values.reminder?.map(parseReminder) ?? (values["no-default-reminders"] ? [] : undefined),
+		useDefaultReminders: values["default-reminders"] || undefined,
+		colorId: values.color ? parseColor(values.color) : undefined,
+		visibility: values.visibility as Visibility | undefined,
+		showAs: values["show-as"] as ShowAs | undefined,
+		guestsCanModify: parseYesNo("--guests-can-modify", values["guests-can-modify"]),
+		guestsCanInviteOthers: parseYesNo("--guests-can-invite", values["guests-can-invite"]),
+		guestsCanSeeOtherGuests: parseYesNo("--guests-can-see-others", values["guests-can-see-others"]),
+		privateProperties,
+		meet: values.meet,
+	};
+}
+
+/**
+ * Parses repeated `key=value` options. Undefined if none were given.
+ */
+function parseProperties(option: string, specs: string[] | undefined): Record<string, string> | undefined {
+	let properties: Record<string, string> | undefined;
+	for (const spec of specs || []) {
+		const index = spec.indexOf("=");
+		if (index <= 0) error(`Invalid ${option}: ${spec} (expected key=value)`);
+		properties ??= {};
+		properties[spec.slice(0, index)] = spec.slice(index + 1);
+	}
+	return properties;
+}
+
+function parseYesNo(name: string, value: string | undefined): boolean | undefined {
+	if (value === undefined) return undefined;
+	if (value !== "yes" && value !== "no") error(`Invalid ${name}: ${value} (expected yes or no)`);
+	return value === "yes";
+}
+
+function parseNotify(notify: string | undefined): SendUpdates | undefined {
+	if (notify === undefined) return undefined;
+	if (!NOTIFY_OPTIONS.includes(notify)) error(`Invalid --notify: ${notify} (expected ${NOTIFY_OPTIONS.join(", ")})`);
+	return notify === "external" ? "externalOnly" : (notify as SendUpdates);
+}
+
+function parseScope(scope: string | undefined): RecurrenceScope {
+	if (scope === undefined) return "this";
+	if (!RECURRENCE_SCOPES.includes(scope as RecurrenceScope)) {
+		error(`Invalid --scope: ${scope} (expected ${RECURRENCE_SCOPES.join(", ")})`);
+	}
+	return scope as RecurrenceScope;
+}
+
 async function handleFreeBusy(account: string, args: string[]) {
 	const { values, positionals } = parseArgs({
 		args,
@@ -378,7 +2613,11 @@ async function handleFreeBusy(account: string, args: string[]) {
 		error("Usage: <email> freebusy <calendarIds> --from <dt> --to <dt>");
 	}
 
-	const result = await service.getFreeBusy(account, calendarIds.split(","), values.from, values.to);
+	const from = resolveDate(values.from).instant;
+	const to = resolveDate(values.to, from).instant;
+	const ids = calendarIds.split(",").map((id) => config.resolveCalendar(account, id));
+	const result = await service.getFreeBusy(account, ids, from.toISOString(), to.toISOString());
+	if (emitList(Array.from(result, ([calendarId, busy]) => ({ calendarId, busy })))) return;
 
 	for (const [calId, busy] of result) {
 		console.log(`${calId}:`);
@@ -386,7 +2625,7 @@ async function handleFreeBusy(account: string, args: string[]) {
 			console.log("  (free)");
 		} else {
 			for (const b of busy) {
-				console.log(`  ${b.start} - ${b.end}`);
+				console.log(`  ${formatEventSpan({ start: { dateTime: b.start }, end: { dateTime: b.end } }, timeZone)}`);
 			}
 		}
 	}
@@ -0,0 +1,200 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { assertTimeZone } from "./date-parser.js";
+import { writeFileAtomic } from "./fs-utils.js";
+import type { OutputFormat } from "./output.js";
+
+/**
+ * Settings that can be set globally or per profile.
+ */
+export interface ConfigSettings {
+	defaultAccount?: string;
+	defaultCalendar?: string;
+	timezone?: string;
+	output?: OutputFormat;
+	/** Retries of failed API requests (default: 3) */
+	retries?: number;
+}
+
+export interface GccliConfig extends ConfigSettings {
+	/** Calendar aliases per account: account email -> alias -> calendar ID */
+	aliases?: Record<string, Record<string, string>>;
+	/** Named sets of settings overriding the global ones, selected with --profile or GCCLI_PROFILE */
+	profiles?: Record<string, ConfigSettings>;
+}
+
+export type ConfigKey = keyof ConfigSettings;
+
+export const CONFIG_KEYS: ConfigKey[] = ["defaultAccount", "defaultCalendar", "timezone", "output", "retries"];
+
+const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "ndjson"];
+
+/**
+ * The gccli home directory: `GCCLI_HOME` or `~/.gccli`.
+ */
+export function getConfigDir(): string {
+	return process.env.GCCLI_HOME || path.join(os.homedir(), ".gccli");
+}
+
+export class ConfigStore {
+	private config: GccliConfig = {};
+
+	constructor(
+		private file: string = path.join(getConfigDir(), "config.json"),
+		private profile: string | undefined = process.env.GCCLI_PROFILE,
+	) {
+		this.load();
+	}
+
+	private load(): void {
+		if (!fs.existsSync(this.file)) return;
+		try {
+			this.config = toConfig(JSON.parse(fs.readFileSync(this.file, "utf8")));
+		} catch (e) {
+			throw new Error(`Invalid config file ${this.file}: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	private save(): void {
+		fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+		writeFileAtomic(this.file, JSON.stringify(this.config, null, 2));
+	}
+
+	getPath(): string {
+		return this.file;
+	}
+
+	getProfile(): string | undefined {
+		return this.profile;
+	}
+
+	/**
+	 * Throws if the active profile does not exist. Not done on load so that `config set` can create profiles.
+	 */
+	assertProfile(): void {
+		if (this.profile && !this.config.profiles?.[this.profile]) {
+			throw new Error(`Unknown profile: ${this.profile}`);
+		}
+	}
+
+	/**
+	 * Returns a setting, with the active profile taking precedence over the global value.
+	 */
+	get<K extends ConfigKey>(key: K): ConfigSettings[K] {
+		const fromProfile = this.profile ? this.config.profiles?.[this.profile]?.[key] : undefined;
+		return fromProfile ?? this.config[key];
+	}
+
+	/**
+	 * Sets a setting in the given profile (created if needed), or globally.
+	 */
+	set(key: ConfigKey, value: string, profile?: string): void {
+		validateSetting(key, value);
+		const target = this.settingsFor(profile, true)!;
+		(target as Record<string, string | number>)[key] = key === "retries" ? Number(value) : value;
+		this.save();
+	}
+
+	unset(key: ConfigKey, profile?: string): boolean {
+		const target = this.settingsFor(profile, false);
+		if (!target || target[key] === undefined) return false;
+		delete target[key];
+		this.save();
+		return true;
+	}
+
+	getAll(): GccliConfig {
+		return this.config;
+	}
+
+	setAlias(account: string, alias: string, calendarId: string): void {
+		this.config.aliases ??= {};
+		this.config.aliases[account] ??= {};
+		this.config.aliases[account][alias] = calendarId;
+		this.save();
+	}
+
+	removeAlias(account: string, alias: string): boolean {
+		const aliases = this.config.aliases?.[account];
+		if (!aliases || aliases[alias] === undefined) return false;
+		delete aliases[alias];
+		if (Object.keys(aliases).length === 0) delete this.config.aliases![account];
+		this.save();
+		return true;
+	}
+
+	/**
+	 * Maps a calendar alias of the account to its calendar ID. Unknown names are returned unchanged.
+	 */
+	resolveCalendar(account: string, calendar: string): string {
+		return this.config.aliases?.[account]?.[calendar] ?? calendar;
+	}
+
+	private settingsFor(profile: string | undefined, create: boolean): ConfigSettings | undefined {
+		if (!profile) return this.config;
+		if (create) {
+			this.config.profiles ??= {};
+			this.config.profiles[profile] ??= {};
+		}
+		return this.config.profiles?.[profile];
+	}
+}
+
+export function isConfigKey(key: string): key is ConfigKey {
+	return CONFIG_KEYS.includes(key as ConfigKey);
+}
+
+/**
+ * Checks the shape of a parsed config file, so that a hand-edited mistake is reported on load instead of
+ * surfacing later as a confusing failure.
+ */
+function toConfig(value: unknown): GccliConfig {
+	if (!isRecord(value)) throw new Error("expected an object");
+	checkSettings(value, "");
+	if (value.aliases !== undefined) {
+		if (!isRecord(value.aliases)) throw new Error('"aliases" must be an object');
+		for (const [account, aliases] of Object.entries(value.aliases)) {
+			if (!isRecord(aliases) || !Object.values(aliases).every((id) => typeof id === "string")) {
+				throw new Error(`"aliases.${account}" must map aliases to calendar IDs`);
+			}
+		}
+	}
+	if (value.profiles !== undefined) {
+		if (!isRecord(value.profiles)) throw new Error('"profiles" must be an object');
+		for (const [name, settings] of Object.entries(value.profiles)) {
+			if (!isRecord(settings)) throw new Error(`"profiles.${name}" must be an object`);
+			checkSettings(settings, `profiles.${name}.`);
+		}
+	}
+	return value as GccliConfig;
+}
+
+function checkSettings(settings: Record<string, unknown>, prefix: string): void {
+	for (const key of CONFIG_KEYS) {
+		const value = settings[key];
+		if (value === undefined) continue;
+		if (key === "retries" ? typeof value !== "number" : typeof value !== "string") {
+			throw new Error(`"${prefix}${key}" must be a ${key === "retries" ? "number" : "string"}`);
+		}
+		try {
+			validateSetting(key, String(value));
+		} catch (e) {
+			throw new Error(`"${prefix}${key}": ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateSetting(key: ConfigKey, value: string): void {
+	if (key === "timezone") assertTimeZone(value);
+	if (key === "output" && !OUTPUT_FORMATS.includes(value as OutputFormat)) {
+		throw new Error(`Invalid output: ${value} (expected ${OUTPUT_FORMATS.join(", ")})`);
+	}
+	if (key === "retries" && !/^\d+$/.test(value)) {
+		throw new Error(`Invalid retries: ${value} (expected a non-negative integer)`);
+	}
+}
@@ -0,0 +1,110 @@
+import { type ChildProcess, spawn } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import type { AgendaEntry } from "./calendar-service.js";
+import { getConfigDir } from "./config.js";
+import { writeFileAtomic } from "./fs-utils.js";
+
+/** How long reminders are remembered after the event started */
+const STATE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reminders the daemon has fired, stored in `daemon-state.json` so a restarted daemon does not fire them again.
+ */
+export class DaemonState {
+	/** Reminder key -> event start (ISO 8601) */
+	private notified: Record<string, string> = {};
+
+	constructor(private file: string = path.join(getConfigDir(), "daemon-state.json")) {
+		this.load();
+	}
+
+	private load(): void {
+		if (!fs.existsSync(this.file)) return;
+		try {
+			this.notified = JSON.parse(fs.readFileSync(this.file, "utf8")).notified ?? {};
+		} catch (e) {
+			throw new Error(`Invalid daemon state file ${this.file}: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	private save(): void {
+		fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+		writeFileAtomic(this.file, JSON.stringify({ notified: this.notified }, null, 2));
+	}
+
+	has(key: string): boolean {
+		return key in this.notified;
+	}
+
+	/**
+	 * Records a fired reminder, and forgets those of events that started long enough ago.
+	 */
+	add(key: string, start: string, now: number = Date.now()): void {
+		this.notified[key] = start;
+		for (const [k, s] of Object.entries(this.notified)) {
+			if (Date.parse(s) < now - STATE_RETENTION_MS) delete this.notified[k];
+		}
+		this.save();
+	}
+}
+
+/**
+ * Identifies a reminder: the same event seen in several calendars gets one reminder, a rescheduled event a new one.
+ */
+export function reminderKey(entry: AgendaEntry): string {
+	const event = entry.event;
+	const start = event.start?.dateTime || event.start?.date || "";
+	return event.iCalUID ? `${event.iCalUID}|${start}` : `${entry.calendarId}|${event.id}|${start}`;
+}
+
+/**
+ * Reminders of timed events that have not started yet and have no reminder yet, with the time each is due
+ * (`before` milliseconds before the start). Cancelled events and events the account declined are skipped.
+ */
+export function getPendingReminders(
+	entries: AgendaEntry[],
+	now: number,
+	before: number,
+	state: DaemonState,
+): Array<{ entry: AgendaEntry; at: number }> {
+	const reminders: Array<{ entry: AgendaEntry; at: number }> = [];
+	for (const entry of entries) {
+		const event = entry.event;
+		if (!event.start?.dateTime || event.status === "cancelled") continue;
+		if (event.attendees?.some((a) => a.self && a.responseStatus === "declined")) continue;
+		const start = Date.parse(event.start.dateTime);
+		if (start <= now || state.has(reminderKey(entry))) continue;
+		reminders.push({ entry, at: start - before });
+	}
+	return reminders;
+}
+
+/**
+ * Shows a desktop notification with `notify-send` (Linux).
+ */
+export function sendDesktopNotification(title: string, body: string): Promise<void> {
+	const child = spawn("notify-send", ["--app-name=gccli", title, body], { stdio: ["ignore", "inherit", "inherit"] });
+	return waitForExit(child, "notify-send");
+}
+
+/**
+ * Runs a shell command with the reminder's agenda entry as JSON on stdin.
+ */
+export function runHook(command: string, entry: AgendaEntry): Promise<void> {
+	const child = spawn(command, { shell: true, stdio: ["pipe", "inherit", "inherit"] });
+	// A hook that does not read its input must not fail the reminder
+	child.stdin!.on("error", () => {});
+	child.stdin!.end(JSON.stringify(entry));
+	return waitForExit(child, command);
+}
+
+function waitForExit(child: ChildProcess, name: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		child.on("error", (e) => reject(new Error(`${name}: ${e.message}`)));
+		child.on("close", (code) => {
+			if (code === 0) resolve();
+			else reject(new Error(`${name} exited with code ${code}`));
+		});
+	});
+}
@@ -0,0 +1,337 @@
+const WEEKDAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const DURATION_UNITS: Record<string, number> = {
+	w: 7 * 24 * 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	h: 60 * 60 * 1000,
+	m: 60 * 1000,
+	s: 1000,
+};
+
+const TIME_PATTERN = "(?:\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)?|noon|midnight)";
+
+export interface ResolvedDate {
+	/** The resolved instant */
+	instant: Date;
+	/** Calendar date (YYYY-MM-DD) in the resolution time zone */
+	date: string;
+	/** True if the expression named a day without a time of day */
+	dateOnly: boolean;
+}
+
+export interface DateParseOptions {
+	/** IANA time zone the expression is resolved in */
+	timeZone: string;
+	/** Reference for relative expressions like `+2h` (default: now) */
+	base?: Date;
+	/** Reference for `now`, `today`, weekdays (default: current time) */
+	now?: Date;
+}
+
+interface ZonedParts {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	weekday: number;
+}
+
+export function getSystemTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function assertTimeZone(timeZone: string): void {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+	} catch {
+		throw new Error(`Invalid time zone: ${timeZone}`);
+	}
+}
+
+/**
+ * Parses a duration like `45m`, `2h`, `1h30m`, `1.5h`, `3d` or `1w` into milliseconds. Zero is rejected.
+ */
+export function parseDuration(input: string): number {
+	const text = input.trim().toLowerCase().replace(/\s+/g, "");
+	const regex = /(\d+(?:\.\d+)?)([wdhms])/g;
+	let total = 0;
+	let consumed = 0;
+	for (const match of text.matchAll(regex)) {
+		if (match.index !== consumed) break;
+		total += Number(match[1]) * DURATION_UNITS[match[2]];
+		consumed += match[0].length;
+	}
+	if (consumed === 0 || consumed !== text.length) {
+		throw new Error(`Invalid duration: ${input} (e.g. 45m, 2h, 1h30m, 3d)`);
+	}
+	if (total <= 0) throw new Error(`Invalid duration: ${input} (must be longer than zero)`);
+	return total;
+}
+
+/**
+ * Resolves a date expression to an absolute time. Supported forms:
+ * - ISO 8601 (`2024-01-15`, `2024-01-15T10:00:00`, `2024-01-15T10:00:00Z`); values without offset are in `timeZone`
+ * - `now`, `today`, `tomorrow`, `yesterday`
+ * - weekdays: `monday` (today or the next one), `next monday` (strictly after today), `last monday`
+ * - a day followed by a time: `tomorrow 14:00`, `friday at 9am`, `2024-01-15 10:30pm`, or a time alone (today)
+ * - offsets from `base`: `+2h`, `-30m`, `+1d`
+ */
+export function parseDateExpression(input: string, options: DateParseOptions): ResolvedDate {
+	const { timeZone } = options;
+	const now = options.now ?? new Date();
+	const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+	if (!text) throw new Error("Empty date expression");
+
+	// Absolute instant with explicit offset
+	if (/^\d{4}-\d{2}-\d{2}t\d{2}:\d{2}(:\d{2}(\.\d+)?)?(z|[+-]\d{2}:?\d{2})$/.test(text)) {
+		return fromInstant(new Date(input.trim()), timeZone);
+	}
+
+	if (text === "now") return fromInstant(now, timeZone);
+
+	const offset = text.match(/^([+-])\s*(\S+)$/);
+	if (offset) {
+		const ms = parseDuration(offset[2]);
+		const base = options.base ?? now;
+		return fromInstant(new Date(base.getTime() + (offset[1] === "-" ? -ms : ms)), timeZone);
+	}
+
+	// Floating ISO date-time (resolved in the time zone)
+	const floating = text.match(/^(\d{4})-(\d{2})-(\d{2})[t ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+	if (floating) {
+		const [, y, m, d, h, mi, s] = floating.map(Number);
+		if (!existingDay(y, m, d) || h > 23 || mi > 59 || s > 59) throw new Error(`Invalid date: ${input}`);
+		return fromWallTime({ year: y, month: m, day: d }, h, mi, s || 0, timeZone);
+	}
+
+	const tokens = text.replace(/ at /g, " ").split(" ");
+	let dayTokens = tokens;
+	let time: { hour: number; minute: number } | undefined;
+
+	// A trailing time, possibly split as "9 am"
+	for (const count of [2, 1]) {
+		if (tokens.length < count) continue;
+		const candidate = tokens.slice(-count).join(" ");
+		const parsed = parseTimeOfDay(candidate);
+		if (parsed) {
+			time = parsed;
+			dayTokens = tokens.slice(0, -count);
+			break;
+		}
+	}
+
+	const today = getZonedParts(now, timeZone);
+	const day = dayTokens.length === 0 ? today : parseDay(dayTokens.join(" "), today);
+	if (!day) {
+		throw new Error(
+			`Cannot parse date: ${input} (try ISO 8601, "today", "tomorrow 14:00", "next monday 9am" or "+2h")`,
+		);
+	}
+
+	if (!time) {
+		const resolved = fromWallTime(day, 0, 0, 0, timeZone);
+		return { ...resolved, dateOnly: true };
+	}
+	return fromWallTime(day, time.hour, time.minute, 0, timeZone);
+}
+
+/**
+ * Resolves an expression that may be a time range on one day, like `friday 9am-10:30am` or `tomorrow 14:00-15:00`.
+ * Returns no end for plain expressions.
+ */
+export function parseDateRange(input: string, options: DateParseOptions): { start: ResolvedDate; end?: ResolvedDate } {
+	const range = input.trim().match(new RegExp(`^(?:(.*)\\s+)?(${TIME_PATTERN})\\s*-\\s*(${TIME_PATTERN})$`, "i"));
+	if (!range) {
+		return { start: parseDateExpression(input, options) };
+	}
+
+	const dayPart = range[1] ?? "";
+	let startTime = range[2].trim();
+	const endTime = range[3].trim();
+	// "9-10:30am": the start inherits the end's am/pm if that keeps it before the end
+	const endMeridiem = endTime.match(/(am|pm)$/i)?.[1];
+	if (endMeridiem && !/(am|pm|noon|midnight)$/i.test(startTime)) {
+		const withMeridiem = `${startTime}${endMeridiem}`;
+		const a = parseTimeOfDay(withMeridiem);
+		const b = parseTimeOfDay(endTime);
+		if (a && b && a.hour * 60 + a.minute < b.hour * 60 + b.minute) startTime = withMeridiem;
+	}
+
+	const start = parseDateExpression(`${dayPart} ${startTime}`, options);
+	const end = parseDateExpression(`${start.date} ${endTime}`, options);
+	if (end.instant <= start.instant) {
+		throw new Error(`Invalid range: ${input} (end must be after start)`);
+	}
+	return { start, end };
+}
+
+/**
+ * Formats an instant as ISO 8601 with the UTC offset of the time zone, e.g. `2024-01-15T10:00:00+01:00`.
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+	const p = getZonedParts(date, timeZone);
+	const offset = getTimeZoneOffset(date, timeZone);
+	const sign = offset < 0 ? "-" : "+";
+	const abs = Math.abs(offset);
+	return `${formatDate(p)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Adds whole days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+	const d = new Date(`${date}T00:00:00Z`);
+	d.setUTCDate(d.getUTCDate() + days);
+	return d.toISOString().slice(0, 10);
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		hourCycle: "h23",
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		second: "2-digit",
+		weekday: "long",
+	}).formatToParts(date);
+	const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+	return {
+		year: Number(get("year")),
+		month: Number(get("month")),
+		day: Number(get("day")),
+		hour: Number(get("hour")),
+		minute: Number(get("minute")),
+		second: Number(get("second")),
+		weekday: WEEKDAY_NAMES.indexOf(get("weekday").toLowerCase()),
+	};
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in minutes.
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+	const p = getZonedParts(date, timeZone);
+	const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+	return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Converts a wall-clock time in the time zone to an instant. Like Temporal's "compatible" disambiguation, a time
+ * skipped by a DST change is moved forward by the length of the gap, and a repeated time resolves to the earlier
+ * instant.
+ */
+export function zonedTimeToUtc(
+	day: { year: number; month: number; day: number },
+	hour: number,
+	minute: number,
+	second: number,
+	timeZone: string,
+): Date {
+	const wall = Date.UTC(day.year, day.month - 1, day.day, hour, minute, second);
+	const dayMs = 24 * 60 * 60 * 1000;
+	// The offsets before and after a transition near the time, each giving a candidate instant
+	const before = getTimeZoneOffset(new Date(wall - dayMs), timeZone);
+	const after = getTimeZoneOffset(new Date(wall + dayMs), timeZone);
+	const valid = [before, after]
+		.map((offset) => wall - offset * 60000)
+		.filter((instant) => instant === wall - getTimeZoneOffset(new Date(instant), timeZone) * 60000);
+	// No valid instant means the time is in a gap: the offset before it moves the time forward
+	return new Date(valid.length > 0 ? Math.min(...valid) : wall - before * 60000);
+}
+
+function fromInstant(instant: Date, timeZone: string): ResolvedDate {
+	if (Number.isNaN(instant.getTime())) throw new Error("Invalid date");
+	return { instant, date: formatDate(getZonedParts(instant, timeZone)), dateOnly: false };
+}
+
+function fromWallTime(
+	day: { year: number; month: number; day: number },
+	hour: number,
+	minute: number,
+	second: number,
+	timeZone: string,
+): ResolvedDate {
+	return { instant: zonedTimeToUtc(day, hour, minute, second, timeZone), date: formatDate(day), dateOnly: false };
+}
+
+function parseDay(text: string, today: ZonedParts): { year: number; month: number; day: number } | undefined {
+	const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (iso) {
+		const day = existingDay(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+		if (!day) throw new Error(`Invalid date: ${text}`);
+		return day;
+	}
+
+	const shift = (days: number) => {
+		const d = new Date(Date.UTC(today.year, today.month - 1, today.day + days));
+		return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+	};
+
+	if (text === "today") return shift(0);
+	if (text === "tomorrow") return shift(1);
+	if (text === "yesterday") return shift(-1);
+
+	const weekday = text.match(/^(?:(next|last|this) )?([a-z]+)$/);
+	if (weekday) {
+		const index = WEEKDAY_NAMES.findIndex((name) => weekday[2].length >= 3 && name.startsWith(weekday[2]));
+		if (index === -1) return undefined;
+		const ahead = (index - today.weekday + 7) % 7;
+		if (weekday[1] === "next") return shift(ahead === 0 ? 7 : ahead);
+		if (weekday[1] === "last") {
+			const behind = (today.weekday - index + 7) % 7;
+			return shift(-(behind === 0 ? 7 : behind));
+		}
+		return shift(ahead);
+	}
+	return undefined;
+}
+
+/**
+ * The day, unless the calendar has no such day (e.g. 2024-02-30 or 2024-13-45, which Date would roll over).
+ */
+function existingDay(
+	year: number,
+	month: number,
+	day: number,
+): { year: number; month: number; day: number } | undefined {
+	const date = new Date(Date.UTC(year, month - 1, day));
+	if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day)
+		return undefined;
+	return { year, month, day };
+}
+
+function parseTimeOfDay(text: string): { hour: number; minute: number } | undefined {
+	const value = text.trim().toLowerCase();
+	if (value === "noon") return { hour: 12, minute: 0 };
+	if (value === "midnight") return { hour: 0, minute: 0 };
+
+	const match = value.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+	if (!match) return undefined;
+	// A bare number is only a time with am/pm ("9am"), otherwise "9" could be anything
+	if (!match[2] && !match[3]) return undefined;
+
+	let hour = Number(match[1]);
+	const minute = match[2] ? Number(match[2]) : 0;
+	if (minute > 59) return undefined;
+	if (match[3]) {
+		if (hour < 1 || hour > 12) return undefined;
+		if (match[3] === "am" && hour === 12) hour = 0;
+		if (match[3] === "pm" && hour !== 12) hour += 12;
+	} else if (hour > 23) {
+		return undefined;
+	}
+	return { hour, minute };
+}
+
+function formatDate(p: { year: number; month: number; day: number }): string {
+	return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+function pad(n: number): string {
+	return String(n).padStart(2, "0");
+}
@@ -0,0 +1,128 @@
+import type { CalendarAccount } from "./types.js";
+
+/**
+ * Base class for classified API errors. `exitCode` is the process exit code the CLI uses for the error,
+ * `type` identifies the class in JSON error output.
+ */
+export class GccliError extends Error {
+	readonly type: string = "error";
+	readonly exitCode: number = 1;
+	status?: number;
+	reason?: string;
+
+	constructor(message: string, options: { status?: number; reason?: string; cause?: unknown } = {}) {
+		super(message, { cause: options.cause });
+		this.name = new.target.name;
+		this.status = options.status;
+		this.reason = options.reason;
+	}
+}
+
+/** The account's authorization expired or was revoked (401, invalid_grant) */
+export class AuthError extends GccliError {
+	override readonly type = "auth";
+	override readonly exitCode = 3;
+}
+
+/** The calendar or event does not exist, or was deleted (404, 410) */
+export class NotFoundError extends GccliError {
+	override readonly type = "not_found";
+	override readonly exitCode = 4;
+}
+
+/** The account lacks access to the calendar or event (403) */
+export class PermissionError extends GccliError {
+	override readonly type = "permission";
+	override readonly exitCode = 5;
+}
+
+/** Rate limit or quota exceeded, after retries were exhausted (429, 403 rateLimitExceeded and friends) */
+export class QuotaError extends GccliError {
+	override readonly type = "quota";
+	override readonly exitCode = 6;
+}
+
+/** The resource was modified concurrently or already exists (409, 412) */
+export class ConflictError extends GccliError {
+	override readonly type = "conflict";
+	override readonly exitCode = 7;
+}
+
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded", "quotaExceeded", "dailyLimitExceeded"];
+
+const NETWORK_ERROR_CODES = ["ENOTFOUND", "EAI_AGAIN", "ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "ENETUNREACH"];
+
+interface ApiErrorLike {
+	status?: unknown;
+	code?: unknown;
+	reason?: unknown;
+	errors?: Array<{ reason?: string }>;
+	response?: { status?: number; data?: { error?: unknown } };
+}
+
+/**
+ * HTTP status and API error reason of a googleapis error (GaxiosError), if any.
+ */
+export function getApiErrorInfo(e: unknown): { status?: number; reason?: string } {
+	if (!e || typeof e !== "object") return {};
+	const err = e as ApiErrorLike;
+	const status =
+		typeof err.status === "number"
+			? err.status
+			: typeof err.code === "number"
+				? err.code
+				: typeof err.response?.status === "number"
+					? err.response.status
+					: undefined;
+	// Token refresh failures carry an OAuth error code (e.g. invalid_grant) instead of an API reason
+	const oauthError = typeof err.response?.data?.error === "string" ? err.response.data.error : undefined;
+	const reason = typeof err.reason === "string" ? err.reason : err.errors?.[0]?.reason;
+	return { status, reason: reason ?? oauthError };
+}
+
+/**
+ * Whether an error means the API could not be reached (as opposed to an error response).
+ */
+export function isNetworkError(e: unknown): boolean {
+	const code = (e as { code?: unknown } | null)?.code;
+	return typeof code === "string" && NETWORK_ERROR_CODES.includes(code);
+}
+
+export function isRateLimitError(e: unknown): boolean {
+	const { status, reason } = getApiErrorInfo(e);
+	return status === 429 || (status === 403 && reason !== undefined && RATE_LIMIT_REASONS.includes(reason));
+}
+
+/**
+ * Converts a googleapis error into the matching typed error. Other errors (and API errors without a
+ * matching class) are returned unchanged. `account` (or just its email) is used for the re-add hint of auth errors.
+ */
+export function classifyError(e: unknown, account?: CalendarAccount | string): unknown {
+	if (e instanceof GccliError || !(e instanceof Error)) return e;
+	const { status, reason } = getApiErrorInfo(e);
+	const options = { status, reason, cause: e };
+	if (status === 401 || reason === "invalid_grant") {
+		const hint = account ? `, re-add the account: ${getReAddCommand(account)}` : "";
+		return new AuthError(`Authorization expired or revoked (${e.message})${hint}`, options);
+	}
+	// Service accounts impersonating a user without domain-wide delegation for the calendar scope
+	if (reason === "unauthorized_client") {
+		return new AuthError(
+			`Service account not authorized (${e.message}), grant it domain-wide delegation for https://www.googleapis.com/auth/calendar`,
+			options,
+		);
+	}
+	if (isRateLimitError(e)) return new QuotaError(e.message, options);
+	if (status === 403) return new PermissionError(e.message, options);
+	if (status === 404 || status === 410) return new NotFoundError(e.message, options);
+	if (status === 409 || status === 412) return new ConflictError(e.message, options);
+	return e;
+}
+
+function getReAddCommand(account: CalendarAccount | string): string {
+	if (typeof account === "string") return `gccli accounts remove ${account} && gccli accounts add ${account}`;
+	const remove = `gccli accounts remove ${account.email}`;
+	if (account.authType !== "service") return `${remove} && gccli accounts add ${account.email}`;
+	const subject = account.serviceAccount.subject ? ` --subject ${account.serviceAccount.subject}` : "";
+	return `${remove} && gccli accounts add-service ${account.email} --key <sa.json>${subject}`;
+}
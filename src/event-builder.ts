@@ -0,0 +1,197 @@
+import type { NewEvent } from "./calendar-service.js";
+import { addDays, parseDuration } from "./date-parser.js";
+import {
+	type Reminder,
+	type ReminderMethod,
+	type ShowAs,
+	type Visibility,
+	parseColor,
+	parseReminder,
+} from "./event-options.js";
+import { type RepeatOptions, buildRRule } from "./recurrence.js";
+
+/**
+ * Builds the `NewEvent` taken by `CalendarService.createEvent`, e.g.
+ *
+ * ```ts
+ * const event = new EventBuilder("Standup").start(new Date("2024-01-15T09:00:00Z")).duration("15m")
+ *   .attendees("bob@example.com").repeat({ frequency: "weekly", byDay: ["MO", "WE"] }).build();
+ * ```
+ *
+ * Values are validated as they are set; `build` throws if summary, start or end are missing.
+ */
+export class EventBuilder {
+	private event: Partial<NewEvent> = {};
+	private durationMs?: number;
+	private allDayCount?: number;
+	private repeatOptions?: RepeatOptions;
+
+	constructor(summary?: string) {
+		if (summary !== undefined) this.event.summary = summary;
+	}
+
+	summary(summary: string): this {
+		this.event.summary = summary;
+		return this;
+	}
+
+	description(description: string): this {
+		this.event.description = description;
+		return this;
+	}
+
+	location(location: string): this {
+		this.event.location = location;
+		return this;
+	}
+
+	/**
+	 * Start of a timed event, as a Date or ISO 8601 string.
+	 */
+	start(start: Date | string): this {
+		this.event.start = toIso(start, "start");
+		this.event.allDay = false;
+		return this;
+	}
+
+	/**
+	 * End of a timed event. Use either `end` or `duration`.
+	 */
+	end(end: Date | string): this {
+		this.event.end = toIso(end, "end");
+		this.durationMs = undefined;
+		return this;
+	}
+
+	/**
+	 * Length of a timed event, in milliseconds or as `1h30m`, `45m` etc.
+	 */
+	duration(duration: number | string): this {
+		const ms = typeof duration === "number" ? duration : parseDuration(duration);
+		if (!(ms > 0)) throw new Error(`Invalid duration: ${duration}`);
+		this.durationMs = ms;
+		this.event.end = undefined;
+		return this;
+	}
+
+	/**
+	 * Makes the event an all-day event on `date` (YYYY-MM-DD), lasting `days` days.
+	 */
+	allDay(date: string, days = 1): this {
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+		if (!Number.isInteger(days) || days < 1) throw new Error(`Invalid number of days: ${days}`);
+		this.event.start = date;
+		this.event.allDay = true;
+		this.allDayCount = days;
+		return this;
+	}
+
+	/**
+	 * IANA time zone of the event (default: the system time zone).
+	 */
+	timeZone(timeZone: string): this {
+		this.event.timeZone = timeZone;
+		return this;
+	}
+
+	/**
+	 * Adds attendees by email.
+	 */
+	attendees(...emails: string[]): this {
+		this.event.attendees = [...(this.event.attendees ?? []), ...emails];
+		return this;
+	}
+
+	/**
+	 * Adds a reminder, as `popup:10m` or a method and minutes before the start.
+	 */
+	reminder(spec: string): this;
+	reminder(method: ReminderMethod, minutes: number): this;
+	reminder(specOrMethod: string, minutes?: number): this {
+		const reminder: Reminder =
+			minutes === undefined ? parseReminder(specOrMethod) : parseReminder(`${specOrMethod}:${minutes}`);
+		this.event.reminders = [...(this.event.reminders ?? []), reminder];
+		return this;
+	}
+
+	/**
+	 * Sets the color by name (e.g. `tomato`) or ID (1-11).
+	 */
+	color(color: string): this {
+		this.event.colorId = parseColor(color);
+		return this;
+	}
+
+	visibility(visibility: Visibility): this {
+		this.event.visibility = visibility;
+		return this;
+	}
+
+	showAs(showAs: ShowAs): this {
+		this.event.showAs = showAs;
+		return this;
+	}
+
+	/**
+	 * Requests a Google Meet link.
+	 */
+	meet(): this {
+		this.event.meet = true;
+		return this;
+	}
+
+	privateProperty(key: string, value: string): this {
+		this.event.privateProperties = { ...this.event.privateProperties, [key]: value };
+		return this;
+	}
+
+	/**
+	 * Makes the event recurring. Use either `repeat` or `recurrence`.
+	 */
+	repeat(options: RepeatOptions): this {
+		this.repeatOptions = options;
+		this.event.recurrence = undefined;
+		return this;
+	}
+
+	/**
+	 * Sets raw RRULE/EXDATE/RDATE lines.
+	 */
+	recurrence(...lines: string[]): this {
+		this.event.recurrence = lines;
+		this.repeatOptions = undefined;
+		return this;
+	}
+
+	build(): NewEvent {
+		const { summary, start } = this.event;
+		if (!summary) throw new Error("Event has no summary");
+		if (!start) throw new Error("Event has no start");
+		let end = this.event.end;
+		if (this.event.allDay) {
+			end = addDays(start, this.allDayCount ?? 1);
+		} else if (this.durationMs !== undefined) {
+			end = addDuration(start, this.durationMs);
+		}
+		if (!end) throw new Error("Event has no end or duration");
+		if (!this.event.allDay && Date.parse(end) < Date.parse(start)) throw new Error("Event ends before it starts");
+		const recurrence = this.repeatOptions
+			? [buildRRule(this.repeatOptions, this.event.allDay, this.event.timeZone)]
+			: this.event.recurrence;
+		return { ...this.event, summary, start, end, recurrence };
+	}
+}
+
+/**
+ * Adds `ms` to a start time. A start without UTC offset is a wall time in the event's time zone, so the end is too.
+ */
+function addDuration(start: string, ms: number): string {
+	if (/(Z|[+-]\d{2}:?\d{2})$/i.test(start)) return new Date(Date.parse(start) + ms).toISOString();
+	return new Date(Date.parse(`${start}Z`) + ms).toISOString().slice(0, 19);
+}
+
+function toIso(value: Date | string, name: string): string {
+	const date = value instanceof Date ? value : new Date(value);
+	if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${name}: ${value}`);
+	return value instanceof Date ? value.toISOString() : value;
+}
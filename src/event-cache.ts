@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { calendar_v3 } from "googleapis";
+import { ensurePrivateDir, writeFileAtomic } from "./fs-utils.js";
+
+type CalendarEvent = calendar_v3.Schema$Event;
+type Calendar = calendar_v3.Schema$CalendarListEntry;
+
+/**
+ * The cached events of one calendar, with the sync token to continue from.
+ */
+export interface CachedCalendar {
+	calendarId: string;
+	syncToken?: string;
+	/** ISO timestamp of the last successful sync */
+	syncedAt: string;
+	events: CalendarEvent[];
+}
+
+/**
+ * Local copy of events per account and calendar, kept up to date with incremental syncs.
+ * Layout: `<dir>/<account>/calendars.json` (calendar list) and `<dir>/<account>/<calendarId>.json`.
+ */
+export class EventCache {
+	constructor(private dir: string) {}
+
+	load(account: string, calendarId: string): CachedCalendar | null {
+		return this.readJson(this.calendarFile(account, calendarId));
+	}
+
+	save(account: string, data: CachedCalendar): void {
+		ensurePrivateDir(this.accountDir(account));
+		writeFileAtomic(this.calendarFile(account, data.calendarId), JSON.stringify(data));
+	}
+
+	loadCalendarList(account: string): Calendar[] | null {
+		return this.readJson(path.join(this.accountDir(account), "calendars.json"));
+	}
+
+	saveCalendarList(account: string, calendars: Calendar[]): void {
+		ensurePrivateDir(this.accountDir(account));
+		writeFileAtomic(path.join(this.accountDir(account), "calendars.json"), JSON.stringify(calendars));
+	}
+
+	/**
+	 * Removes all cached data of an account.
+	 */
+	remove(account: string): void {
+		fs.rmSync(this.accountDir(account), { recursive: true, force: true });
+	}
+
+	private accountDir(account: string): string {
+		return path.join(this.dir, encodeURIComponent(account));
+	}
+
+	private calendarFile(account: string, calendarId: string): string {
+		// Calendar IDs are email-like, but nothing prevents characters that are invalid in file names
+		return path.join(this.accountDir(account), `${encodeURIComponent(calendarId)}.json`);
+	}
+
+	private readJson<T>(file: string): T | null {
+		if (!fs.existsSync(file)) return null;
+		try {
+			return JSON.parse(fs.readFileSync(file, "utf8"));
+		} catch {
+			// A corrupt cache is treated as missing and rebuilt on the next sync
+			return null;
+		}
+	}
+}
@@ -0,0 +1,222 @@
+import * as crypto from "crypto";
+import type { calendar_v3 } from "googleapis";
+import { parseDuration } from "./date-parser.js";
+
+type CalendarEvent = calendar_v3.Schema$Event;
+
+export type ReminderMethod = "popup" | "email";
+export type Visibility = "default" | "public" | "private" | "confidential";
+export type ShowAs = "busy" | "free";
+export type EventType = "default" | "birthday" | "focusTime" | "fromGmail" | "outOfOffice" | "workingLocation";
+
+/** Which invitations out-of-office and focus time events decline: all conflicting ones, only new ones, or none */
+export type AutoDecline = "all" | "new" | "none";
+export type ChatStatus = "available" | "doNotDisturb";
+
+/**
+ * Where the user works, for working location events. Office `buildingId`, `floorId` and `deskId` refer to the
+ * organization's resources; `label` is shown to others.
+ */
+export type WorkingLocation =
+	| { type: "home" }
+	| { type: "office"; label?: string; buildingId?: string; floorId?: string; deskId?: string }
+	| { type: "custom"; label: string };
+
+export const VISIBILITIES: Visibility[] = ["default", "public", "private", "confidential"];
+export const SHOW_AS: ShowAs[] = ["busy", "free"];
+export const EVENT_TYPES: EventType[] = [
+	"default",
+	"birthday",
+	"focusTime",
+	"fromGmail",
+	"outOfOffice",
+	"workingLocation",
+];
+export const AUTO_DECLINE: AutoDecline[] = ["all", "new", "none"];
+
+const AUTO_DECLINE_MODES: Record<AutoDecline, string> = {
+	all: "declineAllConflictingInvitations",
+	new: "declineOnlyNewConflictingInvitations",
+	none: "declineNone",
+};
+
+/**
+ * Google Calendar's event colors by name (see `colors.get`), ID 1 to 11.
+ */
+export const EVENT_COLORS: Record<string, string> = {
+	lavender: "1",
+	sage: "2",
+	grape: "3",
+	flamingo: "4",
+	banana: "5",
+	tangerine: "6",
+	peacock: "7",
+	graphite: "8",
+	blueberry: "9",
+	basil: "10",
+	tomato: "11",
+};
+
+/** The API accepts at most 5 reminder overrides per event */
+const MAX_REMINDERS = 5;
+
+export interface Reminder {
+	method: ReminderMethod;
+	minutes: number;
+}
+
+/**
+ * Event settings beyond title, time and attendees. Undefined fields are left unchanged on update.
+ */
+export interface EventProperties {
+	/** Reminder overrides. An empty list means no reminders. */
+	reminders?: Reminder[];
+	/** Use the calendar's default reminders (only if no `reminders` are given) */
+	useDefaultReminders?: boolean;
+	colorId?: string;
+	visibility?: Visibility;
+	showAs?: ShowAs;
+	guestsCanModify?: boolean;
+	guestsCanInviteOthers?: boolean;
+	guestsCanSeeOtherGuests?: boolean;
+	/** Private extended properties to set, merged with existing ones. An empty value removes the property. */
+	privateProperties?: Record<string, string>;
+	/** Request a Google Meet link, unless the event already has a conference */
+	meet?: boolean;
+}
+
+/**
+ * Parses `popup:10m`, `email:1d` or `popup:30` (minutes) into a reminder.
+ */
+export function parseReminder(spec: string): Reminder {
+	const match = spec.match(/^(popup|email):(.+)$/);
+	if (!match) throw new Error(`Invalid reminder: ${spec} (expected popup:<offset> or email:<offset>, e.g. popup:10m)`);
+	const minutes = /^\d+$/.test(match[2]) ? Number(match[2]) : parseDuration(match[2]) / 60000;
+	if (!Number.isInteger(minutes) || minutes < 0 || minutes > 40320) {
+		throw new Error(`Invalid reminder offset: ${match[2]} (whole minutes, at most 4 weeks)`);
+	}
+	return { method: match[1] as ReminderMethod, minutes };
+}
+
+/**
+ * Resolves a color name (or ID 1-11) to its color ID.
+ */
+export function parseColor(color: string): string {
+	const id = EVENT_COLORS[color.toLowerCase()] ?? (Object.values(EVENT_COLORS).includes(color) ? color : undefined);
+	if (!id) throw new Error(`Invalid color: ${color} (expected ${Object.keys(EVENT_COLORS).join(", ")} or 1-11)`);
+	return id;
+}
+
+export function colorName(colorId: string): string | undefined {
+	return Object.entries(EVENT_COLORS).find(([, id]) => id === colorId)?.[0];
+}
+
+/**
+ * Applies the given properties to an event body, keeping everything that is not set.
+ */
+export function applyEventProperties(event: CalendarEvent, properties: EventProperties): CalendarEvent {
+	const result: CalendarEvent = { ...event };
+	if (properties.reminders !== undefined) {
+		if (properties.reminders.length > MAX_REMINDERS) {
+			throw new Error(`At most ${MAX_REMINDERS} reminders are allowed`);
+		}
+		result.reminders = { useDefault: false, overrides: properties.reminders };
+	} else if (properties.useDefaultReminders !== undefined) {
+		result.reminders = properties.useDefaultReminders ? { useDefault: true } : { useDefault: false, overrides: [] };
+	}
+	if (properties.colorId !== undefined) result.colorId = properties.colorId;
+	if (properties.visibility !== undefined) result.visibility = properties.visibility;
+	if (properties.showAs !== undefined) result.transparency = properties.showAs === "free" ? "transparent" : "opaque";
+	if (properties.guestsCanModify !== undefined) result.guestsCanModify = properties.guestsCanModify;
+	if (properties.guestsCanInviteOthers !== undefined) result.guestsCanInviteOthers = properties.guestsCanInviteOthers;
+	if (properties.guestsCanSeeOtherGuests !== undefined) {
+		result.guestsCanSeeOtherGuests = properties.guestsCanSeeOtherGuests;
+	}
+	if (properties.privateProperties !== undefined) {
+		const merged = { ...(event.extendedProperties?.private || {}) };
+		for (const [key, value] of Object.entries(properties.privateProperties)) {
+			if (value === "") delete merged[key];
+			else merged[key] = value;
+		}
+		result.extendedProperties = { ...event.extendedProperties, private: merged };
+	}
+	if (properties.meet && !event.conferenceData) {
+		result.conferenceData = {
+			createRequest: { requestId: crypto.randomUUID(), conferenceSolutionKey: { type: "hangoutsMeet" } },
+		};
+	}
+	return result;
+}
+
+/**
+ * The video call link of an event (Google Meet or a third-party conference), if any.
+ */
+export function getConferenceLink(event: CalendarEvent): string | undefined {
+	const video = event.conferenceData?.entryPoints?.find((e) => e.entryPointType === "video");
+	return video?.uri || event.hangoutLink || undefined;
+}
+
+export function toAutoDeclineMode(autoDecline: AutoDecline): string {
+	return AUTO_DECLINE_MODES[autoDecline];
+}
+
+export function fromAutoDeclineMode(mode: string | null | undefined): AutoDecline | undefined {
+	return (Object.keys(AUTO_DECLINE_MODES) as AutoDecline[]).find((key) => AUTO_DECLINE_MODES[key] === mode);
+}
+
+export function toWorkingLocationProperties(
+	location: WorkingLocation,
+): calendar_v3.Schema$EventWorkingLocationProperties {
+	switch (location.type) {
+		case "home":
+			return { type: "homeOffice", homeOffice: {} };
+		case "office": {
+			const { type, ...officeLocation } = location;
+			return { type: "officeLocation", officeLocation };
+		}
+		case "custom":
+			return { type: "customLocation", customLocation: { label: location.label } };
+	}
+}
+
+/**
+ * Short description of a working location event's location, e.g. `home`, `office (Building 4)` or the custom label.
+ */
+export function describeWorkingLocation(event: CalendarEvent): string {
+	const properties = event.workingLocationProperties;
+	switch (properties?.type) {
+		case "homeOffice":
+			return "home";
+		case "officeLocation": {
+			const office = properties.officeLocation;
+			const details = [office?.label || office?.buildingId, office?.floorId && `floor ${office.floorId}`];
+			if (office?.deskId) details.push(`desk ${office.deskId}`);
+			const text = details.filter(Boolean).join(", ");
+			return text ? `office (${text})` : "office";
+		}
+		case "customLocation":
+			return properties.customLocation?.label || "custom";
+		default:
+			return "unknown";
+	}
+}
+
+/**
+ * Label of events that are not regular events, e.g. `out of office` or `working location: home`.
+ */
+export function eventTypeLabel(event: CalendarEvent): string | undefined {
+	switch (event.eventType) {
+		case "outOfOffice":
+			return "out of office";
+		case "focusTime":
+			return "focus time";
+		case "workingLocation":
+			return `working location: ${describeWorkingLocation(event)}`;
+		case "birthday":
+			return "birthday";
+		case "fromGmail":
+			return "from Gmail";
+		default:
+			return undefined;
+	}
+}
@@ -0,0 +1,998 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { calendar_v3 } from "googleapis";
+import type { BatchRequest, BatchResponse } from "./batch.js";
+import type { CalendarBackend } from "./calendar-service.js";
+import { formatInTimeZone, zonedTimeToUtc } from "./date-parser.js";
+import { writeFileAtomic } from "./fs-utils.js";
+import { parseRRule } from "./recurrence.js";
+
+type CalendarEvent = calendar_v3.Schema$Event;
+type Calendar = calendar_v3.Schema$Calendar;
+type CalendarListEntry = calendar_v3.Schema$CalendarListEntry;
+type AclRule = calendar_v3.Schema$AclRule;
+type EventDateTime = calendar_v3.Schema$EventDateTime;
+
+/**
+ * Everything the fake backend knows, as stored in its state file.
+ */
+export interface FakeBackendState {
+	/** Number of the last change, used as sync token */
+	sequence: number;
+	/** Calendars by ID. An account's primary calendar has the account's email as ID. */
+	calendars: Record<string, FakeCalendar>;
+	/** Calendar list of each account */
+	calendarLists: Record<string, CalendarListEntry[]>;
+}
+
+export interface FakeCalendar {
+	calendar: Calendar;
+	acl: AclRule[];
+	/** Events including deleted ones (status `cancelled`), with the sequence number of their last change */
+	events: Array<{ sequence: number; event: CalendarEvent }>;
+}
+
+/** Instances generated per series at most, for series without end and queries without `timeMax` */
+const MAX_INSTANCES = 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/**
+ * An offline stand-in for the Calendar API, keeping calendars, events and ACLs in memory or in a JSON file.
+ * It implements the calls gccli makes, with paging, sync tokens, recurring event expansion and batch requests,
+ * and answers errors like the API does. Accounts are created on first use, with an empty primary calendar.
+ * Access rights are only checked when subscribing to a calendar.
+ */
+export class FakeCalendarBackend implements CalendarBackend {
+	private state: FakeBackendState = { sequence: 0, calendars: {}, calendarLists: {} };
+
+	/**
+	 * Without `file`, the state only lives as long as the backend.
+	 */
+	constructor(private file?: string) {
+		this.load();
+	}
+
+	private load(): void {
+		if (!this.file || !fs.existsSync(this.file)) return;
+		try {
+			this.state = JSON.parse(fs.readFileSync(this.file, "utf8"));
+		} catch (e) {
+			throw new Error(`Invalid fake backend file ${this.file}: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	private save(): void {
+		if (!this.file) return;
+		fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+		writeFileAtomic(this.file, JSON.stringify(this.state, null, 2));
+	}
+
+	getState(): FakeBackendState {
+		return this.state;
+	}
+
+	getClient(email: string): calendar_v3.Calendar {
+		// googleapis methods take (params, options) and resolve to a response with `data`
+		const wrap =
+			<P>(fn: (params: P) => unknown) =>
+			async (params?: P) => {
+				this.ensureAccount(email);
+				const data = fn(params ?? ({} as P));
+				this.save();
+				return { data, status: 200 };
+			};
+		const client = {
+			calendarList: {
+				list: wrap(() => this.listCalendarList(email)),
+				get: wrap((p: calendar_v3.Params$Resource$Calendarlist$Get) =>
+					this.getCalendarListEntry(email, p.calendarId!),
+				),
+				insert: wrap((p: calendar_v3.Params$Resource$Calendarlist$Insert) => this.subscribe(email, p.requestBody!)),
+				patch: wrap((p: calendar_v3.Params$Resource$Calendarlist$Patch) => {
+					const entry = this.getCalendarListEntry(email, p.calendarId!);
+					Object.assign(this.findListEntry(email, entry.id!)!, definedFields(p.requestBody ?? {}));
+					return this.getCalendarListEntry(email, entry.id!);
+				}),
+				delete: wrap((p: calendar_v3.Params$Resource$Calendarlist$Delete) =>
+					this.unsubscribe(email, p.calendarId!),
+				),
+			},
+			calendars: {
+				get: wrap(
+					(p: calendar_v3.Params$Resource$Calendars$Get) => this.getCalendar(email, p.calendarId!).calendar,
+				),
+				insert: wrap((p: calendar_v3.Params$Resource$Calendars$Insert) =>
+					this.createCalendar(email, p.requestBody!),
+				),
+				patch: wrap((p: calendar_v3.Params$Resource$Calendars$Patch) => {
+					const { calendar } = this.getCalendar(email, p.calendarId!);
+					const { summary, description, location, timeZone } = p.requestBody ?? {};
+					return Object.assign(calendar, definedFields({ summary, description, location, timeZone }));
+				}),
+				delete: wrap((p: calendar_v3.Params$Resource$Calendars$Delete) =>
+					this.deleteCalendar(email, p.calendarId!),
+				),
+				clear: wrap((p: calendar_v3.Params$Resource$Calendars$Clear) => {
+					const cal = this.getCalendar(email, p.calendarId!);
+					for (const entry of cal.events) {
+						if (entry.event.status !== "cancelled") this.touch(entry, { ...entry.event, status: "cancelled" });
+					}
+				}),
+			},
+			acl: {
+				list: wrap((p: calendar_v3.Params$Resource$Acl$List) => ({
+					kind: "calendar#acl",
+					items: this.getCalendar(email, p.calendarId!).acl,
+				})),
+				insert: wrap((p: calendar_v3.Params$Resource$Acl$Insert) =>
+					this.insertAclRule(email, p.calendarId!, p.requestBody!),
+				),
+				update: wrap((p: calendar_v3.Params$Resource$Acl$Update) => {
+					const rule = this.getAclRule(email, p.calendarId!, p.ruleId!);
+					rule.role = p.requestBody?.role;
+					return rule;
+				}),
+				delete: wrap((p: calendar_v3.Params$Resource$Acl$Delete) => {
+					const cal = this.getCalendar(email, p.calendarId!);
+					const rule = this.getAclRule(email, p.calendarId!, p.ruleId!);
+					cal.acl = cal.acl.filter((r) => r !== rule);
+				}),
+			},
+			events: {
+				list: wrap((p: calendar_v3.Params$Resource$Events$List) => this.listEvents(email, p)),
+				get: wrap((p: calendar_v3.Params$Resource$Events$Get) => this.getEvent(email, p.calendarId!, p.eventId!)),
+				instances: wrap((p: calendar_v3.Params$Resource$Events$Instances) => this.listInstances(email, p)),
+				insert: wrap((p: calendar_v3.Params$Resource$Events$Insert) =>
+					this.insertEvent(
+						email,
+						p.calendarId!,
+						resolveFloatingTimes(p.requestBody ?? {}),
+						p.conferenceDataVersion,
+					),
+				),
+				import: wrap((p: calendar_v3.Params$Resource$Events$Import) =>
+					this.importEvent(email, p.calendarId!, resolveFloatingTimes(p.requestBody ?? {})),
+				),
+				update: wrap((p: calendar_v3.Params$Resource$Events$Update) =>
+					this.updateEvent(
+						email,
+						p.calendarId!,
+						p.eventId!,
+						resolveFloatingTimes(p.requestBody ?? {}),
+						false,
+						p.conferenceDataVersion,
+					),
+				),
+				patch: wrap((p: calendar_v3.Params$Resource$Events$Patch) =>
+					this.updateEvent(
+						email,
+						p.calendarId!,
+						p.eventId!,
+						resolveFloatingTimes(p.requestBody ?? {}),
+						true,
+						p.conferenceDataVersion,
+					),
+				),
+				delete: wrap((p: calendar_v3.Params$Resource$Events$Delete) =>
+					this.deleteEvent(email, p.calendarId!, p.eventId!),
+				),
+				move: wrap((p: calendar_v3.Params$Resource$Events$Move) =>
+					this.moveEvent(email, p.calendarId!, p.eventId!, p.destination!),
+				),
+				watch: wrap((p: calendar_v3.Params$Resource$Events$Watch) => {
+					const cal = this.getCalendar(email, p.calendarId!);
+					const ttl = Number(p.requestBody?.params?.ttl ?? 7 * 24 * 60 * 60);
+					return {
+						kind: "api#channel",
+						id: p.requestBody?.id,
+						resourceId: randomId(),
+						resourceUri: `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(cal.calendar.id!)}/events`,
+						token: p.requestBody?.token,
+						expiration: String(Date.now() + ttl * 1000),
+					};
+				}),
+			},
+			channels: {
+				stop: wrap(() => undefined),
+			},
+			freebusy: {
+				query: wrap((p: calendar_v3.Params$Resource$Freebusy$Query) =>
+					this.queryFreeBusy(email, p.requestBody ?? {}),
+				),
+			},
+		};
+		return client as unknown as calendar_v3.Calendar;
+	}
+
+	/**
+	 * Executes the event requests of a batch (as built by `apply`), with a response per request like the API's
+	 * batch endpoint.
+	 */
+	async executeBatch(email: string, requests: BatchRequest[]): Promise<BatchResponse[]> {
+		const events = this.getClient(email).events;
+		const responses: BatchResponse[] = [];
+		for (const request of requests) {
+			const url = new URL(request.path, "http://localhost");
+			const match = url.pathname.match(/^\/calendar\/v3\/calendars\/([^/]+)\/events(?:\/([^/]+)(\/move)?)?$/);
+			const calendarId = match ? decodeURIComponent(match[1]) : "";
+			const eventId = match?.[2] ? decodeURIComponent(match[2]) : undefined;
+			const requestBody = request.body as CalendarEvent | undefined;
+			try {
+				let response: { data: unknown } | undefined;
+				if (!match) {
+					response = undefined;
+				} else if (request.method === "GET" && eventId) {
+					response = await events.get({ calendarId, eventId });
+				} else if (request.method === "POST" && !eventId) {
+					response = await events.insert({ calendarId, requestBody });
+				} else if (request.method === "POST" && eventId && match[3]) {
+					const destination = url.searchParams.get("destination") ?? "";
+					response = await events.move({ calendarId, eventId, destination });
+				} else if (request.method === "PUT" && eventId) {
+					response = await events.update({ calendarId, eventId, requestBody });
+				} else if (request.method === "PATCH" && eventId) {
+					response = await events.patch({ calendarId, eventId, requestBody });
+				} else if (request.method === "DELETE" && eventId) {
+					response = await events.delete({ calendarId, eventId });
+				}
+				if (!response)
+					throw apiError(400, "badRequest", `Unsupported batch request: ${request.method} ${request.path}`);
+				responses.push(
+					request.method === "DELETE" ? { status: 204 } : { status: 200, body: response.data ?? undefined },
+				);
+			} catch (e) {
+				const { status = 500, errors } = e as { status?: number; errors?: unknown };
+				const message = e instanceof Error ? e.message : String(e);
+				responses.push({ status, body: { error: { code: status, message, errors } } });
+			}
+		}
+		return responses;
+	}
+
+	private ensureAccount(email: string): void {
+		if (this.state.calendarLists[email]) return;
+		this.state.calendars[email] ??= {
+			calendar: { kind: "calendar#calendar", id: email, summary: email, timeZone: "UTC" },
+			acl: [ownerRule(email)],
+			events: [],
+		};
+		this.state.calendarLists[email] = [
+			{ kind: "calendar#calendarListEntry", id: email, accessRole: "owner", primary: true, selected: true },
+		];
+		this.state.sequence++;
+	}
+
+	private resolveCalendarId(email: string, calendarId: string): string {
+		return calendarId === "primary" ? email : calendarId;
+	}
+
+	private getCalendar(email: string, calendarId: string): FakeCalendar {
+		const cal = this.state.calendars[this.resolveCalendarId(email, calendarId)];
+		if (!cal) throw apiError(404, "notFound", "Not Found");
+		return cal;
+	}
+
+	private findListEntry(email: string, calendarId: string): CalendarListEntry | undefined {
+		const id = this.resolveCalendarId(email, calendarId);
+		return this.state.calendarLists[email].find((entry) => entry.id === id);
+	}
+
+	/**
+	 * A calendar list entry with the calendar's current settings.
+	 */
+	private getCalendarListEntry(email: string, calendarId: string): CalendarListEntry {
+		const entry = this.findListEntry(email, calendarId);
+		const cal = entry && this.state.calendars[entry.id!];
+		if (!entry || !cal) throw apiError(404, "notFound", "Not Found");
+		const { summary, description, location, timeZone } = cal.calendar;
+		return { ...entry, ...definedFields({ summary, description, location, timeZone }) };
+	}
+
+	private listCalendarList(email: string): calendar_v3.Schema$CalendarList {
+		const items = this.state.calendarLists[email]
+			.filter((entry) => this.state.calendars[entry.id!])
+			.map((entry) => this.getCalendarListEntry(email, entry.id!));
+		return { kind: "calendar#calendarList", items };
+	}
+
+	private subscribe(email: string, body: CalendarListEntry): CalendarListEntry {
+		const cal = this.getCalendar(email, body.id ?? "");
+		const role = getAccessRole(cal, email);
+		if (!role) throw apiError(404, "notFound", "Not Found");
+		if (!this.findListEntry(email, cal.calendar.id!)) {
+			const { id, ...settings } = body;
+			this.state.calendarLists[email].push({
+				kind: "calendar#calendarListEntry",
+				id: cal.calendar.id,
+				accessRole: role,
+				selected: true,
+				...definedFields(settings),
+			});
+		}
+		return this.getCalendarListEntry(email, cal.calendar.id!);
+	}
+
+	private unsubscribe(email: string, calendarId: string): void {
+		const entry = this.getCalendarListEntry(email, calendarId);
+		if (entry.primary) throw apiError(400, "cannotRemovePrimaryCalendar", "The primary calendar cannot be removed");
+		this.state.calendarLists[email] = this.state.calendarLists[email].filter((e) => e.id !== entry.id);
+	}
+
+	private createCalendar(email: string, body: Calendar): Calendar {
+		if (!body.summary) throw apiError(400, "required", "Missing title.");
+		const id = `${randomId()}@group.calendar.google.com`;
+		const { summary, description, location, timeZone } = body;
+		const calendar: Calendar = {
+			kind: "calendar#calendar",
+			id,
+			...definedFields({ summary, description, location }),
+			timeZone: timeZone ?? "UTC",
+		};
+		this.state.calendars[id] = { calendar, acl: [ownerRule(email)], events: [] };
+		this.state.calendarLists[email].push({
+			kind: "calendar#calendarListEntry",
+			id,
+			accessRole: "owner",
+			selected: true,
+		});
+		return calendar;
+	}
+
+	private deleteCalendar(email: string, calendarId: string): void {
+		const cal = this.getCalendar(email, calendarId);
+		const id = cal.calendar.id!;
+		if (this.state.calendarLists[id]) {
+			throw apiError(400, "cannotDeletePrimaryCalendar", "The primary calendar cannot be deleted, only cleared");
+		}
+		delete this.state.calendars[id];
+		for (const [account, entries] of Object.entries(this.state.calendarLists)) {
+			this.state.calendarLists[account] = entries.filter((entry) => entry.id !== id);
+		}
+	}
+
+	private getAclRule(email: string, calendarId: string, ruleId: string): AclRule {
+		const rule = this.getCalendar(email, calendarId).acl.find((r) => r.id === ruleId);
+		if (!rule) throw apiError(404, "notFound", "Not Found");
+		return rule;
+	}
+
+	private insertAclRule(email: string, calendarId: string, body: AclRule): AclRule {
+		const cal = this.getCalendar(email, calendarId);
+		const type = body.scope?.type;
+		if (!type || !body.role) throw apiError(400, "required", "Missing scope or role.");
+		const id = type === "default" ? "default" : `${type}:${body.scope?.value}`;
+		if (cal.acl.some((r) => r.id === id))
+			throw apiError(409, "duplicate", "The requested identifier already exists.");
+		const rule: AclRule = { kind: "calendar#aclRule", id, scope: body.scope, role: body.role };
+		cal.acl.push(rule);
+		return rule;
+	}
+
+	private listEvents(email: string, params: calendar_v3.Params$Resource$Events$List): calendar_v3.Schema$Events {
+		const cal = this.getCalendar(email, params.calendarId!);
+		let since: number | undefined;
+		if (params.syncToken) {
+			if (params.timeMin || params.timeMax || params.q || params.iCalUID || params.updatedMin) {
+				throw apiError(400, "invalid", "Sync token cannot be used with other filters.");
+			}
+			since = Number(params.syncToken);
+			if (!Number.isInteger(since) || since < 0 || since > this.state.sequence) {
+				throw apiError(410, "fullSyncRequired", "Sync token is no longer valid, a full sync is required.");
+			}
+		}
+
+		const changed = cal.events.filter((entry) => since === undefined || entry.sequence > since).map((e) => e.event);
+		let items = params.singleEvents ? this.expandEvents(cal, changed, params.timeMax) : changed;
+		const timeMin = params.timeMin ? Date.parse(params.timeMin) : Number.NEGATIVE_INFINITY;
+		const timeMax = params.timeMax ? Date.parse(params.timeMax) : Number.POSITIVE_INFINITY;
+		const updatedMin = params.updatedMin ? Date.parse(params.updatedMin) : Number.NEGATIVE_INFINITY;
+		const query = params.q?.toLowerCase();
+		const showDeleted = params.showDeleted || since !== undefined;
+		const hasProperties = (filters: string[] | undefined, properties: Record<string, string> | null | undefined) =>
+			(filters ?? []).every((filter) => {
+				const index = filter.indexOf("=");
+				return properties?.[filter.slice(0, index)] === filter.slice(index + 1);
+			});
+		items = items.filter((event) => {
+			if (event.status === "cancelled" && !showDeleted) return false;
+			if (params.iCalUID && event.iCalUID !== params.iCalUID) return false;
+			if (query && !eventText(event).includes(query)) return false;
+			if (Date.parse(event.updated ?? "") < updatedMin) return false;
+			if (params.eventTypes && !params.eventTypes.includes(event.eventType ?? "default")) return false;
+			if (!hasProperties(params.privateExtendedProperty, event.extendedProperties?.private)) return false;
+			if (!hasProperties(params.sharedExtendedProperty, event.extendedProperties?.shared)) return false;
+			// Deleted instances of a series may carry no times
+			if (!event.start) return true;
+			const { start, end } = getEventBounds(event, cal.calendar.timeZone!);
+			return end > timeMin && start < timeMax;
+		});
+		if (params.orderBy === "startTime") {
+			items.sort((a, b) => getEventBounds(a, "UTC").start - getEventBounds(b, "UTC").start);
+		} else if (params.orderBy === "updated") {
+			items.sort((a, b) => (a.updated ?? "").localeCompare(b.updated ?? ""));
+		}
+
+		return {
+			kind: "calendar#events",
+			summary: cal.calendar.summary,
+			timeZone: cal.calendar.timeZone,
+			...paginate(items, params.maxResults, params.pageToken, String(this.state.sequence)),
+		};
+	}
+
+	private listInstances(
+		email: string,
+		params: calendar_v3.Params$Resource$Events$Instances,
+	): calendar_v3.Schema$Events {
+		const cal = this.getCalendar(email, params.calendarId!);
+		const master = this.findEvent(cal, params.eventId!);
+		if (!master || master.event.status === "cancelled") throw apiError(404, "notFound", "Not Found");
+		const timeMin = params.timeMin ? Date.parse(params.timeMin) : Number.NEGATIVE_INFINITY;
+		const timeMax = params.timeMax ? Date.parse(params.timeMax) : Number.POSITIVE_INFINITY;
+		const items = this.expandSeries(cal, master.event, params.timeMax).filter((event) => {
+			if (event.status === "cancelled") return params.showDeleted ?? false;
+			const { start, end } = getEventBounds(event, cal.calendar.timeZone!);
+			return end > timeMin && start < timeMax;
+		});
+		return { kind: "calendar#events", ...paginate(items, params.maxResults, params.pageToken) };
+	}
+
+	/**
+	 * Replaces recurring events by their instances. Modified instances are stored as events of their own.
+	 */
+	private expandEvents(cal: FakeCalendar, events: CalendarEvent[], timeMax?: string | null): CalendarEvent[] {
+		const result = new Map<string, CalendarEvent>();
+		for (const event of events) {
+			if (event.recurrence?.length && !event.recurringEventId) {
+				for (const instance of this.expandSeries(cal, event, timeMax)) result.set(instance.id!, instance);
+			} else {
+				result.set(event.id!, event);
+			}
+		}
+		return [...result.values()];
+	}
+
+	/**
+	 * Instances of a series, including deleted ones, up to `timeMax`. A cancelled series yields cancelled instances.
+	 */
+	private expandSeries(cal: FakeCalendar, master: CalendarEvent, timeMax?: string | null): CalendarEvent[] {
+		if (!master.recurrence?.length) return [master];
+		const timeZone = master.start?.timeZone || cal.calendar.timeZone || "UTC";
+		const limit = timeMax ? Date.parse(timeMax) : Number.POSITIVE_INFINITY;
+		return getOccurrences(master, timeZone, limit).map((originalStart) => {
+			const instance = buildInstance(master, originalStart, timeZone);
+			const modified = this.findEvent(cal, instance.id!)?.event;
+			return modified && master.status !== "cancelled" ? modified : instance;
+		});
+	}
+
+	private findEvent(cal: FakeCalendar, eventId: string): { sequence: number; event: CalendarEvent } | undefined {
+		return cal.events.find((entry) => entry.event.id === eventId);
+	}
+
+	/**
+	 * A stored event, or an unmodified instance of a series (ID `<seriesId>_<start>`).
+	 */
+	private getEvent(email: string, calendarId: string, eventId: string): CalendarEvent {
+		const cal = this.getCalendar(email, calendarId);
+		const stored = this.findEvent(cal, eventId);
+		if (stored) return stored.event;
+		const instance = this.findInstance(cal, eventId);
+		if (!instance) throw apiError(404, "notFound", "Not Found");
+		return instance;
+	}
+
+	private findInstance(cal: FakeCalendar, eventId: string): CalendarEvent | undefined {
+		const separator = eventId.lastIndexOf("_");
+		if (separator < 0) return undefined;
+		const master = this.findEvent(cal, eventId.slice(0, separator))?.event;
+		if (!master?.recurrence?.length) return undefined;
+		// Instances are generated in order, so the search can stop after the instance's start
+		const key = eventId.slice(separator + 1);
+		const limit = parseInstanceKey(key);
+		if (limit === undefined) return undefined;
+		return this.expandSeries(cal, master, new Date(limit + 1).toISOString()).find((e) => e.id === eventId);
+	}
+
+	/**
+	 * Records a change of an event, which makes it part of the next sync.
+	 */
+	private touch(entry: { sequence: number; event: CalendarEvent }, event: CalendarEvent): CalendarEvent {
+		entry.sequence = ++this.state.sequence;
+		entry.event = { ...event, updated: new Date().toISOString(), etag: `"${entry.sequence}"` };
+		return entry.event;
+	}
+
+	private insertEvent(
+		email: string,
+		calendarId: string,
+		body: CalendarEvent,
+		conferenceDataVersion?: number,
+	): CalendarEvent {
+		const cal = this.getCalendar(email, calendarId);
+		if (!body.start || !body.end) throw apiError(400, "required", "Missing time.");
+		assertTimeRange(body, cal.calendar.timeZone!);
+		assertEventType(body, cal.calendar.id === email);
+		const id = body.id ?? randomId();
+		if (this.findEvent(cal, id)) throw apiError(409, "duplicate", "The requested identifier already exists.");
+		const now = new Date().toISOString();
+		const entry = { sequence: 0, event: {} as CalendarEvent };
+		cal.events.push(entry);
+		return this.touch(
+			entry,
+			withConference(
+				{
+					kind: "calendar#event",
+					status: "confirmed",
+					eventType: "default",
+					reminders: { useDefault: true },
+					sequence: 0,
+					...body,
+					id,
+					iCalUID: body.iCalUID ?? `${id}@google.com`,
+					htmlLink: `https://www.google.com/calendar/event?eid=${Buffer.from(`${id} ${cal.calendar.id}`).toString("base64url")}`,
+					created: now,
+					creator: { email, self: true },
+					organizer: body.organizer ?? { email: cal.calendar.id!, self: cal.calendar.id === email || undefined },
+					attendees: markSelf(body.attendees, email),
+				},
+				conferenceDataVersion,
+			),
+		);
+	}
+
+	/**
+	 * Creates or updates the event with the iCalUID (and original start, for modified instances). A new modified
+	 * instance of an existing series replaces the instance of the series.
+	 */
+	private importEvent(email: string, calendarId: string, body: CalendarEvent): CalendarEvent {
+		const cal = this.getCalendar(email, calendarId);
+		if (!body.iCalUID) throw apiError(400, "required", "Missing iCalUID.");
+		const key = body.originalStartTime ? instanceKey(body.originalStartTime) : undefined;
+		const existing = cal.events.find(
+			(entry) =>
+				entry.event.iCalUID === body.iCalUID &&
+				(entry.event.originalStartTime ? instanceKey(entry.event.originalStartTime) : undefined) === key,
+		);
+		if (!existing) {
+			const { id, ...event } = body;
+			const master = key
+				? cal.events.find((entry) => entry.event.iCalUID === body.iCalUID && entry.event.recurrence?.length)
+				: undefined;
+			if (master) return this.updateEvent(email, calendarId, `${master.event.id}_${key}`, event, false);
+			return this.insertEvent(email, calendarId, event);
+		}
+		const { id, iCalUID, created, creator, htmlLink, kind, eventType } = existing.event;
+		return this.touch(existing, {
+			status: "confirmed",
+			...body,
+			...definedFields({ id, iCalUID, created, creator, htmlLink, kind, eventType }),
+		});
+	}
+
+	/**
+	 * Replaces (or with `patch`, merges into) an event. Changing an unmodified instance stores it as a modified
+	 * instance.
+	 */
+	private updateEvent(
+		email: string,
+		calendarId: string,
+		eventId: string,
+		body: CalendarEvent,
+		patch: boolean,
+		conferenceDataVersion?: number,
+	): CalendarEvent {
+		const cal = this.getCalendar(email, calendarId);
+		let entry = this.findEvent(cal, eventId);
+		if (!entry) {
+			const instance = this.findInstance(cal, eventId);
+			if (!instance) throw apiError(404, "notFound", "Not Found");
+			entry = { sequence: 0, event: instance };
+			cal.events.push(entry);
+		}
+		const existing = entry.event;
+		const { id, iCalUID, created, creator, organizer, htmlLink, kind, recurringEventId, originalStartTime } =
+			existing;
+		const identity = definedFields({
+			id,
+			iCalUID,
+			created,
+			creator,
+			organizer,
+			htmlLink,
+			kind,
+			recurringEventId,
+			originalStartTime,
+		});
+		const merged = patch ? { ...existing, ...definedFields(body) } : { status: existing.status, ...body };
+		const event = { ...merged, ...identity, sequence: (existing.sequence ?? 0) + 1 };
+		if (event.attendees) event.attendees = markSelf(event.attendees, email);
+		assertTimeRange(event, cal.calendar.timeZone!);
+		const previous = existing.recurrence?.length ? this.expandSeries(cal, existing) : [];
+		const updated = this.touch(entry, withConference(event, conferenceDataVersion));
+		this.cancelRemovedInstances(cal, previous, this.expandSeries(cal, updated));
+		return updated;
+	}
+
+	/**
+	 * Stores instances a changed series no longer has as cancelled, so syncs report them as deleted.
+	 */
+	private cancelRemovedInstances(cal: FakeCalendar, previous: CalendarEvent[], current: CalendarEvent[]): void {
+		const remaining = new Set(current.map((e) => e.id));
+		for (const instance of previous) {
+			if (remaining.has(instance.id) || !instance.recurringEventId) continue;
+			const entry = this.findEvent(cal, instance.id!);
+			if (entry?.event.status === "cancelled") continue;
+			if (entry) {
+				this.touch(entry, { ...entry.event, status: "cancelled" });
+			} else {
+				const cancelled = { sequence: 0, event: {} };
+				cal.events.push(cancelled);
+				this.touch(cancelled, { ...instance, status: "cancelled" });
+			}
+		}
+	}
+
+	/**
+	 * Marks an event as cancelled. Deleting a series deletes its modified instances too, deleting an unmodified
+	 * instance stores it as a cancelled instance.
+	 */
+	private deleteEvent(email: string, calendarId: string, eventId: string): void {
+		const cal = this.getCalendar(email, calendarId);
+		let entry = this.findEvent(cal, eventId);
+		if (!entry) {
+			const instance = this.findInstance(cal, eventId);
+			if (!instance) throw apiError(404, "notFound", "Not Found");
+			entry = { sequence: 0, event: instance };
+			cal.events.push(entry);
+		}
+		if (entry.event.status === "cancelled") throw apiError(410, "deleted", "Resource has been deleted");
+		this.touch(entry, { ...entry.event, status: "cancelled" });
+		for (const instance of cal.events) {
+			if (instance.event.recurringEventId === eventId && instance.event.status !== "cancelled") {
+				this.touch(instance, { ...instance.event, status: "cancelled" });
+			}
+		}
+	}
+
+	private moveEvent(email: string, calendarId: string, eventId: string, destination: string): CalendarEvent {
+		const source = this.getCalendar(email, calendarId);
+		const target = this.getCalendar(email, destination);
+		const entry = this.findEvent(source, eventId);
+		if (!entry || entry.event.status === "cancelled") throw apiError(404, "notFound", "Not Found");
+		if (entry.event.recurringEventId) {
+			throw apiError(400, "cannotChangeOrganizerOfInstance", "Cannot change the organizer of an instance.");
+		}
+		const existing = this.findEvent(target, eventId);
+		if (existing && existing.event.status !== "cancelled") {
+			throw apiError(409, "duplicate", "The requested identifier already exists.");
+		}
+		const moved = existing ?? { sequence: 0, event: {} };
+		if (!existing) target.events.push(moved);
+		const event = this.touch(moved, { ...entry.event, organizer: { email: target.calendar.id! } });
+		this.touch(entry, { ...entry.event, status: "cancelled" });
+		return event;
+	}
+
+	private queryFreeBusy(email: string, body: calendar_v3.Schema$FreeBusyRequest): calendar_v3.Schema$FreeBusyResponse {
+		const timeMin = Date.parse(body.timeMin ?? "");
+		const timeMax = Date.parse(body.timeMax ?? "");
+		const calendars: Record<string, calendar_v3.Schema$FreeBusyCalendar> = {};
+		for (const { id } of body.items ?? []) {
+			const cal = this.state.calendars[this.resolveCalendarId(email, id ?? "")];
+			if (!cal) {
+				calendars[id!] = { busy: [], errors: [{ domain: "global", reason: "notFound" }] };
+				continue;
+			}
+			const intervals = this.expandEvents(
+				cal,
+				cal.events.map((e) => e.event),
+				body.timeMax,
+			)
+				.filter(
+					(event) =>
+						event.status !== "cancelled" &&
+						event.transparency !== "transparent" &&
+						!event.attendees?.some((a) => a.email === cal.calendar.id && a.responseStatus === "declined"),
+				)
+				.map((event) => getEventBounds(event, cal.calendar.timeZone!))
+				.filter(({ start, end }) => end > timeMin && start < timeMax)
+				.map(({ start, end }) => ({ start: Math.max(start, timeMin), end: Math.min(end, timeMax) }))
+				.sort((a, b) => a.start - b.start);
+			const busy: Array<{ start: number; end: number }> = [];
+			for (const interval of intervals) {
+				const last = busy[busy.length - 1];
+				if (last && interval.start <= last.end) last.end = Math.max(last.end, interval.end);
+				else busy.push({ ...interval });
+			}
+			calendars[id!] = {
+				busy: busy.map((b) => ({ start: new Date(b.start).toISOString(), end: new Date(b.end).toISOString() })),
+			};
+		}
+		return { kind: "calendar#freeBusy", timeMin: body.timeMin, timeMax: body.timeMax, calendars };
+	}
+}
+
+function apiError(status: number, reason: string, message: string): Error {
+	return Object.assign(new Error(message), { status, code: status, errors: [{ domain: "global", reason, message }] });
+}
+
+function randomId(): string {
+	// Event IDs use base32hex characters (a-v, 0-9)
+	return Array.from(crypto.randomBytes(16), (b) => "0123456789abcdefghijklmnopqrstuv"[b % 32]).join("");
+}
+
+function ownerRule(email: string): AclRule {
+	return { kind: "calendar#aclRule", id: `user:${email}`, scope: { type: "user", value: email }, role: "owner" };
+}
+
+/**
+ * The account's role on a calendar, via a rule for the user, their domain or the public.
+ */
+function getAccessRole(cal: FakeCalendar, email: string): string | undefined {
+	const domain = email.split("@")[1];
+	const rule =
+		cal.acl.find((r) => r.scope?.type === "user" && r.scope.value === email) ??
+		cal.acl.find((r) => r.scope?.type === "domain" && r.scope.value === domain) ??
+		cal.acl.find((r) => r.scope?.type === "default");
+	return rule?.role && rule.role !== "none" ? rule.role : undefined;
+}
+
+function definedFields<T extends object>(object: T): Partial<T> {
+	return Object.fromEntries(Object.entries(object).filter(([, v]) => v !== undefined && v !== null)) as Partial<T>;
+}
+
+function markSelf(attendees: CalendarEvent["attendees"], email: string): CalendarEvent["attendees"] {
+	return attendees?.map((a) => ({
+		responseStatus: "needsAction",
+		...a,
+		self: a.email === email || undefined,
+	}));
+}
+
+/**
+ * Fulfills a request for a new Google Meet conference, as the API does with `conferenceDataVersion=1`.
+ */
+function withConference(event: CalendarEvent, conferenceDataVersion?: number): CalendarEvent {
+	const request = event.conferenceData?.createRequest;
+	if (conferenceDataVersion !== 1 || !request || event.conferenceData?.entryPoints) return event;
+	const code = randomId();
+	const conferenceId = `${code.slice(0, 3)}-${code.slice(3, 7)}-${code.slice(7, 10)}`;
+	const uri = `https://meet.google.com/${conferenceId}`;
+	return {
+		...event,
+		hangoutLink: uri,
+		conferenceData: {
+			createRequest: { ...request, status: { statusCode: "success" } },
+			conferenceId,
+			conferenceSolution: { key: { type: "hangoutsMeet" }, name: "Google Meet" },
+			entryPoints: [{ entryPointType: "video", uri, label: uri.slice(8) }],
+		},
+	};
+}
+
+/**
+ * Resolves date times without an offset in their `timeZone`, as the API does, which rejects them without one.
+ */
+function resolveFloatingTimes(event: CalendarEvent): CalendarEvent {
+	const result = { ...event };
+	for (const key of ["start", "end", "originalStartTime"] as const) {
+		const time = event[key];
+		const m = time?.dateTime?.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/);
+		if (!time || !m) continue;
+		if (!time.timeZone) throw apiError(400, "required", `Missing time zone definition for ${key} time.`);
+		const day = { year: +m[1], month: +m[2], day: +m[3] };
+		const instant = zonedTimeToUtc(day, +m[4], +m[5], +(m[6] ?? 0), time.timeZone);
+		result[key] = { ...time, dateTime: formatInTimeZone(instant, time.timeZone) };
+	}
+	return result;
+}
+
+function assertTimeRange(event: CalendarEvent, timeZone: string): void {
+	const { start, end } = getEventBounds(event, timeZone);
+	if (end < start) throw apiError(400, "timeRangeEmpty", "The specified time range is empty.");
+}
+
+/**
+ * Out-of-office, focus time and working location events exist only on primary calendars, and the first two only
+ * with times of day.
+ */
+function assertEventType(event: CalendarEvent, primary: boolean): void {
+	const type = event.eventType ?? "default";
+	if (type === "default") return;
+	if (type !== "outOfOffice" && type !== "focusTime" && type !== "workingLocation") {
+		throw apiError(400, "eventTypeRestriction", `Events of type ${type} cannot be created.`);
+	}
+	if (!primary) {
+		throw apiError(400, "eventTypeRestriction", `Events of type ${type} can only be created on primary calendars.`);
+	}
+	if (type !== "workingLocation" && event.start?.date) {
+		throw apiError(400, "eventTypeRestriction", `Events of type ${type} cannot be all-day events.`);
+	}
+}
+
+function eventText(event: CalendarEvent): string {
+	const attendees = (event.attendees || []).map((a) => `${a.email} ${a.displayName || ""}`);
+	return [event.summary, event.description, event.location, ...attendees].join(" ").toLowerCase();
+}
+
+function paginate(
+	items: CalendarEvent[],
+	maxResults?: number | null,
+	pageToken?: string | null,
+	syncToken?: string,
+): { items: CalendarEvent[]; nextPageToken?: string; nextSyncToken?: string } {
+	const offset = pageToken ? Number(pageToken) : 0;
+	const end = offset + (maxResults || 250);
+	if (end < items.length) return { items: items.slice(offset, end), nextPageToken: String(end) };
+	return { items: items.slice(offset), nextSyncToken: syncToken };
+}
+
+/**
+ * Start and end of an event in ms. All-day events span their days in the time zone.
+ */
+function getEventBounds(event: CalendarEvent, timeZone: string): { start: number; end: number } {
+	const bound = (time: EventDateTime | undefined) => {
+		if (time?.dateTime) return Date.parse(time.dateTime);
+		if (!time?.date) return Number.NaN;
+		const [year, month, day] = time.date.split("-").map(Number);
+		return zonedTimeToUtc({ year, month, day }, 0, 0, 0, timeZone).getTime();
+	};
+	const start = bound(event.start);
+	const end = bound(event.end);
+	return { start, end: Number.isNaN(end) ? start : end };
+}
+
+/**
+ * The key of an instance ID: its original start as `20240115T100000Z`, or `20240115` for all-day events.
+ */
+function instanceKey(originalStart: EventDateTime): string {
+	if (originalStart.date) return originalStart.date.replaceAll("-", "");
+	return `${new Date(originalStart.dateTime!).toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+function parseInstanceKey(key: string): number | undefined {
+	const m = key.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/);
+	if (!m) return undefined;
+	// All-day keys compare by date only; the end of the day covers every time zone
+	if (!m[4]) return Date.UTC(+m[1], +m[2] - 1, +m[3]) + 2 * DAY;
+	return Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]);
+}
+
+function buildInstance(master: CalendarEvent, originalStart: EventDateTime, timeZone: string): CalendarEvent {
+	const { recurrence, ...event } = master;
+	const id = `${master.id}_${instanceKey(originalStart)}`;
+	let start: EventDateTime;
+	let end: EventDateTime;
+	if (originalStart.date) {
+		const days = Math.round((Date.parse(master.end?.date ?? "") - Date.parse(master.start!.date!)) / DAY) || 1;
+		start = { date: originalStart.date };
+		end = { date: addUtcDays(originalStart.date, days) };
+	} else {
+		const duration = Date.parse(master.end?.dateTime ?? "") - Date.parse(master.start!.dateTime!) || 0;
+		const instant = Date.parse(originalStart.dateTime!);
+		start = { dateTime: originalStart.dateTime, timeZone: master.start?.timeZone };
+		end = {
+			dateTime: formatInTimeZone(new Date(instant + duration), timeZone),
+			timeZone: master.end?.timeZone ?? master.start?.timeZone,
+		};
+	}
+	return { ...event, id, recurringEventId: master.id, originalStartTime: { ...start }, start, end };
+}
+
+function addUtcDays(date: string, days: number): string {
+	return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Original starts of a series' instances, from its RRULE (DAILY, WEEKLY, MONTHLY, YEARLY with INTERVAL, COUNT,
+ * UNTIL, BYDAY and BYMONTHDAY) and EXDATEs, up to `limit` (ms) or MAX_INSTANCES.
+ */
+function getOccurrences(master: CalendarEvent, timeZone: string, limit: number): EventDateTime[] {
+	const rruleLine = master.recurrence?.find((line) => /^RRULE:/i.test(line));
+	const allDay = !!master.start?.date;
+	const startDate = allDay ? master.start!.date! : formatInTimeZone(new Date(master.start!.dateTime!), timeZone);
+	const [year, month, day] = startDate.slice(0, 10).split("-").map(Number);
+	const [hour, minute, second] = allDay ? [0, 0, 0] : startDate.slice(11, 19).split(":").map(Number);
+	const toStart = (d: { year: number; month: number; day: number }): EventDateTime => {
+		const date = `${d.year}-${pad(d.month)}-${pad(d.day)}`;
+		if (allDay) return { date };
+		return { dateTime: formatInTimeZone(zonedTimeToUtc(d, hour, minute, second, timeZone), timeZone) };
+	};
+	const first = toStart({ year, month, day });
+	if (!rruleLine) return [first];
+
+	const rule = parseRRule(rruleLine);
+	const freq = rule.get("FREQ");
+	const interval = Number(rule.get("INTERVAL") || 1);
+	const count = rule.get("COUNT") ? Number(rule.get("COUNT")) : undefined;
+	const until = rule.get("UNTIL") ? parseIcalDate(rule.get("UNTIL")!, timeZone) : undefined;
+	const byDay = rule.get("BYDAY")?.split(",") ?? [];
+	const byMonthDay = rule.get("BYMONTHDAY")?.split(",").map(Number) ?? [];
+	const excluded = new Set(
+		(master.recurrence ?? [])
+			.filter((line) => /^EXDATE/i.test(line))
+			.flatMap((line) => {
+				const tzid = line.match(/TZID=([^;:]+)/)?.[1] ?? timeZone;
+				return line
+					.slice(line.indexOf(":") + 1)
+					.split(",")
+					.map((value) => parseIcalDate(value, tzid));
+			}),
+	);
+
+	const startTime = Date.UTC(year, month - 1, day);
+	const result: EventDateTime[] = [];
+	let generated = 0;
+	// Candidate days of one period (day, week, month or year) of the rule
+	const periodDays = (period: number): number[] => {
+		if (freq === "DAILY") return [startTime + period * interval * DAY];
+		if (freq === "WEEKLY") {
+			const weekStart = startTime - ((new Date(startTime).getUTCDay() + 6) % 7) * DAY + period * interval * 7 * DAY;
+			const days =
+				byDay.length > 0
+					? byDay.map((d) => (WEEKDAYS.indexOf(d.slice(-2)) + 6) % 7)
+					: [(new Date(startTime).getUTCDay() + 6) % 7];
+			return days.sort((a, b) => a - b).map((offset) => weekStart + offset * DAY);
+		}
+		const months = freq === "YEARLY" ? 12 * interval : interval;
+		const base = new Date(Date.UTC(year, month - 1 + period * months, 1));
+		const y = base.getUTCFullYear();
+		const m = base.getUTCMonth();
+		const daysInMonth = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+		if (byDay.length > 0 && freq === "MONTHLY") {
+			return byDay
+				.map((spec) => {
+					const weekday = WEEKDAYS.indexOf(spec.slice(-2));
+					const nth = Number(spec.slice(0, -2) || 1);
+					const firstWeekday = (weekday - new Date(Date.UTC(y, m, 1)).getUTCDay() + 7) % 7;
+					const lastWeekday =
+						daysInMonth - ((new Date(Date.UTC(y, m, daysInMonth)).getUTCDay() - weekday + 7) % 7);
+					const monthDay = nth > 0 ? 1 + firstWeekday + (nth - 1) * 7 : lastWeekday + (nth + 1) * 7;
+					return monthDay >= 1 && monthDay <= daysInMonth ? Date.UTC(y, m, monthDay) : Number.NaN;
+				})
+				.filter((t) => !Number.isNaN(t))
+				.sort((a, b) => a - b);
+		}
+		const monthDays = byMonthDay.length > 0 ? byMonthDay : [day];
+		return monthDays
+			.map((d) => (d < 0 ? daysInMonth + 1 + d : d))
+			.filter((d) => d >= 1 && d <= daysInMonth)
+			.sort((a, b) => a - b)
+			.map((d) => Date.UTC(y, m, d));
+	};
+
+	for (let period = 0; period < 100_000; period++) {
+		for (const time of periodDays(period)) {
+			if (time < startTime) continue;
+			const d = new Date(time);
+			const start = toStart({ year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() });
+			const instant = allDay ? time : Date.parse(start.dateTime!);
+			if ((until !== undefined && instant > until) || (count !== undefined && generated >= count)) return result;
+			if (instant >= limit || result.length >= MAX_INSTANCES) return result;
+			generated++;
+			if (!excluded.has(instant)) result.push(start);
+		}
+	}
+	return result;
+}
+
+/**
+ * Parses an iCalendar date (`20240115`) or date-time (`20240115T100000Z`, or local time in the time zone) into ms.
+ * Dates are midnight UTC, matching how all-day occurrences are compared.
+ */
+function parseIcalDate(value: string, timeZone: string): number {
+	const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+	if (!m) return Number.NaN;
+	const day = { year: +m[1], month: +m[2], day: +m[3] };
+	if (!m[4]) return Date.UTC(day.year, day.month - 1, day.day);
+	if (m[7]) return Date.UTC(day.year, day.month - 1, day.day, +m[4], +m[5], +m[6]);
+	return zonedTimeToUtc(day, +m[4], +m[5], +m[6], timeZone).getTime();
+}
+
+function pad(n: number): string {
+	return String(n).padStart(2, "0");
+}
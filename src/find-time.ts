@@ -0,0 +1,153 @@
+import { addDays, getZonedParts, zonedTimeToUtc } from "./date-parser.js";
+
+export interface Interval {
+	start: number;
+	end: number;
+}
+
+export interface WorkingHours {
+	/** Minutes after midnight */
+	start: number;
+	/** Minutes after midnight */
+	end: number;
+	timeZone: string;
+	/** Allowed weekdays, 0 = Sunday (default: Monday to Friday) */
+	days?: number[];
+}
+
+export interface Participant {
+	id: string;
+	busy: Interval[];
+	workingHours?: WorkingHours;
+}
+
+export interface FindTimeOptions {
+	/** Meeting duration in ms */
+	duration: number;
+	windowStart: number;
+	windowEnd: number;
+	/** Free time required before and after the meeting, in ms */
+	buffer?: number;
+	/** Candidate start times are aligned to this grid, in ms (default: 15 minutes) */
+	step?: number;
+	/** Maximum number of candidates (default: 5) */
+	limit?: number;
+}
+
+export interface CandidateSlot {
+	start: Date;
+	end: Date;
+	/** Free time around the slot that is too short for another meeting of the same duration, in ms (lower is better) */
+	fragmentation: number;
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Parses working hours like `09:00-17:00`.
+ */
+export function parseWorkingHours(input: string, timeZone: string): WorkingHours {
+	const match = input.trim().match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+	if (!match) throw new Error(`Invalid working hours: ${input} (expected HH:MM-HH:MM)`);
+	const start = Number(match[1]) * 60 + Number(match[2]);
+	const end = Number(match[3]) * 60 + Number(match[4]);
+	if (start >= end || end > 24 * 60) throw new Error(`Invalid working hours: ${input}`);
+	return { start, end, timeZone };
+}
+
+/**
+ * Finds slots of the requested duration in which all participants are free and within their working hours.
+ * Candidates are ranked by fragmentation (slots that leave no unusable gaps first), then by start time.
+ */
+export function findFreeSlots(participants: Participant[], options: FindTimeOptions): CandidateSlot[] {
+	const step = options.step ?? 15 * 60 * 1000;
+	const buffer = options.buffer ?? 0;
+	const window: Interval = { start: options.windowStart, end: options.windowEnd };
+
+	let free: Interval[] = [window];
+	for (const participant of participants) {
+		let available = participant.workingHours ? workingIntervals(participant.workingHours, window) : [window];
+		const busy = participant.busy.map((b) => ({ start: b.start - buffer, end: b.end + buffer }));
+		available = subtractIntervals(available, busy);
+		free = intersectIntervals(free, available);
+	}
+
+	const candidates: CandidateSlot[] = [];
+	for (const interval of free) {
+		let start = Math.ceil(interval.start / step) * step;
+		while (start + options.duration <= interval.end) {
+			const end = start + options.duration;
+			candidates.push({
+				start: new Date(start),
+				end: new Date(end),
+				fragmentation:
+					wasted(start - interval.start, options.duration) + wasted(interval.end - end, options.duration),
+			});
+			start += step;
+		}
+	}
+
+	candidates.sort((a, b) => a.fragmentation - b.fragmentation || a.start.getTime() - b.start.getTime());
+	return candidates.slice(0, options.limit ?? 5);
+}
+
+function wasted(gap: number, duration: number): number {
+	return gap < duration ? gap : 0;
+}
+
+function workingIntervals(hours: WorkingHours, window: Interval): Interval[] {
+	const days = hours.days ?? WEEKDAYS;
+	const first = getZonedParts(new Date(window.start), hours.timeZone);
+	const last = getZonedParts(new Date(window.end), hours.timeZone);
+	const lastDate = `${last.year}-${pad(last.month)}-${pad(last.day)}`;
+
+	const intervals: Interval[] = [];
+	for (let date = `${first.year}-${pad(first.month)}-${pad(first.day)}`; date <= lastDate; date = addDays(date, 1)) {
+		const [year, month, day] = date.split("-").map(Number);
+		const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+		if (!days.includes(weekday)) continue;
+		const start = zonedTimeToUtc(
+			{ year, month, day },
+			Math.floor(hours.start / 60),
+			hours.start % 60,
+			0,
+			hours.timeZone,
+		);
+		const end = zonedTimeToUtc({ year, month, day }, Math.floor(hours.end / 60), hours.end % 60, 0, hours.timeZone);
+		intervals.push({ start: start.getTime(), end: end.getTime() });
+	}
+	return intersectIntervals(intervals, [window]);
+}
+
+function subtractIntervals(from: Interval[], remove: Interval[]): Interval[] {
+	let result = from;
+	for (const r of remove) {
+		const next: Interval[] = [];
+		for (const f of result) {
+			if (r.end <= f.start || r.start >= f.end) {
+				next.push(f);
+				continue;
+			}
+			if (r.start > f.start) next.push({ start: f.start, end: r.start });
+			if (r.end < f.end) next.push({ start: r.end, end: f.end });
+		}
+		result = next;
+	}
+	return result;
+}
+
+function intersectIntervals(a: Interval[], b: Interval[]): Interval[] {
+	const result: Interval[] = [];
+	for (const x of a) {
+		for (const y of b) {
+			const start = Math.max(x.start, y.start);
+			const end = Math.min(x.end, y.end);
+			if (start < end) result.push({ start, end });
+		}
+	}
+	return result.sort((p, q) => p.start - q.start);
+}
+
+function pad(n: number): string {
+	return String(n).padStart(2, "0");
+}
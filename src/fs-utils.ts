@@ -0,0 +1,42 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Writes a file via a temporary file and rename, so readers never see a partially written file
+ * and a crash cannot truncate the previous content.
+ */
+export function writeFileAtomic(file: string, data: string, mode = 0o600): void {
+	const tmp = path.join(
+		path.dirname(file),
+		`.${path.basename(file)}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`,
+	);
+	try {
+		fs.writeFileSync(tmp, data, { mode });
+		fs.renameSync(tmp, file);
+	} catch (e) {
+		fs.rmSync(tmp, { force: true });
+		throw e;
+	}
+	// The mode passed to writeFileSync is subject to the umask
+	fs.chmodSync(file, mode);
+}
+
+/**
+ * Creates a directory only accessible by the current user, and restricts an existing one.
+ */
+export function ensurePrivateDir(dir: string): void {
+	if (!fs.existsSync(dir)) {
+		fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+	}
+	restrictPermissions(dir, 0o700);
+}
+
+/**
+ * Removes group and other permissions from a file or directory (no-op on Windows).
+ */
+export function restrictPermissions(file: string, mode: number): void {
+	if (process.platform === "win32") return;
+	const stat = fs.statSync(file);
+	if ((stat.mode & 0o077) !== 0) fs.chmodSync(file, mode);
+}
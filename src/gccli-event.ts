@@ -0,0 +1,91 @@
+import type { calendar_v3 } from "googleapis";
+import type { ResponseStatus } from "./calendar-service.js";
+import { getSystemTimeZone, zonedTimeToUtc } from "./date-parser.js";
+import { getConferenceLink } from "./event-options.js";
+
+type CalendarEvent = calendar_v3.Schema$Event;
+
+export interface GccliAttendee {
+	email: string;
+	displayName?: string;
+	optional: boolean;
+	responseStatus: ResponseStatus;
+	/** The attendee is the account the event was read with */
+	self: boolean;
+	organizer: boolean;
+}
+
+/**
+ * An event with parsed times and defaults for absent fields, for code that does not want to deal with the API's
+ * `start.date` / `start.dateTime` distinction. The API's event is kept in `raw`.
+ */
+export interface GccliEvent {
+	id: string;
+	summary: string;
+	description?: string;
+	location?: string;
+	/** For all-day events, midnight of the first day in the time zone given to `toGccliEvent` */
+	start: Date;
+	/** Exclusive. For all-day events, midnight after the last day. */
+	end: Date;
+	allDay: boolean;
+	/** First day (YYYY-MM-DD) of all-day events */
+	startDate?: string;
+	/** Day after the last day (YYYY-MM-DD) of all-day events, like the API's end date */
+	endDate?: string;
+	/** The event's own IANA time zone, if it has one */
+	timeZone?: string;
+	status: "confirmed" | "tentative" | "cancelled";
+	/** ID of the series, for instances of recurring events */
+	recurringEventId?: string;
+	/** RRULE/EXDATE/RDATE lines of a series */
+	recurrence: string[];
+	attendees: GccliAttendee[];
+	/** Email of the organizer */
+	organizer?: string;
+	htmlLink?: string;
+	/** Google Meet or other video call link */
+	conferenceLink?: string;
+	raw: CalendarEvent;
+}
+
+/**
+ * Normalizes an event of the API. `timeZone` (default: the system time zone) places all-day events in time.
+ */
+export function toGccliEvent(event: CalendarEvent, timeZone: string = getSystemTimeZone()): GccliEvent {
+	const allDay = !!event.start?.date;
+	const toDate = (time: calendar_v3.Schema$EventDateTime | undefined): Date => {
+		if (!time?.date) return new Date(time?.dateTime || Number.NaN);
+		const [year, month, day] = time.date.split("-").map(Number);
+		return zonedTimeToUtc({ year, month, day }, 0, 0, 0, timeZone);
+	};
+	const start = toDate(event.start);
+	const end = event.end ? toDate(event.end) : start;
+	return {
+		id: event.id || "",
+		summary: event.summary || "",
+		description: event.description || undefined,
+		location: event.location || undefined,
+		start,
+		end,
+		allDay,
+		startDate: event.start?.date || undefined,
+		endDate: event.end?.date || undefined,
+		timeZone: event.start?.timeZone || undefined,
+		status: (event.status as GccliEvent["status"]) || "confirmed",
+		recurringEventId: event.recurringEventId || undefined,
+		recurrence: event.recurrence || [],
+		attendees: (event.attendees || []).map((a) => ({
+			email: a.email || "",
+			displayName: a.displayName || undefined,
+			optional: a.optional ?? false,
+			responseStatus: (a.responseStatus as ResponseStatus) || "needsAction",
+			self: a.self ?? false,
+			organizer: a.organizer ?? false,
+		})),
+		organizer: event.organizer?.email || undefined,
+		htmlLink: event.htmlLink || undefined,
+		conferenceLink: getConferenceLink(event),
+		raw: event,
+	};
+}
@@ -0,0 +1,547 @@
+import type { calendar_v3 } from "googleapis";
+import { assertTimeZone, getTimeZoneOffset, getZonedParts } from "./date-parser.js";
+import { parseRRule } from "./recurrence.js";
+
+type CalendarEvent = calendar_v3.Schema$Event;
+type EventDateTime = calendar_v3.Schema$EventDateTime;
+
+export interface ICalProperty {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+	/** The unfolded content line */
+	raw: string;
+}
+
+export interface ICalComponent {
+	name: string;
+	properties: ICalProperty[];
+	components: ICalComponent[];
+}
+
+const PARTSTAT_TO_RESPONSE: Record<string, string> = {
+	"NEEDS-ACTION": "needsAction",
+	ACCEPTED: "accepted",
+	DECLINED: "declined",
+	TENTATIVE: "tentative",
+};
+
+const RESPONSE_TO_PARTSTAT: Record<string, string> = Object.fromEntries(
+	Object.entries(PARTSTAT_TO_RESPONSE).map(([k, v]) => [v, k]),
+);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Serializes events as an RFC 5545 VCALENDAR, including VTIMEZONE blocks for all referenced time zones.
+ * Recurring events should be passed as series (master events plus modified instances), not expanded.
+ */
+export function toICalendar(events: CalendarEvent[], options: { name?: string; timeZone?: string } = {}): string {
+	const lines: string[] = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//gccli//Google Calendar CLI//EN",
+		"CALSCALE:GREGORIAN",
+	];
+	if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+	if (options.timeZone) lines.push(`X-WR-TIMEZONE:${options.timeZone}`);
+
+	const timeZones = new Set<string>();
+	for (const event of events) {
+		for (const time of [event.start, event.end, event.originalStartTime]) {
+			if (time?.dateTime && time.timeZone) timeZones.add(time.timeZone);
+		}
+	}
+
+	const times = events.flatMap((e) =>
+		[e.start?.dateTime, e.end?.dateTime].filter((t): t is string => !!t).map(Date.parse),
+	);
+	const first = times.length > 0 ? Math.min(...times) : Date.now();
+	const last = times.length > 0 ? Math.max(...times) : Date.now();
+	for (const zone of timeZones) {
+		lines.push(...vtimezone(zone, new Date(first).getUTCFullYear(), new Date(last).getUTCFullYear() + 1));
+	}
+
+	for (const event of events) {
+		lines.push(...vevent(event));
+	}
+	lines.push("END:VCALENDAR");
+	return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+function vevent(event: CalendarEvent): string[] {
+	const lines = ["BEGIN:VEVENT"];
+	lines.push(`UID:${event.iCalUID || event.id}`);
+	lines.push(`DTSTAMP:${formatUtc(new Date(event.updated || Date.now()))}`);
+	if (event.start) lines.push(formatDateProperty("DTSTART", event.start));
+	if (event.end) lines.push(formatDateProperty("DTEND", event.end));
+	if (event.originalStartTime) lines.push(formatDateProperty("RECURRENCE-ID", event.originalStartTime));
+	for (const rule of event.recurrence || []) lines.push(rule);
+	if (event.summary) lines.push(`SUMMARY:${escapeText(event.summary)}`);
+	if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+	if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+	if (event.status) lines.push(`STATUS:${event.status.toUpperCase()}`);
+	lines.push(`TRANSP:${event.transparency === "transparent" ? "TRANSPARENT" : "OPAQUE"}`);
+	if (event.visibility === "private" || event.visibility === "confidential") {
+		lines.push(`CLASS:${event.visibility.toUpperCase()}`);
+	}
+	if (event.organizer?.email) {
+		const cn = event.organizer.displayName ? `;CN=${quoteParam(event.organizer.displayName)}` : "";
+		lines.push(`ORGANIZER${cn}:mailto:${event.organizer.email}`);
+	}
+	for (const attendee of event.attendees || []) {
+		if (!attendee.email) continue;
+		const params = [
+			attendee.displayName ? `CN=${quoteParam(attendee.displayName)}` : undefined,
+			`ROLE=${attendee.optional ? "OPT-PARTICIPANT" : "REQ-PARTICIPANT"}`,
+			`PARTSTAT=${RESPONSE_TO_PARTSTAT[attendee.responseStatus || "needsAction"] || "NEEDS-ACTION"}`,
+		].filter(Boolean);
+		lines.push(`ATTENDEE;${params.join(";")}:mailto:${attendee.email}`);
+	}
+	if (event.htmlLink) lines.push(`URL:${event.htmlLink}`);
+	if (event.created) lines.push(`CREATED:${formatUtc(new Date(event.created))}`);
+	if (event.updated) lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.updated))}`);
+	if (event.sequence !== undefined && event.sequence !== null) lines.push(`SEQUENCE:${event.sequence}`);
+	lines.push("END:VEVENT");
+	return lines;
+}
+
+function formatDateProperty(name: string, time: EventDateTime): string {
+	if (time.date) return `${name};VALUE=DATE:${time.date.replace(/-/g, "")}`;
+	const instant = new Date(time.dateTime!);
+	if (time.timeZone) return `${name};TZID=${time.timeZone}:${formatLocal(instant, time.timeZone)}`;
+	return `${name}:${formatUtc(instant)}`;
+}
+
+/**
+ * Builds a VTIMEZONE from the zone's actual UTC offset transitions between the given years. Transitions that
+ * recur on the same weekday of a month are emitted as one observance with a yearly RRULE, which stays open
+ * for the rules still in effect at the end, so recurring events beyond `toYear` resolve correctly too.
+ */
+function vtimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+	// Start a year early, so the first year's offset follows from the previous year's transitions
+	const start = Date.UTC(fromYear - 1, 0, 1);
+	const end = Date.UTC(toYear + 1, 0, 1);
+	const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+
+	const initial = getTimeZoneOffset(new Date(start), timeZone);
+	const transitions: Array<{ at: number; from: number; to: number }> = [];
+	let previous = initial;
+	for (let t = start + DAY; t <= end; t += DAY) {
+		const offset = getTimeZoneOffset(new Date(t), timeZone);
+		if (offset === previous) continue;
+		// Narrow the transition down to the minute
+		let lo = t - DAY;
+		let hi = t;
+		while (hi - lo > 60 * 1000) {
+			const mid = lo + Math.floor((hi - lo) / 2 / 60000) * 60000;
+			if (getTimeZoneOffset(new Date(mid), timeZone) === previous) lo = mid;
+			else hi = mid;
+		}
+		transitions.push({ at: hi, from: previous, to: offset });
+		previous = offset;
+	}
+
+	const rules: Array<{ key: string; from: number; to: number; first: number; last: number; year: number }> = [];
+	for (const t of transitions) {
+		const local = new Date(t.at + t.from * 60000);
+		const year = local.getUTCFullYear();
+		const key = [t.from, t.to, local.getUTCMonth(), getByDay(local), local.getUTCHours(), local.getUTCMinutes()];
+		const rule = rules.find((r) => r.key === key.join() && r.year === year - 1);
+		if (rule) {
+			rule.last = t.at;
+			rule.year = year;
+		} else {
+			rules.push({ key: key.join(), from: t.from, to: t.to, first: t.at, last: t.at, year });
+		}
+	}
+
+	const offsets = [initial, ...transitions.map((t) => t.to)];
+	const standardOffset = Math.min(...offsets);
+	const observance = (at: number, from: number, to: number, rrule?: string) => {
+		const type = to > standardOffset ? "DAYLIGHT" : "STANDARD";
+		return [
+			`BEGIN:${type}`,
+			`DTSTART:${formatUtc(new Date(at + from * 60000)).replace("Z", "")}`,
+			...(rrule ? [rrule] : []),
+			`TZOFFSETFROM:${formatOffset(from)}`,
+			`TZOFFSETTO:${formatOffset(to)}`,
+			`END:${type}`,
+		];
+	};
+
+	lines.push(...observance(Date.UTC(1970, 0, 1), initial, initial));
+	const lastYear = Math.max(...rules.map((r) => r.year));
+	for (const rule of rules) {
+		const local = new Date(rule.first + rule.from * 60000);
+		const open = rule.year === lastYear;
+		let rrule: string | undefined;
+		if (open || rule.last !== rule.first) {
+			rrule = `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${getByDay(local)}`;
+			if (!open) rrule += `;UNTIL=${formatUtc(new Date(rule.last))}`;
+		}
+		lines.push(...observance(rule.first, rule.from, rule.to, rrule));
+	}
+	lines.push("END:VTIMEZONE");
+	return lines;
+}
+
+/**
+ * The BYDAY value selecting the weekday of a date within its month: `-1SU` in the last week, `2SU` otherwise.
+ */
+function getByDay(date: Date): string {
+	const weekday = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"][date.getUTCDay()];
+	const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+	const day = date.getUTCDate();
+	return day + 7 > daysInMonth ? `-1${weekday}` : `${Math.ceil(day / 7)}${weekday}`;
+}
+
+function formatLocal(date: Date, timeZone: string): string {
+	const p = getZonedParts(date, timeZone);
+	return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+function formatUtc(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/\.\d{3}Z$/, "Z")
+		.replace(/[-:]/g, "");
+}
+
+function formatOffset(minutes: number): string {
+	const sign = minutes < 0 ? "-" : "+";
+	const abs = Math.abs(minutes);
+	return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function escapeText(text: string): string {
+	return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function quoteParam(value: string): string {
+	return /[;:,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+}
+
+/**
+ * Folds a content line at 75 octets without splitting UTF-8 sequences.
+ */
+function foldLine(line: string): string {
+	if (Buffer.byteLength(line) <= 75) return line;
+	const parts: string[] = [];
+	let current = "";
+	let bytes = 0;
+	for (const char of line) {
+		const size = Buffer.byteLength(char);
+		// Continuation lines start with a space, which counts towards the limit
+		if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+			parts.push(current);
+			current = "";
+			bytes = 0;
+		}
+		current += char;
+		bytes += size;
+	}
+	parts.push(current);
+	return parts.join("\r\n ");
+}
+
+/**
+ * Parses iCalendar text into its component tree. Returns the outermost component (usually VCALENDAR).
+ */
+export function parseICalendar(text: string): ICalComponent {
+	const lines = text
+		.replace(/\r\n/g, "\n")
+		.replace(/\n[ \t]/g, "")
+		.split("\n")
+		.filter((line) => line.trim() !== "");
+
+	const root: ICalComponent = { name: "", properties: [], components: [] };
+	const stack: ICalComponent[] = [root];
+	for (const line of lines) {
+		const property = parseContentLine(line);
+		const current = stack[stack.length - 1];
+		if (property.name === "BEGIN") {
+			const component: ICalComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+			current.components.push(component);
+			stack.push(component);
+		} else if (property.name === "END") {
+			if (stack.length === 1 || current.name !== property.value.toUpperCase()) {
+				throw new Error(`Invalid iCalendar: unexpected END:${property.value}`);
+			}
+			stack.pop();
+		} else {
+			current.properties.push(property);
+		}
+	}
+	if (stack.length !== 1) throw new Error(`Invalid iCalendar: missing END:${stack[stack.length - 1].name}`);
+	if (root.components.length === 0) throw new Error("Invalid iCalendar: no components");
+	return root.components[0];
+}
+
+function parseContentLine(line: string): ICalProperty {
+	// Split name;params from the value at the first colon outside of quotes
+	let inQuotes = false;
+	let colon = -1;
+	for (let i = 0; i < line.length; i++) {
+		if (line[i] === '"') inQuotes = !inQuotes;
+		else if (line[i] === ":" && !inQuotes) {
+			colon = i;
+			break;
+		}
+	}
+	if (colon === -1) throw new Error(`Invalid iCalendar line: ${line}`);
+
+	const head = line.slice(0, colon);
+	const value = line.slice(colon + 1);
+	const segments = head.match(/("[^"]*"|[^;])+/g) || [];
+	const name = (segments.shift() || "").toUpperCase();
+	const params: Record<string, string> = {};
+	for (const segment of segments) {
+		const eq = segment.indexOf("=");
+		if (eq === -1) continue;
+		params[segment.slice(0, eq).toUpperCase()] = segment.slice(eq + 1).replace(/^"|"$/g, "");
+	}
+	return { name, params, value, raw: line };
+}
+
+/**
+ * Converts a VEVENT into a Calendar API event suitable for `events.import`.
+ * Floating times (no TZID, no Z) are interpreted in `timeZone`.
+ */
+export function fromVEvent(vevent: ICalComponent, calendar: ICalComponent, timeZone: string): CalendarEvent {
+	const get = (name: string) => vevent.properties.find((p) => p.name === name);
+	const text = (name: string) => {
+		const p = get(name);
+		return p ? unescapeText(p.value) : undefined;
+	};
+
+	const uid = get("UID")?.value;
+	if (!uid) throw new Error("VEVENT without UID");
+	const dtstart = get("DTSTART");
+	if (!dtstart) throw new Error(`VEVENT ${uid} without DTSTART`);
+
+	const start = parseDateProperty(dtstart, calendar, timeZone);
+	let end: EventDateTime;
+	const dtend = get("DTEND");
+	const duration = get("DURATION");
+	if (dtend) {
+		end = parseDateProperty(dtend, calendar, timeZone);
+	} else if (duration) {
+		end = addIsoDuration(start, duration.value);
+	} else if (start.date) {
+		end = addIsoDuration(start, "P1D");
+	} else {
+		end = { ...start };
+	}
+
+	const event: CalendarEvent = {
+		iCalUID: uid,
+		summary: text("SUMMARY"),
+		description: text("DESCRIPTION"),
+		location: text("LOCATION"),
+		start,
+		end,
+	};
+
+	const recurrence = vevent.properties.filter((p) => ["RRULE", "EXRULE", "RDATE", "EXDATE"].includes(p.name));
+	if (recurrence.length > 0) event.recurrence = recurrence.map((p) => p.raw);
+
+	const recurrenceId = get("RECURRENCE-ID");
+	if (recurrenceId) event.originalStartTime = parseDateProperty(recurrenceId, calendar, timeZone);
+
+	const status = get("STATUS")?.value.toLowerCase();
+	if (status === "confirmed" || status === "tentative" || status === "cancelled") event.status = status;
+	if (get("TRANSP")?.value.toUpperCase() === "TRANSPARENT") event.transparency = "transparent";
+	const cls = get("CLASS")?.value.toUpperCase();
+	if (cls === "PRIVATE" || cls === "CONFIDENTIAL" || cls === "PUBLIC") event.visibility = cls.toLowerCase();
+	const sequence = get("SEQUENCE");
+	if (sequence) event.sequence = Number(sequence.value);
+	const modified = get("LAST-MODIFIED")?.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+	if (modified) {
+		const [, year, month, day, hour, minute, second] = modified;
+		event.updated = `${year}-${month}-${day}T${hour}:${minute}:${second}Z`;
+	}
+
+	const organizer = get("ORGANIZER");
+	if (organizer) {
+		event.organizer = { email: stripMailto(organizer.value), displayName: organizer.params.CN };
+	}
+	const attendees = vevent.properties.filter((p) => p.name === "ATTENDEE");
+	if (attendees.length > 0) {
+		event.attendees = attendees.map((p) => ({
+			email: stripMailto(p.value),
+			displayName: p.params.CN,
+			optional: p.params.ROLE === "OPT-PARTICIPANT" || undefined,
+			responseStatus: PARTSTAT_TO_RESPONSE[(p.params.PARTSTAT || "NEEDS-ACTION").toUpperCase()] || "needsAction",
+		}));
+	}
+	return event;
+}
+
+function parseDateProperty(property: ICalProperty, calendar: ICalComponent, timeZone: string): EventDateTime {
+	const value = property.value.trim();
+	const date = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+	if (property.params.VALUE === "DATE" || date) {
+		if (!date) throw new Error(`Invalid date: ${value}`);
+		return { date: `${date[1]}-${date[2]}-${date[3]}` };
+	}
+
+	const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+	if (!match) throw new Error(`Invalid date-time: ${value}`);
+	const local = `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+	if (match[7]) return { dateTime: `${local}Z` };
+
+	const tzid = property.params.TZID;
+	if (!tzid) return { dateTime: local, timeZone };
+	const wall = Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]);
+	const zone = resolveTzid(tzid, calendar, wall);
+	if (zone.timeZone) return { dateTime: local, timeZone: zone.timeZone };
+	return { dateTime: `${local}${zone.offset}` };
+}
+
+/**
+ * Maps a TZID to an IANA zone. Non-IANA TZIDs (e.g. from Outlook) fall back to the VTIMEZONE's
+ * X-LIC-LOCATION or, failing that, the UTC offset of its STANDARD or DAYLIGHT observance in effect at `wall`
+ * (a local time as UTC milliseconds).
+ */
+function resolveTzid(tzid: string, calendar: ICalComponent, wall: number): { timeZone?: string; offset?: string } {
+	if (isTimeZone(tzid)) return { timeZone: tzid };
+	const vtimezone = calendar.components.find(
+		(c) => c.name === "VTIMEZONE" && c.properties.some((p) => p.name === "TZID" && p.value === tzid),
+	);
+	const location = vtimezone?.properties.find((p) => p.name === "X-LIC-LOCATION")?.value;
+	if (location && isTimeZone(location)) return { timeZone: location };
+	if (!vtimezone) throw new Error(`Unknown time zone: ${tzid}`);
+
+	const observances = vtimezone.components.filter((c) => c.name === "STANDARD" || c.name === "DAYLIGHT");
+	let current: { observance: ICalComponent; onset: number } | undefined;
+	for (const observance of observances) {
+		const onset = getLatestOnset(observance, wall, tzid);
+		if (onset !== undefined && (!current || onset > current.onset)) current = { observance, onset };
+	}
+	// Before the first onset, the offset the earliest observance changes from applies
+	const first = observances.reduce<ICalComponent | undefined>(
+		(a, b) => (a && (getValue(a, "DTSTART") ?? "") <= (getValue(b, "DTSTART") ?? "") ? a : b),
+		undefined,
+	);
+	const offset = current ? getValue(current.observance, "TZOFFSETTO") : first && getValue(first, "TZOFFSETFROM");
+	const parts = offset?.match(/^([+-])(\d{2})(\d{2})$/);
+	if (!parts) throw new Error(`Unknown time zone: ${tzid}`);
+	return { offset: `${parts[1]}${parts[2]}:${parts[3]}` };
+}
+
+/**
+ * The last onset of a STANDARD/DAYLIGHT observance at or before `wall`, from its DTSTART, RDATEs and yearly
+ * RRULE, in local time as UTC milliseconds.
+ */
+function getLatestOnset(observance: ICalComponent, wall: number, tzid: string): number | undefined {
+	const start = parseLocalDateTime(getValue(observance, "DTSTART") ?? "");
+	if (start === undefined) throw new Error(`Invalid VTIMEZONE ${tzid}: ${observance.name} without DTSTART`);
+	const onsets = [start];
+	for (const rdate of observance.properties.filter((p) => p.name === "RDATE")) {
+		for (const value of rdate.value.split(",")) {
+			const onset = parseLocalDateTime(value);
+			if (onset !== undefined) onsets.push(onset);
+		}
+	}
+
+	const rrule = getValue(observance, "RRULE");
+	if (rrule) {
+		const rule = parseRRule(rrule);
+		const month = Number(rule.get("BYMONTH"));
+		if (rule.get("FREQ") !== "YEARLY" || !Number.isInteger(month) || (rule.get("INTERVAL") ?? "1") !== "1") {
+			throw new Error(`Unsupported VTIMEZONE ${tzid}: ${observance.name} rule ${rrule}`);
+		}
+		let until = rule.get("UNTIL") ? parseLocalDateTime(rule.get("UNTIL")!) : undefined;
+		// A UTC UNTIL is compared in the local time before the onset
+		const from = getValue(observance, "TZOFFSETFROM")?.match(/^([+-])(\d{2})(\d{2})$/);
+		if (until !== undefined && rule.get("UNTIL")!.endsWith("Z") && from) {
+			until += (from[1] === "-" ? -1 : 1) * (Number(from[2]) * 60 + Number(from[3])) * 60000;
+		}
+		const time = start % DAY;
+		const year = new Date(wall).getUTCFullYear();
+		for (const y of [year - 1, year]) {
+			const day = getRuleDay(y, month, rule);
+			if (day === undefined) throw new Error(`Unsupported VTIMEZONE ${tzid}: ${observance.name} rule ${rrule}`);
+			const onset = Date.UTC(y, month - 1, day) + time;
+			if (onset >= start && (until === undefined || onset <= until)) onsets.push(onset);
+		}
+	}
+	const past = onsets.filter((onset) => onset <= wall);
+	return past.length > 0 ? Math.max(...past) : undefined;
+}
+
+/**
+ * The day of the month a yearly rule selects: BYDAY with an ordinal (`-1SU`, `2SU`), BYDAY within BYMONTHDAY
+ * (`SU` with `8,...,14`), or a single BYMONTHDAY.
+ */
+function getRuleDay(year: number, month: number, rule: Map<string, string>): number | undefined {
+	const byDay = rule.get("BYDAY")?.match(/^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+	const monthDays = rule.get("BYMONTHDAY")?.split(",").map(Number);
+	const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+	if (!byDay)
+		return monthDays?.length === 1 && monthDays[0] >= 1 && monthDays[0] <= daysInMonth ? monthDays[0] : undefined;
+
+	const weekday = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"].indexOf(byDay[2]);
+	const matches: number[] = [];
+	for (let day = 1; day <= daysInMonth; day++) {
+		if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) matches.push(day);
+	}
+	if (monthDays) return matches.find((day) => monthDays.includes(day));
+	if (!byDay[1]) return undefined;
+	const ordinal = Number(byDay[1]);
+	return ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+}
+
+function getValue(component: ICalComponent, name: string): string | undefined {
+	return component.properties.find((p) => p.name === name)?.value;
+}
+
+/**
+ * `20240310T020000` (or with `Z`) as UTC milliseconds of the same wall-clock time.
+ */
+function parseLocalDateTime(value: string): number | undefined {
+	const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/);
+	return m ? Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) : undefined;
+}
+
+function isTimeZone(zone: string): boolean {
+	try {
+		assertTimeZone(zone);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function addIsoDuration(start: EventDateTime, duration: string): EventDateTime {
+	const match = duration.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+	if (!match) throw new Error(`Invalid duration: ${duration}`);
+	const sign = match[1] === "-" ? -1 : 1;
+	const days = Number(match[2] || 0) * 7 + Number(match[3] || 0);
+	const ms = ((Number(match[4] || 0) * 60 + Number(match[5] || 0)) * 60 + Number(match[6] || 0)) * 1000;
+	if (start.date) {
+		const d = new Date(`${start.date}T00:00:00Z`);
+		d.setUTCDate(d.getUTCDate() + sign * days);
+		return { date: d.toISOString().slice(0, 10) };
+	}
+	// Floating times are shifted as if they were UTC, keeping their wall-clock representation
+	const dateTime = start.dateTime!;
+	const hasOffset = /(Z|[+-]\d{2}:\d{2})$/.test(dateTime);
+	const base = Date.parse(hasOffset ? dateTime : `${dateTime}Z`);
+	const shifted = new Date(base + sign * (days * 24 * 60 * 60 * 1000 + ms)).toISOString().replace(/\.\d{3}Z$/, "Z");
+	if (!hasOffset) return { dateTime: shifted.slice(0, -1), timeZone: start.timeZone };
+	return { dateTime: shifted, timeZone: start.timeZone };
+}
+
+function unescapeText(text: string): string {
+	return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+function stripMailto(value: string): string {
+	return value.replace(/^mailto:/i, "");
+}
+
+function pad(n: number): string {
+	return String(n).padStart(2, "0");
+}
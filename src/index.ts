@@ -0,0 +1,51 @@
+// Library entry point: the service, the types of its methods, and helpers for building and reading events.
+
+export type { AclRole, AclScope, AclScopeType } from "./acl.js";
+export {
+	type AgendaEntry,
+	type AgendaOptions,
+	type AgendaResult,
+	type AttendeeInput,
+	type Calendar,
+	type CalendarBackend,
+	type CalendarEvent,
+	type CalendarListSettings,
+	CalendarService,
+	type CalendarServiceOptions,
+	type CalendarSettings,
+	type CopyOptions,
+	type EventChange,
+	type EventSearchResult,
+	type EventUpdates,
+	type FocusTimeEvent,
+	type ImportResult,
+	type ListEventsOptions,
+	type ListInstancesOptions,
+	type MutationOptions,
+	type NewEvent,
+	type OutOfOfficeEvent,
+	type ResponseStatus,
+	type SendUpdates,
+	type SyncResult,
+	type WorkingLocationEvent,
+} from "./calendar-service.js";
+export { AuthError, ConflictError, GccliError, NotFoundError, PermissionError, QuotaError } from "./errors.js";
+export { EventBuilder } from "./event-builder.js";
+export type {
+	AutoDecline,
+	ChatStatus,
+	EventProperties,
+	EventType,
+	Reminder,
+	ReminderMethod,
+	ShowAs,
+	Visibility,
+	WorkingLocation,
+} from "./event-options.js";
+export { type FakeBackendState, FakeCalendarBackend } from "./fake-backend.js";
+export { type GccliAttendee, type GccliEvent, toGccliEvent } from "./gccli-event.js";
+export type { ApplyResult, FieldChange, PlanOperation } from "./plan.js";
+export type { Frequency, RecurrenceScope, RepeatOptions } from "./recurrence.js";
+export type { RetryOptions } from "./retry.js";
+export type { BackendName } from "./secret-store.js";
+export type { AuthType, CalendarAccount, OAuthAccount, ServiceAccount } from "./types.js";
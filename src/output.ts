@@ -0,0 +1,46 @@
+import { GccliError, getApiErrorInfo } from "./errors.js";
+
+export type OutputFormat = "text" | "json" | "ndjson";
+
+export interface ErrorOutput {
+	error: {
+		message: string;
+		/** Error class: auth, not_found, permission, quota, conflict or error */
+		type: string;
+		status?: number;
+		reason?: string;
+	};
+}
+
+/**
+ * Removes the global --json / --ndjson flags from the argument list and returns the selected format, if any.
+ */
+export function extractOutputFormat(args: string[]): { format?: OutputFormat; args: string[] } {
+	let format: OutputFormat | undefined;
+	const rest: string[] = [];
+	for (const arg of args) {
+		if (arg === "--json") format = "json";
+		else if (arg === "--ndjson") format = "ndjson";
+		else rest.push(arg);
+	}
+	return { format, args: rest };
+}
+
+export function writeJson(value: unknown): void {
+	console.log(JSON.stringify(value, null, 2));
+}
+
+export function writeNdjson(items: unknown[]): void {
+	for (const item of items) {
+		console.log(JSON.stringify(item));
+	}
+}
+
+export function toErrorOutput(e: unknown): ErrorOutput {
+	if (!(e instanceof Error)) {
+		return { error: { message: String(e), type: "error" } };
+	}
+	const { status, reason } = getApiErrorInfo(e);
+	const type = e instanceof GccliError ? e.type : "error";
+	return { error: { message: e.message, type, status, reason } };
+}
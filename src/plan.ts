@@ -0,0 +1,189 @@
+import type { calendar_v3 } from "googleapis";
+import YAML from "yaml";
+import type { BatchRequest } from "./batch.js";
+import { zonedTimeToUtc } from "./date-parser.js";
+
+type CalendarEvent = calendar_v3.Schema$Event;
+type EventDateTime = calendar_v3.Schema$EventDateTime;
+
+export type PlanOperation =
+	| { op: "create"; calendar: string; event: CalendarEvent }
+	| { op: "update"; calendar: string; id: string; event: CalendarEvent }
+	| { op: "delete"; calendar: string; id: string }
+	| { op: "move"; calendar: string; id: string; to: string };
+
+export const PLAN_OPERATIONS = ["create", "update", "delete", "move"] as const;
+
+export interface FieldChange {
+	field: string;
+	before?: unknown;
+	after?: unknown;
+}
+
+export interface ApplyResult {
+	index: number;
+	op: PlanOperation["op"];
+	calendarId: string;
+	eventId?: string;
+	summary?: string;
+	status: "ok" | "error" | "planned";
+	error?: string;
+	/** With --dry-run: what the operation would change */
+	changes?: FieldChange[];
+}
+
+/**
+ * Parses a plan file (YAML or JSON). A plan is either a list of operations, or an object with a default
+ * `calendar` and `operations`. Operations without `calendar` use the plan's default, then `defaultCalendar`.
+ *
+ * `start`/`end` may be given as strings (`YYYY-MM-DD` for all-day, otherwise an ISO 8601 date time),
+ * and `attendees` as a list of email addresses. Date times without an offset or `timeZone` get `timeZone`.
+ */
+export function parsePlan(text: string, fileName: string, defaultCalendar: string, timeZone: string): PlanOperation[] {
+	const data: unknown = fileName.endsWith(".json") ? JSON.parse(text) : YAML.parse(text);
+	const list: unknown = isRecord(data) ? data.operations : data;
+	if (!Array.isArray(list)) throw new Error("Invalid plan: expected a list of operations or { operations: [...] }");
+	const planCalendar = isRecord(data) && typeof data.calendar === "string" ? data.calendar : undefined;
+	return list.map((item: unknown, index) => parseOperation(item, index, planCalendar ?? defaultCalendar, timeZone));
+}
+
+function parseOperation(item: unknown, index: number, defaultCalendar: string, timeZone: string): PlanOperation {
+	const fail = (message: string): never => {
+		throw new Error(`Invalid plan: operation ${index + 1}: ${message}`);
+	};
+	if (!isRecord(item)) return fail("expected an object");
+	const op = PLAN_OPERATIONS.find((name) => name === item.op);
+	if (!op) return fail(`op must be one of ${PLAN_OPERATIONS.join(", ")}`);
+	const text = (key: string): string | undefined => {
+		const value = item[key];
+		if (value === undefined || value === null || value === "") return undefined;
+		if (typeof value !== "string" && typeof value !== "number") fail(`"${key}" must be a string`);
+		return String(value);
+	};
+	const calendar = text("calendar") ?? defaultCalendar;
+	if (op === "create" || op === "update") {
+		const event = item.event;
+		if (!isRecord(event)) return fail(`${op} requires "event"`);
+		if (op === "create") {
+			if (!event.start || !event.end) fail('create requires "event.start" and "event.end"');
+			return { op, calendar, event: normalizeEvent(event, timeZone, fail) };
+		}
+		return {
+			op,
+			calendar,
+			id: text("id") ?? fail('update requires "id"'),
+			event: normalizeEvent(event, timeZone, fail),
+		};
+	}
+	const id = text("id") ?? fail(`${op} requires "id"`);
+	if (op === "delete") return { op, calendar, id };
+	return { op, calendar, id, to: text("to") ?? fail('move requires "to"') };
+}
+
+function normalizeEvent(
+	event: Record<string, unknown>,
+	timeZone: string,
+	fail: (message: string) => never,
+): CalendarEvent {
+	// Other fields are passed on as they are; the API validates them
+	const result: CalendarEvent = { ...event };
+	for (const key of ["start", "end"] as const) {
+		const value = event[key];
+		if (value === undefined) continue;
+		let time: EventDateTime;
+		if (typeof value === "string") {
+			time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? { date: value } : { dateTime: value };
+		} else if (isRecord(value) && ["date", "dateTime", "timeZone"].every((k) => isOptionalString(value[k]))) {
+			time = value;
+		} else {
+			return fail(`"event.${key}" must be a string or { date | dateTime, timeZone }`);
+		}
+		if (time.dateTime && !time.timeZone && isFloating(time.dateTime)) time = { ...time, timeZone };
+		result[key] = time;
+	}
+	if (event.attendees !== undefined) {
+		if (!Array.isArray(event.attendees)) return fail('"event.attendees" must be a list');
+		result.attendees = event.attendees.map((attendee: unknown) => {
+			if (typeof attendee === "string") return { email: attendee };
+			if (isRecord(attendee)) return attendee;
+			return fail('"event.attendees" must be email addresses or attendee objects');
+		});
+	}
+	return result;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown): boolean {
+	return value === undefined || value === null || typeof value === "string";
+}
+
+function isFloating(dateTime: string): boolean {
+	return !/(?:Z|[+-]\d{2}:?\d{2})$/i.test(dateTime);
+}
+
+/**
+ * The API request executing an operation. Updates are sent as PATCH, so only the given fields change.
+ */
+export function toBatchRequest(operation: PlanOperation, sendUpdates?: string): BatchRequest {
+	const events = `/calendar/v3/calendars/${encodeURIComponent(operation.calendar)}/events`;
+	const query = new URLSearchParams();
+	if (operation.op === "move") query.set("destination", operation.to);
+	if (sendUpdates) query.set("sendUpdates", sendUpdates);
+	const suffix = query.size > 0 ? `?${query}` : "";
+	switch (operation.op) {
+		case "create":
+			return { method: "POST", path: `${events}${suffix}`, body: operation.event };
+		case "update":
+			return {
+				method: "PATCH",
+				path: `${events}/${encodeURIComponent(operation.id)}${suffix}`,
+				body: operation.event,
+			};
+		case "delete":
+			return { method: "DELETE", path: `${events}/${encodeURIComponent(operation.id)}${suffix}` };
+		case "move":
+			return { method: "POST", path: `${events}/${encodeURIComponent(operation.id)}/move${suffix}` };
+	}
+}
+
+/**
+ * What an operation would change, given the current event (undefined for create).
+ */
+export function diffOperation(operation: PlanOperation, existing?: CalendarEvent): FieldChange[] {
+	switch (operation.op) {
+		case "create":
+			return Object.entries(operation.event).map(([field, after]) => ({ field, after }));
+		case "update":
+			return Object.entries(operation.event)
+				.filter(([field, after]) => {
+					const before = existing?.[field as keyof CalendarEvent];
+					if (field === "start" || field === "end") {
+						return toInstant(before as EventDateTime | undefined) !== toInstant(after as EventDateTime);
+					}
+					return JSON.stringify(before) !== JSON.stringify(after);
+				})
+				.map(([field, after]) => ({ field, before: existing?.[field as keyof CalendarEvent], after }));
+		case "delete":
+			return [{ field: "event", before: existing?.summary ?? operation.id }];
+		case "move":
+			return [{ field: "calendar", before: operation.calendar, after: operation.to }];
+	}
+}
+
+/**
+ * The date of an all-day time, or the UTC instant of a date time, so the same time compares equal however
+ * it is written (offset vs. time zone).
+ */
+function toInstant(time: EventDateTime | undefined): string | undefined {
+	if (!time?.dateTime) return time?.date ?? undefined;
+	const wall = time.dateTime.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/);
+	if (wall && time.timeZone && isFloating(time.dateTime)) {
+		const [year, month, day, hour, minute, second] = wall.slice(1).map((part) => Number(part ?? 0));
+		return zonedTimeToUtc({ year, month, day }, hour, minute, second, time.timeZone).toISOString();
+	}
+	const instant = new Date(time.dateTime);
+	return Number.isNaN(instant.getTime()) ? time.dateTime : instant.toISOString();
+}
@@ -0,0 +1,155 @@
+import { getSystemTimeZone, zonedTimeToUtc } from "./date-parser.js";
+
+export type Frequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export type RecurrenceScope = "this" | "following" | "all";
+
+export const FREQUENCIES: Frequency[] = ["daily", "weekly", "monthly", "yearly"];
+export const RECURRENCE_SCOPES: RecurrenceScope[] = ["this", "following", "all"];
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+export interface RepeatOptions {
+	frequency: Frequency;
+	interval?: number;
+	count?: number;
+	/** Last day (YYYY-MM-DD) or instant (ISO 8601) of the series */
+	until?: string;
+	/** Weekdays such as MO, WE or positional ones such as 1MO, -1FR */
+	byDay?: string[];
+}
+
+/**
+ * Builds an RFC 5545 RRULE line (as expected by the Calendar API's `recurrence` field).
+ * `timeZone` is the series' time zone, in which a plain UNTIL date ends.
+ */
+export function buildRRule(options: RepeatOptions, allDay = false, timeZone = getSystemTimeZone()): string {
+	if (options.count !== undefined && options.until !== undefined) {
+		throw new Error("Use either count or until, not both");
+	}
+
+	const parts = new Map<string, string>();
+	parts.set("FREQ", options.frequency.toUpperCase());
+	if (options.interval !== undefined) {
+		if (!Number.isInteger(options.interval) || options.interval < 1) {
+			throw new Error(`Invalid interval: ${options.interval}`);
+		}
+		if (options.interval > 1) parts.set("INTERVAL", String(options.interval));
+	}
+	if (options.count !== undefined) {
+		if (!Number.isInteger(options.count) || options.count < 1) {
+			throw new Error(`Invalid count: ${options.count}`);
+		}
+		parts.set("COUNT", String(options.count));
+	}
+	if (options.until !== undefined) {
+		parts.set("UNTIL", formatUntil(options.until, allDay, timeZone));
+	}
+	if (options.byDay && options.byDay.length > 0) {
+		const days = options.byDay.map((d) => d.trim().toUpperCase());
+		for (const day of days) {
+			const match = day.match(/^([+-]?\d{1,2})?([A-Z]{2})$/);
+			if (!match || !WEEKDAYS.includes(match[2])) {
+				throw new Error(`Invalid weekday: ${day} (expected MO, TU, WE, TH, FR, SA, SU)`);
+			}
+		}
+		parts.set("BYDAY", days.join(","));
+	}
+	return formatRRule(parts);
+}
+
+/**
+ * Parses an `RRULE:` line into its parts, keyed by upper-case rule name.
+ */
+export function parseRRule(line: string): Map<string, string> {
+	const body = line.replace(/^RRULE:/i, "");
+	const parts = new Map<string, string>();
+	for (const part of body.split(";")) {
+		if (!part) continue;
+		const [key, value] = part.split("=");
+		parts.set(key.toUpperCase(), value ?? "");
+	}
+	return parts;
+}
+
+export function formatRRule(parts: Map<string, string>): string {
+	return `RRULE:${Array.from(parts, ([k, v]) => `${k}=${v}`).join(";")}`;
+}
+
+/**
+ * Converts a date (YYYY-MM-DD) or ISO 8601 instant into the UNTIL format. All-day series use a
+ * plain date, timed series a UTC timestamp. A plain date on a timed series includes that whole day in `timeZone`.
+ */
+export function formatUntil(value: string, allDay: boolean, timeZone = getSystemTimeZone()): string {
+	const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+	if (allDay) {
+		const date = dateOnly ? value : new Date(value).toISOString().slice(0, 10);
+		if (Number.isNaN(Date.parse(date))) throw new Error(`Invalid until: ${value}`);
+		return date.replace(/-/g, "");
+	}
+	if (dateOnly) {
+		const [year, month, day] = value.split("-").map(Number);
+		const endOfDay = zonedTimeToUtc({ year, month, day }, 23, 59, 59, timeZone);
+		if (Number.isNaN(endOfDay.getTime())) throw new Error(`Invalid until: ${value}`);
+		return toUtcStamp(endOfDay);
+	}
+	const instant = new Date(value);
+	if (Number.isNaN(instant.getTime())) throw new Error(`Invalid until: ${value}`);
+	return toUtcStamp(instant);
+}
+
+/**
+ * Ends the series right before the given occurrence start: sets UNTIL and drops COUNT on every RRULE.
+ * EXDATE/RDATE lines are kept as is.
+ */
+export function trimRecurrence(
+	recurrence: string[],
+	occurrenceStart: { dateTime?: string | null; date?: string | null },
+): string[] {
+	let until: string;
+	if (occurrenceStart.date) {
+		const day = new Date(`${occurrenceStart.date}T00:00:00Z`);
+		day.setUTCDate(day.getUTCDate() - 1);
+		until = day.toISOString().slice(0, 10).replace(/-/g, "");
+	} else if (occurrenceStart.dateTime) {
+		until = toUtcStamp(new Date(new Date(occurrenceStart.dateTime).getTime() - 1000));
+	} else {
+		throw new Error("Occurrence has no start time");
+	}
+
+	return recurrence.map((line) => {
+		if (!/^RRULE:/i.test(line)) return line;
+		const parts = parseRRule(line);
+		parts.delete("COUNT");
+		parts.set("UNTIL", until);
+		return formatRRule(parts);
+	});
+}
+
+/**
+ * Returns the COUNT of the first RRULE, if it has one.
+ */
+export function getRRuleCount(recurrence: string[]): number | undefined {
+	const rule = recurrence.find((line) => /^RRULE:/i.test(line));
+	const count = rule ? parseRRule(rule).get("COUNT") : undefined;
+	return count !== undefined ? Number(count) : undefined;
+}
+
+/**
+ * Replaces the COUNT of every RRULE.
+ */
+export function setRRuleCount(recurrence: string[], count: number): string[] {
+	return recurrence.map((line) => {
+		if (!/^RRULE:/i.test(line)) return line;
+		const parts = parseRRule(line);
+		parts.set("COUNT", String(count));
+		return formatRRule(parts);
+	});
+}
+
+function toUtcStamp(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/\.\d{3}Z$/, "Z")
+		.replace(/[-:]/g, "");
+}
@@ -0,0 +1,75 @@
+import { getApiErrorInfo, isNetworkError, isRateLimitError } from "./errors.js";
+
+export interface RetryOptions {
+	/** Number of retries after the first attempt (default: 3) */
+	retries?: number;
+	/** Delay before the first retry in ms, doubled for every further retry (default: 500) */
+	baseDelay?: number;
+	/** Upper bound for the backoff delay in ms (default: 30000). A longer Retry-After is still honored. */
+	maxDelay?: number;
+	/** Called before waiting for a retry */
+	onRetry?: (info: { attempt: number; retries: number; delay: number; error: unknown }) => void;
+}
+
+export const DEFAULT_RETRIES = 3;
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+/**
+ * Whether a failed request may succeed when repeated: rate limits, server errors and network failures.
+ */
+export function isRetryable(e: unknown): boolean {
+	const { status } = getApiErrorInfo(e);
+	return (status !== undefined && RETRYABLE_STATUSES.includes(status)) || isRateLimitError(e) || isNetworkError(e);
+}
+
+/**
+ * Whether a failed request that is not idempotent (e.g. creating an event) may be repeated: only if it was rate
+ * limited and thus not processed. After a server or network error it may have taken effect already.
+ */
+export function isRetryableNonIdempotent(e: unknown): boolean {
+	return isRateLimitError(e);
+}
+
+/**
+ * Delay in ms requested by a Retry-After response header (seconds or HTTP date), if any.
+ */
+export function getRetryAfter(e: unknown): number | undefined {
+	const headers = (e as { response?: { headers?: unknown } } | null)?.response?.headers;
+	if (!headers) return undefined;
+	// gaxios 7 returns fetch Headers, older versions plain objects
+	const value =
+		typeof (headers as Headers).get === "function"
+			? (headers as Headers).get("retry-after")
+			: (headers as Record<string, string | undefined>)["retry-after"];
+	if (!value) return undefined;
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Runs `fn`, retrying failures accepted by `shouldRetry` with exponential backoff and full jitter, or after the
+ * delay given by a Retry-After header. The last error is rethrown once the retry budget is used up.
+ */
+export async function withRetry<T>(
+	fn: () => Promise<T>,
+	options: RetryOptions = {},
+	shouldRetry: (e: unknown) => boolean = isRetryable,
+): Promise<T> {
+	const retries = options.retries ?? DEFAULT_RETRIES;
+	const baseDelay = options.baseDelay ?? 500;
+	const maxDelay = options.maxDelay ?? 30000;
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn();
+		} catch (e) {
+			if (attempt > retries || !shouldRetry(e)) throw e;
+			const backoff = Math.random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+			const delay = getRetryAfter(e) ?? backoff;
+			options.onRetry?.({ attempt, retries, delay, error: e });
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+	}
+}
@@ -0,0 +1,231 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { restrictPermissions, writeFileAtomic } from "./fs-utils.js";
+import type { CalendarAccount } from "./types.js";
+
+export type BackendName = "plaintext" | "encrypted";
+
+export const BACKEND_NAMES: BackendName[] = ["plaintext", "encrypted"];
+
+export interface OAuthCredentials {
+	clientId: string;
+	clientSecret: string;
+}
+
+export interface StoredSecrets {
+	accounts: CalendarAccount[];
+	credentials: OAuthCredentials | null;
+}
+
+/**
+ * Where account tokens and OAuth client credentials are persisted.
+ */
+export interface SecretBackend {
+	readonly name: BackendName;
+	exists(): boolean;
+	load(): StoredSecrets;
+	save(secrets: StoredSecrets): void;
+	remove(): void;
+}
+
+/**
+ * Plain JSON files (`accounts.json`, `credentials.json`), readable only by the current user.
+ */
+export class PlaintextBackend implements SecretBackend {
+	readonly name = "plaintext";
+	private accountsFile: string;
+	private credentialsFile: string;
+
+	constructor(dir: string) {
+		this.accountsFile = path.join(dir, "accounts.json");
+		this.credentialsFile = path.join(dir, "credentials.json");
+	}
+
+	exists(): boolean {
+		return fs.existsSync(this.accountsFile) || fs.existsSync(this.credentialsFile);
+	}
+
+	load(): StoredSecrets {
+		return {
+			accounts: toAccounts(this.readJson(this.accountsFile), this.accountsFile),
+			credentials: toCredentials(this.readJson(this.credentialsFile), this.credentialsFile),
+		};
+	}
+
+	save(secrets: StoredSecrets): void {
+		writeFileAtomic(this.accountsFile, JSON.stringify(secrets.accounts, null, 2));
+		if (secrets.credentials) {
+			writeFileAtomic(this.credentialsFile, JSON.stringify(secrets.credentials, null, 2));
+		}
+	}
+
+	remove(): void {
+		fs.rmSync(this.accountsFile, { force: true });
+		fs.rmSync(this.credentialsFile, { force: true });
+	}
+
+	/**
+	 * Throws if the file cannot be read or parsed: treating it as empty would drop its accounts on the next save.
+	 */
+	private readJson(file: string): unknown {
+		if (!fs.existsSync(file)) return null;
+		try {
+			restrictPermissions(file, 0o600);
+			return JSON.parse(fs.readFileSync(file, "utf8"));
+		} catch (e) {
+			throw new Error(`Invalid ${file}: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+}
+
+interface EncryptedFile {
+	version: 1;
+	kdf: "scrypt" | "none";
+	salt?: string;
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+/**
+ * A single AES-256-GCM encrypted file (`secrets.enc`). The key is either derived from a passphrase
+ * (`GCCLI_PASSPHRASE`, scrypt) or given directly as 32 bytes in base64 or hex (`GCCLI_KEY`, e.g. for CI).
+ */
+export class EncryptedFileBackend implements SecretBackend {
+	readonly name = "encrypted";
+	private file: string;
+
+	constructor(
+		dir: string,
+		private env: NodeJS.ProcessEnv = process.env,
+	) {
+		this.file = path.join(dir, "secrets.enc");
+	}
+
+	exists(): boolean {
+		return fs.existsSync(this.file);
+	}
+
+	load(): StoredSecrets {
+		if (!this.exists()) return { accounts: [], credentials: null };
+		restrictPermissions(this.file, 0o600);
+		let content: unknown;
+		try {
+			content = JSON.parse(fs.readFileSync(this.file, "utf8"));
+		} catch (e) {
+			throw new Error(`Invalid ${this.file}: ${e instanceof Error ? e.message : String(e)}`);
+		}
+		if (!isEncryptedFile(content)) throw new Error(`${this.file} is not a gccli secrets file`);
+		const key = this.getKey(content.kdf, content.salt ? Buffer.from(content.salt, "base64") : undefined);
+		const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(content.iv, "base64"));
+		decipher.setAuthTag(Buffer.from(content.tag, "base64"));
+		let secrets: unknown;
+		try {
+			const plain = Buffer.concat([decipher.update(Buffer.from(content.data, "base64")), decipher.final()]);
+			secrets = JSON.parse(plain.toString("utf8"));
+		} catch {
+			throw new Error(`Failed to decrypt ${this.file} (wrong passphrase or key?)`);
+		}
+		if (!isRecord(secrets)) throw new Error(`${this.file} does not contain gccli secrets`);
+		return {
+			accounts: toAccounts(secrets.accounts, this.file),
+			credentials: toCredentials(secrets.credentials, this.file),
+		};
+	}
+
+	save(secrets: StoredSecrets): void {
+		const kdf = this.env.GCCLI_KEY ? "none" : "scrypt";
+		const salt = kdf === "scrypt" ? crypto.randomBytes(16) : undefined;
+		const key = this.getKey(kdf, salt);
+		const iv = crypto.randomBytes(12);
+		const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+		const data = Buffer.concat([cipher.update(JSON.stringify(secrets), "utf8"), cipher.final()]);
+		const content: EncryptedFile = {
+			version: 1,
+			kdf,
+			salt: salt?.toString("base64"),
+			iv: iv.toString("base64"),
+			tag: cipher.getAuthTag().toString("base64"),
+			data: data.toString("base64"),
+		};
+		writeFileAtomic(this.file, JSON.stringify(content, null, 2));
+	}
+
+	remove(): void {
+		fs.rmSync(this.file, { force: true });
+	}
+
+	private getKey(kdf: EncryptedFile["kdf"], salt: Buffer | undefined): Buffer {
+		if (kdf === "none") {
+			const raw = this.env.GCCLI_KEY;
+			if (!raw) throw new Error(`${this.file} is encrypted with a key, set GCCLI_KEY`);
+			const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+			if (key.length !== 32) throw new Error("GCCLI_KEY must be 32 bytes, base64 or hex encoded");
+			return key;
+		}
+		const passphrase = this.env.GCCLI_PASSPHRASE;
+		if (!passphrase) throw new Error(`${this.file} is encrypted with a passphrase, set GCCLI_PASSPHRASE`);
+		return crypto.scryptSync(passphrase, salt!, 32, { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 });
+	}
+}
+
+/**
+ * Validates a stored account list. Invalid entries are an error rather than skipped, so that saving the store
+ * again cannot drop them.
+ */
+function toAccounts(value: unknown, file: string): CalendarAccount[] {
+	if (value === null || value === undefined) return [];
+	if (!Array.isArray(value)) throw new Error(`Invalid ${file}: expected a list of accounts`);
+	for (const [index, account] of value.entries()) {
+		if (!isAccount(account)) {
+			const email = isRecord(account) && typeof account.email === "string" ? ` (${account.email})` : "";
+			throw new Error(`Invalid ${file}: account ${index + 1}${email} is incomplete`);
+		}
+	}
+	return value;
+}
+
+function isAccount(value: unknown): value is CalendarAccount {
+	if (!isRecord(value) || typeof value.email !== "string") return false;
+	if (value.authType === "service") {
+		const key = value.serviceAccount;
+		return isRecord(key) && typeof key.clientEmail === "string" && typeof key.privateKey === "string";
+	}
+	const oauth2 = value.oauth2;
+	return (
+		(value.authType === undefined || value.authType === "oauth") &&
+		isRecord(oauth2) &&
+		typeof oauth2.clientId === "string" &&
+		typeof oauth2.clientSecret === "string" &&
+		typeof oauth2.refreshToken === "string"
+	);
+}
+
+function toCredentials(value: unknown, file: string): OAuthCredentials | null {
+	if (value === null || value === undefined) return null;
+	if (!isRecord(value) || typeof value.clientId !== "string" || typeof value.clientSecret !== "string") {
+		throw new Error(`Invalid ${file}: expected { clientId, clientSecret }`);
+	}
+	return { clientId: value.clientId, clientSecret: value.clientSecret };
+}
+
+function isEncryptedFile(value: unknown): value is EncryptedFile {
+	return (
+		isRecord(value) &&
+		value.version === 1 &&
+		(value.kdf === "scrypt" || value.kdf === "none") &&
+		(value.salt === undefined || typeof value.salt === "string") &&
+		typeof value.iv === "string" &&
+		typeof value.tag === "string" &&
+		typeof value.data === "string"
+	);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function createBackend(name: BackendName, dir: string): SecretBackend {
+	return name === "encrypted" ? new EncryptedFileBackend(dir) : new PlaintextBackend(dir);
+}
@@ -0,0 +1,127 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getConfigDir } from "./config.js";
+import { parseDateRange } from "./date-parser.js";
+import { writeFileAtomic } from "./fs-utils.js";
+
+/**
+ * Saved `create` options by option name, e.g. `{ "summary": "Interview: {{candidate}}", "duration": "1h" }`.
+ * String values may contain `{{name}}` placeholders, filled in when the template is used.
+ */
+export type EventTemplate = Record<string, string | boolean | string[]>;
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Event templates, stored as `templates.json` next to the config file.
+ */
+export class TemplateStore {
+	private templates: Record<string, EventTemplate> = {};
+
+	constructor(private file: string = path.join(getConfigDir(), "templates.json")) {
+		this.load();
+	}
+
+	private load(): void {
+		if (!fs.existsSync(this.file)) return;
+		try {
+			this.templates = JSON.parse(fs.readFileSync(this.file, "utf8"));
+		} catch (e) {
+			throw new Error(`Invalid templates file ${this.file}: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	private save(): void {
+		fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+		writeFileAtomic(this.file, JSON.stringify(this.templates, null, 2));
+	}
+
+	getPath(): string {
+		return this.file;
+	}
+
+	list(): Array<{ name: string; template: EventTemplate }> {
+		return Object.entries(this.templates)
+			.map(([name, template]) => ({ name, template }))
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	get(name: string): EventTemplate | undefined {
+		return this.templates[name];
+	}
+
+	/**
+	 * Saves a template, replacing an existing one with the same name.
+	 */
+	set(name: string, template: EventTemplate): void {
+		if (!/^[\w.-]+$/.test(name)) {
+			throw new Error(`Invalid template name: ${name} (letters, digits, '.', '_' and '-' only)`);
+		}
+		this.templates[name] = template;
+		this.save();
+	}
+
+	remove(name: string): boolean {
+		if (!this.templates[name]) return false;
+		delete this.templates[name];
+		this.save();
+		return true;
+	}
+}
+
+/**
+ * Names of the placeholders used in a template, in order of first use.
+ */
+export function getTemplateVariables(template: EventTemplate): string[] {
+	const names = new Set<string>();
+	for (const value of Object.values(template).flat()) {
+		if (typeof value !== "string") continue;
+		for (const match of value.matchAll(PLACEHOLDER)) names.add(match[1]);
+	}
+	return [...names];
+}
+
+/**
+ * Replaces the placeholders of a template. Throws if a placeholder has no value.
+ */
+export function fillTemplate(template: EventTemplate, variables: Record<string, string>): EventTemplate {
+	const missing = getTemplateVariables(template).filter((name) => variables[name] === undefined);
+	if (missing.length > 0) throw new Error(`Missing template variables: ${missing.join(", ")} (use --var name=value)`);
+
+	const fill = (value: string) => value.replace(PLACEHOLDER, (_, name: string) => variables[name]);
+	const result: EventTemplate = {};
+	for (const [key, value] of Object.entries(template)) {
+		result[key] = typeof value === "string" ? fill(value) : Array.isArray(value) ? value.map(fill) : value;
+	}
+	return result;
+}
+
+/**
+ * Combines a filled template with the options given explicitly, which take precedence, including over template
+ * options they would conflict with: `end`, `duration` or a `start` range replace the template's end and duration,
+ * `rrule` and `repeat` each other's recurrence, and `count` and `until` each other. Ranges are read in `timeZone`.
+ */
+export function applyTemplate<T extends Partial<EventTemplate>>(template: T, options: T, timeZone: string): T {
+	const base: Partial<EventTemplate> = { ...template };
+	const start = options.start;
+	if (options.end || options.duration || (typeof start === "string" && isDateRange(start, timeZone))) {
+		base.end = undefined;
+		base.duration = undefined;
+	}
+	if (options.rrule) {
+		for (const key of ["repeat", "interval", "count", "until", "byday"]) base[key] = undefined;
+	}
+	if (options.repeat) base.rrule = undefined;
+	if (options.count) base.until = undefined;
+	if (options.until) base.count = undefined;
+	return { ...base, ...options };
+}
+
+function isDateRange(text: string, timeZone: string): boolean {
+	try {
+		return parseDateRange(text, { timeZone }).end !== undefined;
+	} catch {
+		// Reported when the times are resolved
+		return false;
+	}
+}
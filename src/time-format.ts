@@ -0,0 +1,105 @@
+import type { calendar_v3 } from "googleapis";
+import { addDays, formatInTimeZone } from "./date-parser.js";
+
+type CalendarEvent = calendar_v3.Schema$Event;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * An event's start and end for display, in a time zone. For all-day events, `end` is the last day of the event
+ * (the API's end date is exclusive).
+ */
+export interface EventTimes {
+	/** `Mon 2024-01-15 10:00`, or `Mon 2024-01-15` for all-day events */
+	start: string;
+	end: string;
+	/** `1h 30m`, or `all day` / `3 days` for all-day events */
+	duration: string;
+	allDay: boolean;
+	/** Number of calendar days the event touches */
+	days: number;
+}
+
+/**
+ * Formats a duration as `45m`, `1h 30m` or `2d 4h`.
+ */
+export function formatDuration(ms: number): string {
+	const minutes = Math.round(ms / MINUTE);
+	const parts = [
+		[Math.floor(minutes / 1440), "d"],
+		[Math.floor((minutes % 1440) / 60), "h"],
+		[minutes % 60, "m"],
+	] as const;
+	return (
+		parts
+			.filter(([value]) => value > 0)
+			.map(([value, unit]) => `${value}${unit}`)
+			.join(" ") || "0m"
+	);
+}
+
+/**
+ * `Mon 2024-01-15` for a YYYY-MM-DD date.
+ */
+export function formatDay(date: string): string {
+	const weekday = new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", { weekday: "short", timeZone: "UTC" });
+	return `${weekday} ${date}`;
+}
+
+/**
+ * `Mon 2024-01-15 10:00` in the time zone.
+ */
+export function formatDateTime(date: Date, timeZone: string): string {
+	const local = formatInTimeZone(date, timeZone);
+	return `${formatDay(local.slice(0, 10))} ${local.slice(11, 16)}`;
+}
+
+export function getEventTimes(event: CalendarEvent, timeZone: string): EventTimes {
+	if (event.start?.date) {
+		const endDate =
+			event.end?.date && event.end.date > event.start.date ? event.end.date : addDays(event.start.date, 1);
+		const days = Math.round((Date.parse(endDate) - Date.parse(event.start.date)) / DAY);
+		return {
+			start: formatDay(event.start.date),
+			end: formatDay(addDays(endDate, -1)),
+			duration: days === 1 ? "all day" : `${days} days`,
+			allDay: true,
+			days,
+		};
+	}
+	const start = new Date(event.start?.dateTime || 0);
+	const end = event.end?.dateTime ? new Date(event.end.dateTime) : start;
+	const startDay = formatInTimeZone(start, timeZone).slice(0, 10);
+	// An event ending at midnight does not touch the next day
+	const lastDay = formatInTimeZone(new Date(Math.max(start.getTime(), end.getTime() - 1)), timeZone).slice(0, 10);
+	return {
+		start: formatDateTime(start, timeZone),
+		end: formatDateTime(end, timeZone),
+		duration: formatDuration(end.getTime() - start.getTime()),
+		allDay: false,
+		days: Math.round((Date.parse(lastDay) - Date.parse(startDay)) / DAY) + 1,
+	};
+}
+
+/**
+ * An event's time on one line, e.g. `Mon 2024-01-15 10:00-11:30 (1h 30m)`,
+ * `Mon 2024-01-15 22:00 - Tue 2024-01-16 02:00 (4h)` or `Mon 2024-01-15 - Wed 2024-01-17 (all day, 3 days)`.
+ */
+export function formatEventSpan(event: CalendarEvent, timeZone: string): string {
+	const t = getEventTimes(event, timeZone);
+	if (t.allDay) return t.days === 1 ? `${t.start} (all day)` : `${t.start} - ${t.end} (all day, ${t.duration})`;
+	if (t.days === 1) return `${t.start}-${t.end.slice(-5)} (${t.duration})`;
+	return `${t.start} - ${t.end} (${t.duration})`;
+}
+
+/**
+ * An event's time of day, for lists grouped by day: `10:00-11:30`, `22:00-02:00 (+1d)`, `all day` or
+ * `all day (3 days)`.
+ */
+export function formatTimeOfDay(event: CalendarEvent, timeZone: string): string {
+	const t = getEventTimes(event, timeZone);
+	if (t.allDay) return t.days === 1 ? "all day" : `all day (${t.duration})`;
+	const range = `${t.start.slice(-5)}-${t.end.slice(-5)}`;
+	return t.days === 1 ? range : `${range} (+${t.days - 1}d)`;
+}
@@ -0,0 +1,349 @@
+import type { calendar_v3 } from "googleapis";
+import type { AgendaEntry } from "./calendar-service.js";
+import { addDays, formatInTimeZone } from "./date-parser.js";
+import { eventTypeLabel, getConferenceLink } from "./event-options.js";
+import { formatDay, formatEventSpan, formatTimeOfDay } from "./time-format.js";
+
+type CalendarEvent = calendar_v3.Schema$Event;
+
+export type TuiView = "day" | "week" | "month";
+export const TUI_VIEWS: TuiView[] = ["day", "week", "month"];
+
+/**
+ * Everything shown on one screen of the TUI.
+ */
+export interface TuiFrame {
+	view: TuiView;
+	/** Days of the view (YYYY-MM-DD), see `getViewDays` */
+	days: string[];
+	/** Selected day */
+	date: string;
+	today: string;
+	/** Index of the selected event among the selected day's events */
+	index: number;
+	/** Events of each day of the view, see `groupByDay` */
+	byDay: Map<string, AgendaEntry[]>;
+	timeZone: string;
+	/** The selected event as fetched by `getEvent`, once loaded */
+	detail?: CalendarEvent;
+	showDetail: boolean;
+	/** Entries with a change that has not been confirmed by the API yet */
+	pending: Set<AgendaEntry>;
+	loading: boolean;
+	help: boolean;
+	/** Bottom line: key hints, a prompt, or a message (toast) */
+	status: { text: string; type: "hint" | "prompt" | "info" | "error" };
+}
+
+/** A line of text in a list, styled as a whole */
+interface Cell {
+	text: string;
+	selected?: boolean;
+	dim?: boolean;
+	bold?: boolean;
+	error?: boolean;
+}
+
+const HELP = [
+	["←/→, h/l", "Previous/next day"],
+	["↑/↓, k/j", "Previous/next event of the day"],
+	["[ / ]", "Previous/next day, week or month"],
+	["t", "Today"],
+	["1, 2, 3, v", "Day, week, month view, next view"],
+	["Enter", "Show/hide event details"],
+	["n", "New event on the selected day (Escape cancels prompts, Ctrl-U clears them)"],
+	["e", "Edit title and time"],
+	["d", "Delete (this occurrence of recurring events)"],
+	["r", "RSVP: accept, decline, tentative"],
+	["m", "Move to another calendar of the account"],
+	["g", "Reload"],
+	["q, Ctrl-C", "Quit"],
+];
+
+/** Width of the detail pane, when shown */
+const DETAIL_WIDTH = 48;
+/** Narrower terminals show the detail pane instead of the grid */
+const MIN_SPLIT_WIDTH = 100;
+
+/**
+ * The days shown by a view of `date`: the day itself, its week (Monday first), or the whole weeks covering its month.
+ */
+export function getViewDays(view: TuiView, date: string): string[] {
+	if (view === "day") return [date];
+	const first = view === "week" ? date : `${date.slice(0, 8)}01`;
+	const start = addDays(first, -((new Date(`${first}T12:00:00Z`).getUTCDay() + 6) % 7));
+	let count = 7;
+	if (view === "month") {
+		const nextMonth = addDays(`${date.slice(0, 8)}28`, 4).slice(0, 8);
+		const last = addDays(`${nextMonth}01`, -1);
+		count = Math.ceil((daysBetween(start, last) + 1) / 7) * 7;
+	}
+	return Array.from({ length: count }, (_, i) => addDays(start, i));
+}
+
+/**
+ * The day `periods` days, weeks or months later, depending on the view. Month days are clamped to shorter months.
+ */
+export function shiftDate(view: TuiView, date: string, periods: number): string {
+	if (view === "day") return addDays(date, periods);
+	if (view === "week") return addDays(date, periods * 7);
+	const [year, month, day] = date.split("-").map(Number);
+	const target = new Date(Date.UTC(year, month - 1 + periods, 1));
+	const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+	target.setUTCDate(Math.min(day, lastDay));
+	return target.toISOString().slice(0, 10);
+}
+
+/**
+ * First and last day (YYYY-MM-DD, in the time zone) an event touches.
+ */
+export function getEventDays(event: CalendarEvent, timeZone: string): { first: string; last: string } {
+	if (event.start?.date) {
+		const end = event.end?.date && event.end.date > event.start.date ? event.end.date : addDays(event.start.date, 1);
+		return { first: event.start.date, last: addDays(end, -1) };
+	}
+	const start = new Date(event.start?.dateTime || 0);
+	const end = new Date(event.end?.dateTime || event.start?.dateTime || 0);
+	// An event ending at midnight does not touch the next day
+	const lastInstant = new Date(Math.max(start.getTime(), end.getTime() - 1));
+	return {
+		first: formatInTimeZone(start, timeZone).slice(0, 10),
+		last: formatInTimeZone(lastInstant, timeZone).slice(0, 10),
+	};
+}
+
+/**
+ * The entries of each day, all-day events first, then by start. Events spanning several days are listed on each.
+ */
+export function groupByDay(entries: AgendaEntry[], days: string[], timeZone: string): Map<string, AgendaEntry[]> {
+	const sorted = [...entries].sort((a, b) => {
+		const allDay = Number(!a.event.start?.date) - Number(!b.event.start?.date);
+		return (
+			allDay ||
+			eventStart(a.event) - eventStart(b.event) ||
+			(a.event.summary || "").localeCompare(b.event.summary || "")
+		);
+	});
+	const byDay = new Map<string, AgendaEntry[]>(days.map((day) => [day, []]));
+	for (const entry of sorted) {
+		const { first, last } = getEventDays(entry.event, timeZone);
+		for (const day of days) {
+			if (day >= first && day <= last) byDay.get(day)!.push(entry);
+		}
+	}
+	return byDay;
+}
+
+/**
+ * Renders the frame as `height` lines of `width` columns, including ANSI styles.
+ */
+export function renderFrame(frame: TuiFrame, width: number, height: number): string[] {
+	const bodyHeight = Math.max(1, height - 2);
+	const selected = frame.byDay.get(frame.date)?.[frame.index];
+	let body: string[];
+	if (frame.help) {
+		body = HELP.map(([keys, action]) => ` ${keys.padEnd(12)} ${action}`).map((line) => fit(line, width));
+	} else if (frame.showDetail && width < MIN_SPLIT_WIDTH) {
+		body = renderDetail(selected, frame, width);
+	} else {
+		const detailWidth = frame.showDetail ? DETAIL_WIDTH : 0;
+		const gridWidth = frame.showDetail ? width - detailWidth - 1 : width;
+		const grid = renderGrid(frame, gridWidth, bodyHeight);
+		const detail = frame.showDetail ? renderDetail(selected, frame, detailWidth) : [];
+		body = grid.map((line, i) =>
+			frame.showDetail
+				? `${line}${paint({ text: "│", dim: true }, 1)}${detail[i] ?? " ".repeat(detailWidth)}`
+				: line,
+		);
+	}
+	body = body.slice(0, bodyHeight);
+	while (body.length < bodyHeight) body.push(" ".repeat(width));
+
+	const title = ` gccli  ${viewTitle(frame)}${frame.loading ? "  loading..." : ""}`;
+	const { text, type } = frame.status;
+	const status = paint(
+		{ text: ` ${text}`, dim: type === "hint", error: type === "error", bold: type === "prompt" },
+		width,
+	);
+	return [paint({ text: title, selected: true }, width), ...body, status];
+}
+
+function viewTitle(frame: TuiFrame): string {
+	if (frame.view === "day") return formatDay(frame.date);
+	if (frame.view === "week") return `Week of ${formatDay(frame.days[0])}`;
+	return new Date(`${frame.date}T12:00:00Z`).toLocaleDateString("en-US", {
+		month: "long",
+		year: "numeric",
+		timeZone: "UTC",
+	});
+}
+
+function renderGrid(frame: TuiFrame, width: number, height: number): string[] {
+	if (frame.view === "day") {
+		const entries = frame.byDay.get(frame.date) ?? [];
+		const cells = entries.map((entry, i) => entryCell(entry, frame, frame.date, i, true));
+		if (cells.length === 0) cells.push({ text: "No events", dim: true });
+		return [" ".repeat(width), ...listLines(cells, height - 1, frame.index, width)];
+	}
+
+	const columnWidth = Math.max(4, Math.floor((width - 6) / 7));
+	const rest = Math.max(0, width - (columnWidth * 7 + 6));
+	const separator = paint({ text: "│", dim: true }, 1);
+	const join = (columns: string[]) => columns.join(separator) + " ".repeat(rest);
+	const header = join(
+		frame.days.slice(0, 7).map((day) => {
+			const text =
+				frame.view === "week" ? `${formatDay(day).slice(0, 3)} ${day.slice(5)}` : formatDay(day).slice(0, 3);
+			const isSelected = frame.view === "week" && day === frame.date;
+			return paint({ text, bold: day === frame.today, selected: isSelected }, columnWidth);
+		}),
+	);
+
+	if (frame.view === "week") {
+		const columns = frame.days.map((day) =>
+			listLines(
+				(frame.byDay.get(day) ?? []).map((entry, i) => entryCell(entry, frame, day, i)),
+				height - 1,
+				day === frame.date ? frame.index : -1,
+				columnWidth,
+			),
+		);
+		return [header, ...Array.from({ length: height - 1 }, (_, row) => join(columns.map((c) => c[row])))];
+	}
+
+	const weeks = frame.days.length / 7;
+	const cellHeight = Math.max(2, Math.floor((height - 1) / weeks));
+	const lines = [header];
+	for (let week = 0; week < weeks; week++) {
+		const columns = frame.days.slice(week * 7, week * 7 + 7).map((day) => {
+			const inMonth = day.slice(0, 7) === frame.date.slice(0, 7);
+			const number: Cell = {
+				text: String(Number(day.slice(8))),
+				selected: day === frame.date,
+				bold: day === frame.today,
+				dim: !inMonth,
+			};
+			const entries = (frame.byDay.get(day) ?? []).map((entry, i) => entryCell(entry, frame, day, i));
+			const index = day === frame.date ? frame.index : -1;
+			return [paint(number, columnWidth), ...listLines(entries, cellHeight - 1, index, columnWidth)];
+		});
+		for (let row = 0; row < cellHeight; row++) lines.push(join(columns.map((c) => c[row])));
+	}
+	return lines;
+}
+
+/**
+ * An entry in a column of the week or month view: `10:00 Standup`, or the title alone for all-day events and
+ * events continuing from an earlier day. The day view (`long`) shows the time range and calendar.
+ */
+function entryCell(entry: AgendaEntry, frame: TuiFrame, day: string, index: number, long = false): Cell {
+	const event = entry.event;
+	const startsToday = event.start?.dateTime && getEventDays(event, frame.timeZone).first === day;
+	let time = startsToday ? `${formatInTimeZone(new Date(event.start!.dateTime!), frame.timeZone).slice(11, 16)} ` : "";
+	if (long) time = formatTimeOfDay(event, frame.timeZone).padEnd(18);
+	const declined = event.attendees?.some((a) => a.self && a.responseStatus === "declined");
+	const pending = frame.pending.has(entry);
+	return {
+		text: `${time}${entryTitle(entry)}${long ? `  (${entry.calendarName})` : ""}${pending ? " ..." : ""}`,
+		selected: day === frame.date && index === frame.index,
+		dim: pending || declined,
+	};
+}
+
+function entryTitle(entry: AgendaEntry): string {
+	const label = eventTypeLabel(entry.event);
+	return `${entry.event.summary || "(no title)"}${label ? ` [${label}]` : ""}`;
+}
+
+/**
+ * `rows` lines of a list, scrolled to keep the selected item visible. Lists too long for the rows end with a
+ * `+n more` line.
+ */
+function listLines(cells: Cell[], rows: number, selected: number, width: number): string[] {
+	const visible = cells.length > rows ? Math.max(0, rows - 1) : rows;
+	const offset = selected >= visible ? selected - visible + 1 : 0;
+	const lines = cells.slice(offset, offset + visible).map((cell) => paint(cell, width));
+	if (cells.length > rows && rows > 0)
+		lines.push(paint({ text: `+${cells.length - visible} more`, dim: true }, width));
+	while (lines.length < rows) lines.push(" ".repeat(width));
+	return lines;
+}
+
+function renderDetail(entry: AgendaEntry | undefined, frame: TuiFrame, width: number): string[] {
+	if (!entry) return [paint({ text: " No event selected", dim: true }, width)];
+	const event = frame.detail ?? entry.event;
+	const inner = width - 2;
+	const lines: Cell[] = [{ text: event.summary || "(no title)", bold: true }, { text: "" }];
+	const add = (label: string, value: string | null | undefined) => {
+		if (value) lines.push(...wrap(`${label}: ${value}`, inner).map((text) => ({ text })));
+	};
+	add("When", formatEventSpan(event, frame.timeZone));
+	add("Type", eventTypeLabel(event));
+	add("Calendar", `${entry.calendarName} (${entry.account})`);
+	add("Location", event.location);
+	add("Conference", getConferenceLink(event));
+	add("Organizer", event.organizer?.email);
+	if (event.status && event.status !== "confirmed") add("Status", event.status);
+	add("Recurrence", event.recurrence?.join(" "));
+	add("Your response", event.attendees?.find((a) => a.self)?.responseStatus);
+	if (event.attendees?.length) {
+		lines.push({ text: "Attendees:" });
+		for (const a of event.attendees) {
+			lines.push({
+				text: `  ${a.displayName || a.email} (${a.responseStatus})`,
+				dim: a.responseStatus === "declined",
+			});
+		}
+	}
+	if (event.description) {
+		lines.push({ text: "" });
+		lines.push(...wrap(event.description, inner).map((text) => ({ text })));
+	}
+	if (!frame.detail) lines.push({ text: "" }, { text: "Loading details...", dim: true });
+	return lines.map((cell) => ` ${paint(cell, inner)} `);
+}
+
+/**
+ * Fits text into `width` columns and styles it. Control characters are replaced, so event titles cannot send
+ * escape sequences to the terminal.
+ */
+function paint(cell: Cell, width: number): string {
+	const text = fit(cell.text, width);
+	const codes = [cell.bold && "1", cell.dim && "2", cell.selected && "7", cell.error && "31"].filter(Boolean);
+	return codes.length > 0 ? `\x1b[${codes.join(";")}m${text}\x1b[0m` : text;
+}
+
+function fit(text: string, width: number): string {
+	if (width <= 0) return "";
+	const chars = [...text.replace(/[\x00-\x1f\x7f]/g, " ")];
+	if (chars.length > width) return `${chars.slice(0, width - 1).join("")}…`;
+	return chars.join("") + " ".repeat(width - chars.length);
+}
+
+function wrap(text: string, width: number): string[] {
+	const lines: string[] = [];
+	for (const paragraph of text.replace(/<br\s*\/?>/gi, "\n").split("\n")) {
+		let line = "";
+		for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+			if (line && line.length + 1 + word.length > width) {
+				lines.push(line);
+				line = "";
+			}
+			line = line ? `${line} ${word}` : word;
+			while (line.length > width) {
+				lines.push(line.slice(0, width));
+				line = line.slice(width);
+			}
+		}
+		lines.push(line);
+	}
+	return lines;
+}
+
+function eventStart(event: CalendarEvent): number {
+	return Date.parse(event.start?.dateTime || event.start?.date || "");
+}
+
+function daysBetween(from: string, to: string): number {
+	return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,565 @@
+import * as readline from "readline";
+import type { AgendaEntry, CalendarEvent, CalendarService, EventUpdates, NewEvent } from "./calendar-service.js";
+import { addDays, formatInTimeZone, parseDateRange, zonedTimeToUtc } from "./date-parser.js";
+import { TUI_VIEWS, type TuiView, getViewDays, groupByDay, renderFrame, shiftDate } from "./tui-view.js";
+
+export interface TuiOptions {
+	accounts: string[];
+	/** Default: the calendars selected in each account's calendar list */
+	calendarIds?: string[];
+	timeZone: string;
+	/** Default: week */
+	view?: TuiView;
+	/** Initially selected day (YYYY-MM-DD, default: today) */
+	date?: string;
+	/** Account and calendar of new events */
+	createIn: { account: string; calendarId: string };
+	/** Resolves the calendar entered when moving an event, e.g. an alias */
+	resolveCalendar?: (account: string, calendar: string) => string;
+	input?: NodeJS.ReadStream;
+	output?: NodeJS.WriteStream;
+}
+
+interface Key {
+	name?: string;
+	ctrl?: boolean;
+	meta?: boolean;
+}
+
+interface Prompt {
+	label: string;
+	value: string;
+	/** Single-key choice: any of these keys answers the prompt */
+	keys?: string[];
+	resolve: (value: string | undefined) => void;
+}
+
+/** How long messages stay in the status line */
+const TOAST_MS = 4000;
+const HOUR = 60 * 60 * 1000;
+const HINTS =
+	"←→ day  ↑↓ event  [ ] period  v view  Enter details  n new  e edit  d delete  r rsvp  m move  ? help  q quit";
+
+/**
+ * Full-screen terminal calendar over the events of one or more accounts. Changes are shown right away and
+ * reverted, with an error message, if the API rejects them.
+ */
+export class CalendarTui {
+	private view: TuiView;
+	private date: string;
+	private index = 0;
+	private entries: AgendaEntry[] = [];
+	/** First and last day of the loaded entries */
+	private loaded?: { first: string; last: string };
+	private loading = false;
+	private loadGeneration = 0;
+	/** Events fetched by getEvent, null while fetching */
+	private details = new Map<string, CalendarEvent | null>();
+	private pending = new Set<AgendaEntry>();
+	private showDetail = false;
+	private help = false;
+	private toast?: { text: string; error: boolean; timer: NodeJS.Timeout };
+	private prompt?: Prompt;
+	private input: NodeJS.ReadStream;
+	private output: NodeJS.WriteStream;
+	private done?: () => void;
+
+	constructor(
+		private service: CalendarService,
+		private options: TuiOptions,
+	) {
+		this.view = options.view ?? "week";
+		this.date = options.date ?? this.today();
+		this.input = options.input ?? process.stdin;
+		this.output = options.output ?? process.stdout;
+	}
+
+	/**
+	 * Takes over the terminal until the user quits.
+	 */
+	run(): Promise<void> {
+		return new Promise((resolve) => {
+			this.done = resolve;
+			readline.emitKeypressEvents(this.input);
+			this.input.setRawMode?.(true);
+			this.input.resume();
+			this.input.on("keypress", this.onKeypress);
+			this.output.on("resize", this.render);
+			// Alternate screen, hidden cursor
+			this.output.write("\x1b[?1049h\x1b[?25l");
+			this.render();
+			void this.load();
+		});
+	}
+
+	private quit(): void {
+		if (this.toast) clearTimeout(this.toast.timer);
+		this.input.off("keypress", this.onKeypress);
+		this.output.off("resize", this.render);
+		this.input.setRawMode?.(false);
+		this.input.pause();
+		this.output.write("\x1b[?25h\x1b[?1049l");
+		this.done?.();
+	}
+
+	private onKeypress = (str: string | undefined, key: Key = {}): void => {
+		if (key.ctrl && key.name === "c") {
+			this.quit();
+			return;
+		}
+		if (this.prompt) {
+			this.onPromptKey(str, key);
+			return;
+		}
+		if (this.help) {
+			this.help = false;
+			this.render();
+			return;
+		}
+
+		switch (key.name ?? str) {
+			case "left":
+			case "h":
+				this.select(addDays(this.date, -1));
+				break;
+			case "right":
+			case "l":
+				this.select(addDays(this.date, 1));
+				break;
+			case "up":
+			case "k":
+				this.index = Math.max(0, this.index - 1);
+				this.afterSelect();
+				break;
+			case "down":
+			case "j":
+				this.index = Math.min(this.dayEntries().length - 1, this.index + 1);
+				this.afterSelect();
+				break;
+			case "[":
+			case "pageup":
+				this.select(shiftDate(this.view, this.date, -1));
+				break;
+			case "]":
+			case "pagedown":
+				this.select(shiftDate(this.view, this.date, 1));
+				break;
+			case "t":
+				this.select(this.today());
+				break;
+			case "1":
+			case "2":
+			case "3":
+				this.setView(TUI_VIEWS[Number(key.name) - 1]);
+				break;
+			case "v":
+				this.setView(TUI_VIEWS[(TUI_VIEWS.indexOf(this.view) + 1) % TUI_VIEWS.length]);
+				break;
+			case "return":
+				this.showDetail = !this.showDetail;
+				this.afterSelect();
+				break;
+			case "?":
+				this.help = true;
+				this.render();
+				break;
+			case "g":
+				this.details.clear();
+				void this.load(true);
+				break;
+			case "n":
+				this.action(() => this.createEvent());
+				break;
+			case "e":
+				this.action(() => this.editEvent());
+				break;
+			case "d":
+				this.action(() => this.deleteEvent());
+				break;
+			case "r":
+				this.action(() => this.respond());
+				break;
+			case "m":
+				this.action(() => this.moveEvent());
+				break;
+			case "q":
+				this.quit();
+				break;
+		}
+	};
+
+	private onPromptKey(str: string | undefined, key: Key): void {
+		const prompt = this.prompt!;
+		const finish = (value: string | undefined) => {
+			this.prompt = undefined;
+			prompt.resolve(value);
+			this.render();
+		};
+		if (key.name === "escape") {
+			finish(undefined);
+		} else if (prompt.keys) {
+			if (str && prompt.keys.includes(str)) finish(str);
+		} else if (key.name === "return") {
+			finish(prompt.value);
+		} else if (key.name === "backspace") {
+			prompt.value = [...prompt.value].slice(0, -1).join("");
+		} else if (key.ctrl && key.name === "u") {
+			prompt.value = "";
+		} else if (str && !key.ctrl && !key.meta && str >= " ") {
+			prompt.value += str;
+		}
+		this.render();
+	}
+
+	/**
+	 * Asks for a line of text in the status line. Undefined if cancelled with Escape.
+	 */
+	private ask(label: string, initial = ""): Promise<string | undefined> {
+		return new Promise((resolve) => {
+			this.prompt = { label, value: initial, resolve };
+			this.render();
+		});
+	}
+
+	/**
+	 * Asks for one of the keys. Undefined if cancelled with Escape.
+	 */
+	private choose(label: string, keys: string[]): Promise<string | undefined> {
+		return new Promise((resolve) => {
+			this.prompt = { label, value: "", keys, resolve };
+			this.render();
+		});
+	}
+
+	private action(run: () => Promise<void>): void {
+		run().catch((e) => this.showToast(e instanceof Error ? e.message : String(e), true));
+	}
+
+	private select(date: string): void {
+		this.date = date;
+		this.index = 0;
+		void this.load();
+		this.afterSelect();
+	}
+
+	private setView(view: TuiView): void {
+		this.view = view;
+		void this.load();
+		this.afterSelect();
+	}
+
+	private afterSelect(): void {
+		this.index = Math.max(0, Math.min(this.index, this.dayEntries().length - 1));
+		this.render();
+		void this.loadDetail();
+	}
+
+	/**
+	 * Loads the events of the view's days, unless they are loaded already.
+	 */
+	private async load(force = false): Promise<void> {
+		const days = getViewDays(this.view, this.date);
+		const first = days[0];
+		const last = days[days.length - 1];
+		if (!force && this.loaded && first >= this.loaded.first && last <= this.loaded.last) return;
+
+		// Only the latest load counts when the user moves on while loading
+		const generation = ++this.loadGeneration;
+		this.loading = true;
+		this.render();
+		try {
+			const result = await this.service.listAgenda(this.options.accounts, {
+				timeMin: this.dayStart(first).toISOString(),
+				timeMax: this.dayStart(addDays(last, 1)).toISOString(),
+				calendarIds: this.options.calendarIds,
+			});
+			if (generation !== this.loadGeneration) return;
+			// Entries still waiting for the API stay, the load may have missed their change
+			this.entries = [...result.entries, ...this.entries.filter((entry) => this.pending.has(entry))];
+			this.loaded = { first, last };
+			const error = result.errors[0];
+			if (error)
+				this.showToast(
+					`${error.account}${error.calendarId ? ` / ${error.calendarId}` : ""}: ${error.message}`,
+					true,
+				);
+		} catch (e) {
+			if (generation === this.loadGeneration) this.showToast(e instanceof Error ? e.message : String(e), true);
+		}
+		if (generation !== this.loadGeneration) return;
+		this.loading = false;
+		this.afterSelect();
+	}
+
+	/**
+	 * Fetches the selected event with getEvent for the detail pane.
+	 */
+	private async loadDetail(): Promise<void> {
+		const entry = this.selectedEntry();
+		if (!this.showDetail || !entry?.event.id || this.pending.has(entry)) return;
+		const key = detailKey(entry);
+		if (this.details.has(key)) return;
+		this.details.set(key, null);
+		try {
+			this.details.set(key, await this.service.getEvent(entry.account, entry.calendarId, entry.event.id));
+		} catch (e) {
+			this.details.delete(key);
+			this.showToast(e instanceof Error ? e.message : String(e), true);
+		}
+		this.render();
+	}
+
+	private async createEvent(): Promise<void> {
+		const { account, calendarId } = this.options.createIn;
+		const summary = await this.ask("Title:");
+		if (!summary) return;
+		const when = await this.ask("When:", `${this.date} 09:00-10:00`);
+		if (!when) return;
+		const times = parseWhen(when, this.options.timeZone, HOUR);
+		const event: NewEvent = { summary, ...times, timeZone: this.options.timeZone };
+
+		const entry: AgendaEntry = {
+			account,
+			calendarId,
+			calendarName: this.calendarName(account, calendarId),
+			event: { summary, ...toEventTimes(times) },
+		};
+		// The new event is selected, on its day
+		this.date = times.start.slice(0, 10);
+		void this.load();
+		await this.change(
+			undefined,
+			entry,
+			() => this.service.createEvent(account, calendarId, event),
+			"Created",
+			"Create",
+		);
+	}
+
+	private async editEvent(): Promise<void> {
+		const entry = this.requireSelected();
+		const summary = await this.ask("Title:", entry.event.summary || "");
+		if (summary === undefined) return;
+		const initial = formatWhen(entry.event, this.options.timeZone);
+		const when = await this.ask("When:", initial);
+		if (when === undefined) return;
+
+		const updates: EventUpdates = { summary };
+		let event: CalendarEvent = { ...entry.event, summary };
+		// An emptied time keeps the event's time, like an unchanged one
+		if (when && when !== initial) {
+			const duration = Date.parse(entry.event.end?.dateTime || "") - Date.parse(entry.event.start?.dateTime || "");
+			const times = parseWhen(when, this.options.timeZone, duration > 0 ? duration : HOUR);
+			Object.assign(updates, times, { timeZone: this.options.timeZone });
+			event = { ...event, ...toEventTimes(times) };
+		}
+		await this.change(
+			entry,
+			{ ...entry, event },
+			() => this.service.updateEvent(entry.account, entry.calendarId, entry.event.id!, updates),
+			"Saved",
+			"Save",
+		);
+	}
+
+	private async deleteEvent(): Promise<void> {
+		const entry = this.requireSelected();
+		const answer = await this.choose(`Delete "${entry.event.summary || "(no title)"}"? (y/n)`, ["y", "n"]);
+		if (answer !== "y") return;
+		await this.change(
+			entry,
+			undefined,
+			async () => {
+				await this.service.deleteEvent(entry.account, entry.calendarId, entry.event.id!);
+				return undefined;
+			},
+			"Deleted",
+			"Delete",
+		);
+	}
+
+	private async respond(): Promise<void> {
+		const entry = this.requireSelected();
+		if (!entry.event.attendees?.some((a) => a.self)) throw new Error("You are not invited to this event");
+		const answer = await this.choose("RSVP: (a)ccept, (d)ecline, (t)entative", ["a", "d", "t"]);
+		if (!answer) return;
+		const response = answer === "a" ? "accepted" : answer === "d" ? "declined" : "tentative";
+		const attendees = entry.event.attendees.map((a) => (a.self ? { ...a, responseStatus: response } : a));
+		await this.change(
+			entry,
+			{ ...entry, event: { ...entry.event, attendees } },
+			() => this.service.respondToEvent(entry.account, entry.calendarId, entry.event.id!, response),
+			`RSVP: ${response}`,
+			"RSVP",
+		);
+	}
+
+	private async moveEvent(): Promise<void> {
+		const entry = this.requireSelected();
+		const answer = await this.ask("Move to calendar:");
+		if (!answer) return;
+		const destination = this.options.resolveCalendar?.(entry.account, answer) ?? answer;
+		await this.change(
+			entry,
+			{ ...entry, calendarId: destination, calendarName: this.calendarName(entry.account, destination) },
+			() => this.service.moveEvent(entry.account, entry.calendarId, entry.event.id!, destination),
+			"Moved",
+			"Move",
+		);
+	}
+
+	/**
+	 * Shows `optimistic` in place of `entry` (either may be undefined, for creating and deleting) while `request`
+	 * runs, then the event the API returned. If the request fails, `entry` is restored. `done` and `action` name the
+	 * change in the messages for success and failure.
+	 */
+	private async change(
+		entry: AgendaEntry | undefined,
+		optimistic: AgendaEntry | undefined,
+		request: () => Promise<CalendarEvent | undefined>,
+		done: string,
+		action: string,
+	): Promise<void> {
+		if (entry) this.details.delete(detailKey(entry));
+		this.replaceEntry(entry, optimistic);
+		if (optimistic) this.pending.add(optimistic);
+		if (!entry && optimistic) this.index = Math.max(0, this.dayEntries().indexOf(optimistic));
+		this.afterSelect();
+		try {
+			const event = await request();
+			if (optimistic) {
+				this.pending.delete(optimistic);
+				if (event) this.replaceEntry(optimistic, { ...optimistic, event });
+			}
+			this.showToast(done);
+		} catch (e) {
+			if (optimistic) this.pending.delete(optimistic);
+			this.replaceEntry(optimistic, entry);
+			this.showToast(`${action} failed: ${e instanceof Error ? e.message : String(e)}`, true);
+		}
+		this.afterSelect();
+	}
+
+	private replaceEntry(from: AgendaEntry | undefined, to: AgendaEntry | undefined): void {
+		const index = from ? this.entries.indexOf(from) : -1;
+		if (index < 0) {
+			if (to) this.entries.push(to);
+		} else if (to) {
+			this.entries[index] = to;
+		} else {
+			this.entries.splice(index, 1);
+		}
+	}
+
+	private showToast(text: string, error = false): void {
+		if (this.toast) clearTimeout(this.toast.timer);
+		const timer = setTimeout(() => {
+			this.toast = undefined;
+			this.render();
+		}, TOAST_MS);
+		this.toast = { text, error, timer };
+		this.render();
+	}
+
+	private render = (): void => {
+		const days = getViewDays(this.view, this.date);
+		const selected = this.selectedEntry();
+		const detail = selected && this.details.get(detailKey(selected));
+		let status: { text: string; type: "hint" | "prompt" | "info" | "error" } = { text: HINTS, type: "hint" };
+		if (this.prompt) status = { text: `${this.prompt.label} ${this.prompt.value}█`, type: "prompt" };
+		else if (this.toast) status = { text: this.toast.text, type: this.toast.error ? "error" : "info" };
+
+		const lines = renderFrame(
+			{
+				view: this.view,
+				days,
+				date: this.date,
+				today: this.today(),
+				index: this.index,
+				byDay: groupByDay(this.entries, days, this.options.timeZone),
+				timeZone: this.options.timeZone,
+				detail: detail ?? undefined,
+				showDetail: this.showDetail,
+				pending: this.pending,
+				loading: this.loading,
+				help: this.help,
+				status,
+			},
+			this.output.columns || 80,
+			this.output.rows || 24,
+		);
+		this.output.write(`\x1b[H${lines.join("\r\n")}`);
+	};
+
+	private dayEntries(): AgendaEntry[] {
+		return groupByDay(this.entries, [this.date], this.options.timeZone).get(this.date)!;
+	}
+
+	private selectedEntry(): AgendaEntry | undefined {
+		return this.dayEntries()[this.index];
+	}
+
+	/**
+	 * The selected event, if it can be changed: it exists and has no change waiting for the API.
+	 */
+	private requireSelected(): AgendaEntry {
+		const entry = this.selectedEntry();
+		if (!entry?.event.id) throw new Error("No event selected");
+		if (this.pending.has(entry)) throw new Error("The event is still being saved");
+		return entry;
+	}
+
+	private calendarName(account: string, calendarId: string): string {
+		const known = this.entries.find((e) => e.account === account && e.calendarId === calendarId);
+		return known?.calendarName ?? calendarId;
+	}
+
+	private today(): string {
+		return formatInTimeZone(new Date(), this.options.timeZone).slice(0, 10);
+	}
+
+	private dayStart(date: string): Date {
+		const [year, month, day] = date.split("-").map(Number);
+		return zonedTimeToUtc({ year, month, day }, 0, 0, 0, this.options.timeZone);
+	}
+}
+
+function detailKey(entry: AgendaEntry): string {
+	return `${entry.account}|${entry.calendarId}|${entry.event.id}`;
+}
+
+/**
+ * Parses a time entered in a prompt: a day (all-day event), a day and time (lasting `duration`), or a range like
+ * `2024-01-15 09:00-10:30`.
+ */
+function parseWhen(input: string, timeZone: string, duration: number): { start: string; end: string; allDay: boolean } {
+	const range = parseDateRange(input, { timeZone });
+	if (range.start.dateOnly) {
+		return { start: range.start.date, end: addDays(range.end?.date ?? range.start.date, 1), allDay: true };
+	}
+	const end = range.end?.instant ?? new Date(range.start.instant.getTime() + duration);
+	return {
+		start: formatInTimeZone(range.start.instant, timeZone),
+		end: formatInTimeZone(end, timeZone),
+		allDay: false,
+	};
+}
+
+/**
+ * An event's time as `parseWhen` takes it, for editing. Empty for events spanning several days.
+ */
+function formatWhen(event: CalendarEvent, timeZone: string): string {
+	if (event.start?.date) {
+		return event.end?.date && event.end.date > addDays(event.start.date, 1) ? "" : event.start.date;
+	}
+	const start = formatInTimeZone(new Date(event.start?.dateTime || 0), timeZone);
+	const end = formatInTimeZone(new Date(event.end?.dateTime || 0), timeZone);
+	if (start.slice(0, 10) !== end.slice(0, 10)) return "";
+	return `${start.slice(0, 10)} ${start.slice(11, 16)}-${end.slice(11, 16)}`;
+}
+
+function toEventTimes(times: { start: string; end: string; allDay: boolean }): CalendarEvent {
+	return times.allDay
+		? { start: { date: times.start }, end: { date: times.end } }
+		: { start: { dateTime: times.start }, end: { dateTime: times.end } };
+}
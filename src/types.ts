@@ -1,5 +1,12 @@
-export interface CalendarAccount {
+export type AuthType = "oauth" | "service";
+
+/**
+ * An account authorized via the installed-app OAuth flow (`accounts add`).
+ */
+export interface OAuthAccount {
 	email: string;
+	/** Absent in accounts stored before service accounts were supported */
+	authType?: "oauth";
 	oauth2: {
 		clientId: string;
 		clientSecret: string;
@@ -7,3 +14,21 @@ export interface CalendarAccount {
 		accessToken?: string;
 	};
 }
+
+/**
+ * An account using a service account key (`accounts add-service`), optionally impersonating a Workspace user
+ * via domain-wide delegation.
+ */
+export interface ServiceAccount {
+	email: string;
+	authType: "service";
+	serviceAccount: {
+		clientEmail: string;
+		privateKey: string;
+		privateKeyId?: string;
+		/** User to impersonate. Without it, the service account accesses calendars as itself. */
+		subject?: string;
+	};
+}
+
+export type CalendarAccount = OAuthAccount | ServiceAccount;
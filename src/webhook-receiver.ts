@@ -0,0 +1,88 @@
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * A push notification as sent by the Calendar API. `resourceState` is `sync` for the message confirming a new
+ * channel, and `exists` when the watched events changed.
+ */
+export interface ChannelNotification {
+	channelId: string;
+	resourceId?: string;
+	resourceState: string;
+	messageNumber?: number;
+}
+
+/**
+ * Local HTTP server receiving the notifications of push channels. The public webhook URL given to the API
+ * (e.g. a tunnel or reverse proxy) has to forward to it. Requests for unknown channels or with a wrong token are
+ * rejected.
+ */
+export class WebhookReceiver {
+	private server: http.Server | null = null;
+	private channels = new Map<string, string | undefined>();
+
+	constructor(private onNotification: (notification: ChannelNotification) => void) {}
+
+	/**
+	 * Accepts notifications of the channel, which must carry the given token.
+	 */
+	addChannel(id: string, token?: string): void {
+		this.channels.set(id, token);
+	}
+
+	removeChannel(id: string): void {
+		this.channels.delete(id);
+	}
+
+	/**
+	 * Starts listening and returns the port (useful with port 0).
+	 */
+	listen(port: number, host = "0.0.0.0"): Promise<number> {
+		return new Promise((resolve, reject) => {
+			this.server = http.createServer((req, res) => this.handleRequest(req, res));
+			this.server.on("error", reject);
+			this.server.listen(port, host, () => {
+				resolve((this.server!.address() as AddressInfo).port);
+			});
+		});
+	}
+
+	close(): Promise<void> {
+		return new Promise((resolve) => {
+			if (!this.server) {
+				resolve();
+				return;
+			}
+			this.server.close(() => resolve());
+			this.server = null;
+		});
+	}
+
+	private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+		// Notifications have no body worth reading, but it has to be consumed
+		req.resume();
+		const channelId = req.headers["x-goog-channel-id"];
+		const resourceState = req.headers["x-goog-resource-state"];
+		if (req.method !== "POST" || typeof channelId !== "string" || typeof resourceState !== "string") {
+			res.writeHead(400);
+			res.end();
+			return;
+		}
+		if (!this.channels.has(channelId) || this.channels.get(channelId) !== req.headers["x-goog-channel-token"]) {
+			res.writeHead(403);
+			res.end();
+			return;
+		}
+
+		res.writeHead(200);
+		res.end();
+		const resourceId = req.headers["x-goog-resource-id"];
+		const messageNumber = req.headers["x-goog-message-number"];
+		this.onNotification({
+			channelId,
+			resourceId: typeof resourceId === "string" ? resourceId : undefined,
+			resourceState,
+			messageNumber: typeof messageNumber === "string" ? Number(messageNumber) : undefined,
+		});
+	}
+}
@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AccountStorage } from "../src/account-storage.js";
+import { CalendarService, FakeCalendarBackend } from "../src/index.js";
+import type { OAuthAccount } from "../src/types.js";
+
+const ACCOUNT: OAuthAccount = {
+	email: "alice@example.com",
+	oauth2: { clientId: "client", clientSecret: "secret", refreshToken: "refresh" },
+};
+
+describe("account storage", () => {
+	let dir: string;
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "gccli-test-"));
+		vi.stubEnv("GCCLI_KEY", "00".repeat(32));
+	});
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	const write = (name: string, content: string) => fs.writeFileSync(path.join(dir, name), content);
+	const exists = (name: string) => fs.existsSync(path.join(dir, name));
+
+	it("fails on unreadable or incomplete account files instead of treating them as empty", () => {
+		write("accounts.json", `[${JSON.stringify(ACCOUNT)},]`);
+		expect(() => new AccountStorage(dir).getAllAccounts()).toThrow(/Invalid .*accounts\.json/);
+
+		write("accounts.json", JSON.stringify([ACCOUNT, { email: "bob@example.com", oauth2: {} }]));
+		expect(() => new AccountStorage(dir).getAllAccounts()).toThrow("account 2 (bob@example.com) is incomplete");
+	});
+
+	it("migrates accounts and credentials to the encrypted store and back", () => {
+		const storage = new AccountStorage(dir);
+		storage.addAccount(ACCOUNT);
+		storage.setCredentials("client", "secret");
+
+		storage.migrate("encrypted");
+		expect([exists("accounts.json"), exists("credentials.json"), exists("secrets.enc")]).toEqual([
+			false,
+			false,
+			true,
+		]);
+		const encrypted = new AccountStorage(dir);
+		expect(encrypted.getBackendName()).toBe("encrypted");
+		expect(encrypted.getAllAccounts()).toEqual([ACCOUNT]);
+		expect(encrypted.getCredentials()).toEqual({ clientId: "client", clientSecret: "secret" });
+
+		encrypted.migrate("plaintext");
+		expect(exists("secrets.enc")).toBe(false);
+		expect(new AccountStorage(dir).getAllAccounts()).toEqual([ACCOUNT]);
+	});
+
+	it("reads an encrypted store only when accounts are accessed", async () => {
+		const storage = new AccountStorage(dir);
+		storage.addAccount(ACCOUNT);
+		storage.migrate("encrypted");
+		vi.stubEnv("GCCLI_KEY", "");
+
+		const service = new CalendarService({ configDir: dir, backend: new FakeCalendarBackend() });
+		await service.createCalendar(ACCOUNT.email, { summary: "Work" });
+		expect(() => service.listAccounts()).toThrow("set GCCLI_KEY");
+	});
+
+	it("refuses to migrate a store that no longer loads", () => {
+		const storage = new AccountStorage(dir);
+		storage.addAccount(ACCOUNT);
+		write("accounts.json", "{");
+
+		expect(() => storage.migrate("encrypted")).toThrow(/Invalid .*accounts\.json/);
+		expect([exists("accounts.json"), exists("secrets.enc")]).toEqual([true, false]);
+	});
+});
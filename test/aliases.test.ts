@@ -0,0 +1,46 @@
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ConfigStore } from "../src/config.js";
+import { ACCOUNT, type TestContext, createEvent, createTestContext } from "./helpers.js";
+
+describe("calendar aliases", () => {
+	let ctx: TestContext;
+	let config: ConfigStore;
+	beforeEach(() => {
+		ctx = createTestContext();
+		config = new ConfigStore(path.join(ctx.dir, "config.json"), undefined);
+	});
+	afterEach(() => ctx.cleanup());
+
+	it("resolves aliases per account and leaves other names unchanged", () => {
+		config.setAlias(ACCOUNT, "work", "work@group.calendar.google.com");
+		const reloaded = new ConfigStore(config.getPath(), undefined);
+		expect(reloaded.resolveCalendar(ACCOUNT, "work")).toBe("work@group.calendar.google.com");
+		expect(reloaded.resolveCalendar("bob@example.com", "work")).toBe("work");
+		expect(reloaded.resolveCalendar(ACCOUNT, "primary")).toBe("primary");
+
+		expect(reloaded.removeAlias(ACCOUNT, "work")).toBe(true);
+		expect(reloaded.removeAlias(ACCOUNT, "work")).toBe(false);
+		expect(reloaded.getAll().aliases).toEqual({});
+	});
+
+	it("reads, writes and syncs the aliased calendar", async () => {
+		const { service } = ctx;
+		const work = await service.createCalendar(ACCOUNT, { summary: "Work" });
+		config.setAlias(ACCOUNT, "work", work.id!);
+
+		await createEvent(
+			service,
+			{ summary: "Planning", start: "2024-03-04T09:00:00+01:00", end: "2024-03-04T10:00:00+01:00" },
+			config.resolveCalendar(ACCOUNT, "work"),
+		);
+		expect((await service.listEvents(ACCOUNT, "primary")).events).toEqual([]);
+
+		const { events } = await service.listEvents(ACCOUNT, config.resolveCalendar(ACCOUNT, "work"));
+		expect(events.map((e) => e.summary)).toEqual(["Planning"]);
+
+		const [result] = await service.syncCalendars(ACCOUNT, [config.resolveCalendar(ACCOUNT, "work")]);
+		expect(result).toMatchObject({ calendarId: work.id, added: 1 });
+		expect(service.listCachedEvents(ACCOUNT, work.id!).events.map((e) => e.summary)).toEqual(["Planning"]);
+	});
+});
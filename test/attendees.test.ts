@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ACCOUNT, type TestContext, createEvent, createTestContext } from "./helpers.js";
+
+describe("attendees", () => {
+	let ctx: TestContext;
+	beforeEach(() => {
+		ctx = createTestContext();
+	});
+	afterEach(() => ctx.cleanup());
+
+	const attendeesOf = async (eventId: string) =>
+		(await ctx.service.getEvent(ACCOUNT, "primary", eventId)).attendees?.map((a) => [
+			a.email,
+			a.responseStatus,
+			a.optional ?? false,
+		]);
+
+	it("adds, updates and removes attendees, keeping the others' responses", async () => {
+		const { service } = ctx;
+		const event = await createEvent(service, {
+			start: "2024-03-04T09:00:00+01:00",
+			end: "2024-03-04T10:00:00+01:00",
+			attendees: ["bob@example.com", "carol@example.com"],
+		});
+		await ctx.backend.getClient(ACCOUNT).events.patch({
+			calendarId: "primary",
+			eventId: event.id!,
+			requestBody: {
+				attendees: [
+					{ email: "bob@example.com", responseStatus: "declined" },
+					{ email: "carol@example.com", responseStatus: "accepted" },
+				],
+			},
+		});
+
+		await service.updateAttendees(ACCOUNT, "primary", event.id!, {
+			add: [
+				{ email: "Carol@example.com", optional: true },
+				{ email: "dave@example.com", displayName: "Dave" },
+			],
+			remove: ["BOB@example.com"],
+		});
+		expect(await attendeesOf(event.id!)).toEqual([
+			["carol@example.com", "accepted", true],
+			["dave@example.com", "needsAction", false],
+		]);
+	});
+
+	it("records the account's response and lists unanswered invitations", async () => {
+		const { service } = ctx;
+		const range = { timeMin: "2024-03-01T00:00:00Z", timeMax: "2024-03-31T00:00:00Z" };
+		const invite = await createEvent(service, {
+			summary: "Invite",
+			start: "2024-03-04T09:00:00+01:00",
+			end: "2024-03-04T10:00:00+01:00",
+			attendees: ["bob@example.com", ACCOUNT],
+		});
+		const own = await createEvent(service, {
+			summary: "Own",
+			start: "2024-03-05T09:00:00+01:00",
+			end: "2024-03-05T10:00:00+01:00",
+		});
+		expect((await service.listInvitations(ACCOUNT, "primary", range)).map((e) => e.summary)).toEqual(["Invite"]);
+
+		const updated = await service.respondToEvent(ACCOUNT, "primary", invite.id!, "tentative", "Might be late");
+		expect(updated.attendees?.find((a) => a.self)).toMatchObject({
+			responseStatus: "tentative",
+			comment: "Might be late",
+		});
+		expect(updated.attendees?.find((a) => !a.self)?.responseStatus).toBe("needsAction");
+		expect(await service.listInvitations(ACCOUNT, "primary", range)).toEqual([]);
+
+		await expect(service.respondToEvent(ACCOUNT, "primary", own.id!, "accepted")).rejects.toThrow(
+			`${ACCOUNT} is not an attendee of this event`,
+		);
+	});
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseBatchResponse } from "../src/batch.js";
+import { parsePlan } from "../src/plan.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createTestContext } from "./helpers.js";
+
+describe("batch requests", () => {
+	let ctx: TestContext;
+	beforeEach(() => {
+		ctx = createTestContext();
+	});
+	afterEach(() => ctx.cleanup());
+
+	it("parses each part and reports a part without a JSON body as failed", () => {
+		const part = (index: number, status: string, body: string) =>
+			[
+				"--batch_x",
+				"Content-Type: application/http",
+				`Content-ID: <response-item${index}>`,
+				"",
+				`HTTP/1.1 ${status}`,
+				"Content-Type: application/json",
+				"",
+				body,
+			].join("\r\n");
+		const text = [
+			part(1, "200 OK", "<html>proxy error</html>"),
+			part(0, "200 OK", '{"id":"a"}'),
+			part(2, "502 Bad Gateway", "<html>Bad Gateway</html>"),
+			"--batch_x--",
+		].join("\r\n");
+
+		const responses = parseBatchResponse(text, 'multipart/mixed; boundary="batch_x"', 4);
+		expect(responses.map((r) => r.status)).toEqual([200, 0, 502, 0]);
+		expect(responses[0].body).toEqual({ id: "a" });
+		expect(responses[1].body).toEqual({
+			error: { message: "Invalid response in batch (HTTP 200): <html>proxy error</html>" },
+		});
+		expect(responses[3].body).toEqual({ error: { message: "Missing response in batch" } });
+	});
+
+	it("keeps the results of earlier batches when a later batch request fails", async () => {
+		const executeBatch = ctx.backend.executeBatch.bind(ctx.backend);
+		let calls = 0;
+		ctx.backend.executeBatch = async (email, requests) => {
+			if (++calls === 2) throw Object.assign(new Error("Request had invalid credentials"), { status: 401 });
+			return executeBatch(email, requests);
+		};
+		const operations = Array.from({ length: 60 }, (_, i) => ({
+			op: "create",
+			event: { summary: `Event ${i + 1}`, start: "2024-03-04T09:00:00", end: "2024-03-04T10:00:00" },
+		}));
+		const plan = parsePlan(JSON.stringify(operations), "plan.json", "primary", TIME_ZONE);
+
+		const results = await ctx.service.applyPlan(ACCOUNT, plan);
+		expect(results.filter((r) => r.status === "ok")).toHaveLength(50);
+		expect(results.slice(50).every((r) => r.status === "error")).toBe(true);
+		expect(results[50].error).toContain("invalid credentials");
+		expect(await ctx.service.listAllEvents(ACCOUNT, "primary")).toHaveLength(50);
+	});
+});
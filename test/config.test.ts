@@ -0,0 +1,37 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ConfigStore } from "../src/config.js";
+
+describe("config", () => {
+	let dir: string;
+	let file: string;
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "gccli-test-"));
+		file = path.join(dir, "config.json");
+	});
+	afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+	const load = (config: unknown) => {
+		fs.writeFileSync(file, JSON.stringify(config));
+		return new ConfigStore(file, "work");
+	};
+
+	it("prefers settings of the active profile", () => {
+		const config = load({ timezone: "Europe/Vienna", retries: 2, profiles: { work: { timezone: "UTC" } } });
+		expect([config.get("timezone"), config.get("retries")]).toEqual(["UTC", 2]);
+	});
+
+	it("rejects config files of the wrong shape on load", () => {
+		expect(() => load([])).toThrow(`Invalid config file ${file}: expected an object`);
+		expect(() => load({ retries: "x" })).toThrow('"retries" must be a number');
+		expect(() => load({ retries: -1 })).toThrow('"retries": Invalid retries: -1');
+		expect(() => load({ output: "xml" })).toThrow('"output": Invalid output: xml');
+		expect(() => load({ aliases: [] })).toThrow('"aliases" must be an object');
+		expect(() => load({ aliases: { "alice@example.com": { work: 1 } } })).toThrow(
+			'"aliases.alice@example.com" must map aliases to calendar IDs',
+		);
+		expect(() => load({ profiles: { work: { timezone: "Mars/Base" } } })).toThrow('"profiles.work.timezone"');
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { parseDateExpression, parseDateRange, parseDuration, zonedTimeToUtc } from "../src/date-parser.js";
+
+const NEW_YORK = "America/New_York";
+/** Wednesday, 2024-03-06 12:00 in New York */
+const NOW = new Date("2024-03-06T17:00:00Z");
+
+const parse = (input: string, base?: Date) =>
+	parseDateExpression(input, { timeZone: NEW_YORK, now: NOW, base }).instant.toISOString();
+
+describe("date parser", () => {
+	it("resolves absolute, relative and named dates in the time zone", () => {
+		expect(parse("2024-03-06T10:00:00Z")).toBe("2024-03-06T10:00:00.000Z");
+		expect(parse("2024-03-06T10:00:00")).toBe("2024-03-06T15:00:00.000Z");
+		expect(parse("now")).toBe(NOW.toISOString());
+		expect(parse("+1h30m")).toBe("2024-03-06T18:30:00.000Z");
+		expect(parse("-1d", new Date("2024-03-10T00:00:00Z"))).toBe("2024-03-09T00:00:00.000Z");
+		expect(parse("tomorrow 14:00")).toBe("2024-03-07T19:00:00.000Z");
+		expect(parse("friday at 9am")).toBe("2024-03-08T14:00:00.000Z");
+		expect(parse("wednesday noon")).toBe("2024-03-06T17:00:00.000Z");
+		expect(parse("next wednesday 9 am")).toBe("2024-03-13T13:00:00.000Z");
+
+		const day = parseDateExpression("tomorrow", { timeZone: NEW_YORK, now: NOW });
+		expect([day.date, day.dateOnly, day.instant.toISOString()]).toEqual([
+			"2024-03-07",
+			true,
+			"2024-03-07T05:00:00.000Z",
+		]);
+	});
+
+	it("rejects invalid dates", () => {
+		expect(() => parse("2024-02-30T10:00")).toThrow("Invalid date");
+		expect(() => parse("someday")).toThrow("Cannot parse date");
+		expect(() => parse("")).toThrow("Empty date expression");
+	});
+
+	it("moves times in a DST gap forward and resolves repeated times to the earlier instant", () => {
+		expect(parse("2024-03-10T02:30:00")).toBe("2024-03-10T07:30:00.000Z");
+		expect(parse("2024-11-03T01:30:00")).toBe("2024-11-03T05:30:00.000Z");
+		expect(zonedTimeToUtc({ year: 2024, month: 3, day: 31 }, 2, 30, 0, "Europe/Vienna").toISOString()).toBe(
+			"2024-03-31T01:30:00.000Z",
+		);
+		expect(zonedTimeToUtc({ year: 2024, month: 10, day: 27 }, 2, 30, 0, "Europe/Vienna").toISOString()).toBe(
+			"2024-10-27T00:30:00.000Z",
+		);
+	});
+
+	it("parses time ranges on one day", () => {
+		const range = parseDateRange("friday 9am-10:30am", { timeZone: NEW_YORK, now: NOW });
+		expect([range.start.instant.toISOString(), range.end?.instant.toISOString()]).toEqual([
+			"2024-03-08T14:00:00.000Z",
+			"2024-03-08T15:30:00.000Z",
+		]);
+		expect(parseDateRange("friday 9am", { timeZone: NEW_YORK, now: NOW }).end).toBeUndefined();
+		expect(() => parseDateRange("friday 10am-9am", { timeZone: NEW_YORK, now: NOW })).toThrow(
+			"end must be after start",
+		);
+	});
+
+	it("parses positive durations only", () => {
+		expect(parseDuration("1h30m")).toBe(90 * 60 * 1000);
+		expect(parseDuration("1.5h")).toBe(90 * 60 * 1000);
+		expect(parseDuration("1w")).toBe(7 * 24 * 60 * 60 * 1000);
+		expect(() => parseDuration("0m")).toThrow("must be longer than zero");
+		expect(() => parseDuration("90")).toThrow("Invalid duration");
+		expect(() => parseDuration("1h 30x")).toThrow("Invalid duration");
+	});
+});
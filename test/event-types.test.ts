@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { eventTypeLabel } from "../src/event-options.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createTestContext } from "./helpers.js";
+
+describe("special event types", () => {
+	let ctx: TestContext;
+	beforeEach(() => {
+		ctx = createTestContext();
+	});
+	afterEach(() => ctx.cleanup());
+
+	it("creates out-of-office and focus time events that decline conflicting invitations", async () => {
+		const ooo = await ctx.service.createOutOfOffice(ACCOUNT, {
+			start: "2024-03-04T00:00:00",
+			end: "2024-03-09T00:00:00",
+			declineMessage: "On vacation",
+			timeZone: TIME_ZONE,
+		});
+		expect(ooo).toMatchObject({
+			eventType: "outOfOffice",
+			summary: "Out of office",
+			transparency: "opaque",
+			outOfOfficeProperties: {
+				autoDeclineMode: "declineAllConflictingInvitations",
+				declineMessage: "On vacation",
+			},
+		});
+		expect(eventTypeLabel(ooo)).toBe("out of office");
+
+		const focus = await ctx.service.createFocusTime(ACCOUNT, {
+			start: "2024-03-11T09:00:00",
+			end: "2024-03-11T11:00:00",
+			chatStatus: "doNotDisturb",
+			timeZone: TIME_ZONE,
+		});
+		expect(focus).toMatchObject({
+			eventType: "focusTime",
+			summary: "Focus time",
+			focusTimeProperties: { autoDeclineMode: "declineOnlyNewConflictingInvitations", chatStatus: "doNotDisturb" },
+		});
+		expect(eventTypeLabel(focus)).toBe("focus time");
+	});
+
+	it("creates working locations for whole days or part of a day", async () => {
+		const home = await ctx.service.createWorkingLocation(ACCOUNT, {
+			location: { type: "home" },
+			start: "2024-03-04",
+			end: "2024-03-05",
+			allDay: true,
+		});
+		expect(home).toMatchObject({
+			eventType: "workingLocation",
+			summary: "Home",
+			start: { date: "2024-03-04" },
+			transparency: "transparent",
+			visibility: "public",
+			workingLocationProperties: { type: "homeOffice" },
+		});
+		expect(eventTypeLabel(home)).toBe("working location: home");
+
+		const office = await ctx.service.createWorkingLocation(ACCOUNT, {
+			location: { type: "office", label: "HQ", floorId: "3", deskId: "12" },
+			start: "2024-03-05T09:00:00",
+			end: "2024-03-05T13:00:00",
+			timeZone: TIME_ZONE,
+		});
+		expect(office.summary).toBe("HQ");
+		expect(eventTypeLabel(office)).toBe("working location: office (HQ, floor 3, desk 12)");
+
+		const custom = await ctx.service.createWorkingLocation(ACCOUNT, {
+			location: { type: "custom", label: "Café" },
+			start: "2024-03-06",
+			end: "2024-03-07",
+			allDay: true,
+		});
+		expect(eventTypeLabel(custom)).toBe("working location: Café");
+	});
+
+	it("rejects special events the API does not allow", async () => {
+		const work = await ctx.service.createCalendar(ACCOUNT, { summary: "Work" });
+		await expect(
+			ctx.backend.getClient(ACCOUNT).events.insert({
+				calendarId: work.id!,
+				requestBody: {
+					eventType: "focusTime",
+					start: { dateTime: "2024-03-04T09:00:00Z" },
+					end: { dateTime: "2024-03-04T10:00:00Z" },
+				},
+			}),
+		).rejects.toMatchObject({ status: 400 });
+		await expect(
+			ctx.backend.getClient(ACCOUNT).events.insert({
+				calendarId: "primary",
+				requestBody: { eventType: "outOfOffice", start: { date: "2024-03-04" }, end: { date: "2024-03-05" } },
+			}),
+		).rejects.toThrow("cannot be all-day events");
+		expect(eventTypeLabel({ eventType: "default" })).toBeUndefined();
+	});
+});
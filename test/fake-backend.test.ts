@@ -0,0 +1,85 @@
+import * as path from "path";
+import type { calendar_v3 } from "googleapis";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FakeCalendarBackend } from "../src/index.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createTestContext } from "./helpers.js";
+
+describe("fake backend", () => {
+	let ctx: TestContext;
+	let events: calendar_v3.Resource$Events;
+	beforeEach(() => {
+		ctx = createTestContext();
+		events = ctx.backend.getClient(ACCOUNT).events;
+	});
+	afterEach(() => ctx.cleanup());
+
+	const insert = (summary: string, day: number) =>
+		events.insert({
+			calendarId: "primary",
+			requestBody: {
+				summary,
+				start: { dateTime: `2024-03-${String(day).padStart(2, "0")}T09:00:00`, timeZone: TIME_ZONE },
+				end: { dateTime: `2024-03-${String(day).padStart(2, "0")}T10:00:00`, timeZone: TIME_ZONE },
+			},
+		});
+
+	it("returns only changes since a sync token, including deletions", async () => {
+		const first = await insert("First", 4);
+		await insert("Second", 5);
+		const full = await events.list({ calendarId: "primary" });
+		expect(full.data.items?.map((e) => e.summary)).toEqual(["First", "Second"]);
+		const syncToken = full.data.nextSyncToken!;
+
+		await events.delete({ calendarId: "primary", eventId: first.data.id! });
+		await insert("Third", 6);
+		const changes = await events.list({ calendarId: "primary", syncToken });
+		expect(changes.data.items?.map((e) => [e.summary, e.status])).toEqual([
+			["First", "cancelled"],
+			["Third", "confirmed"],
+		]);
+
+		const none = await events.list({ calendarId: "primary", syncToken: changes.data.nextSyncToken! });
+		expect(none.data.items).toEqual([]);
+	});
+
+	it("rejects unknown sync tokens with 410 and sync tokens combined with filters with 400", async () => {
+		await insert("First", 4);
+		await expect(events.list({ calendarId: "primary", syncToken: "999" })).rejects.toMatchObject({
+			status: 410,
+			errors: [{ reason: "fullSyncRequired" }],
+		});
+		await expect(events.list({ calendarId: "primary", syncToken: "abc" })).rejects.toMatchObject({ status: 410 });
+		await expect(
+			events.list({ calendarId: "primary", syncToken: "1", timeMin: "2024-03-01T00:00:00Z" }),
+		).rejects.toMatchObject({ status: 400 });
+	});
+
+	it("pages results and sets the sync token on the last page only", async () => {
+		for (let day = 1; day <= 5; day++) await insert(`Event ${day}`, day);
+		const pages: Array<{ summaries?: string[]; next?: string | null; sync?: string | null }> = [];
+		let pageToken: string | undefined;
+		do {
+			const { data } = await events.list({ calendarId: "primary", maxResults: 2, pageToken });
+			pages.push({
+				summaries: data.items?.map((e) => e.summary!),
+				next: data.nextPageToken,
+				sync: data.nextSyncToken,
+			});
+			pageToken = data.nextPageToken ?? undefined;
+		} while (pageToken);
+
+		expect(pages.map((p) => p.summaries)).toEqual([["Event 1", "Event 2"], ["Event 3", "Event 4"], ["Event 5"]]);
+		expect(pages.slice(0, 2).every((p) => p.next && !p.sync)).toBe(true);
+		expect(pages[2].sync).toBeTruthy();
+	});
+
+	it("keeps its state in a file across instances", async () => {
+		const file = path.join(ctx.dir, "fake.json");
+		await new FakeCalendarBackend(file).getClient(ACCOUNT).events.insert({
+			calendarId: "primary",
+			requestBody: { summary: "Stored", start: { date: "2024-03-04" }, end: { date: "2024-03-05" } },
+		});
+		const { data } = await new FakeCalendarBackend(file).getClient(ACCOUNT).events.list({ calendarId: ACCOUNT });
+		expect(data.items?.map((e) => e.summary)).toEqual(["Stored"]);
+	});
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { findFreeSlots, parseWorkingHours } from "../src/find-time.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createEvent, createTestContext } from "./helpers.js";
+
+const HOUR = 60 * 60 * 1000;
+/** Monday, 2024-03-04 00:00 in Vienna */
+const MONDAY = Date.parse("2024-03-03T23:00:00Z");
+
+const slots = (result: ReturnType<typeof findFreeSlots>) =>
+	result.map((slot) => `${slot.start.toISOString().slice(11, 16)}-${slot.end.toISOString().slice(11, 16)}`);
+
+describe("findtime", () => {
+	let ctx: TestContext;
+	beforeEach(() => {
+		ctx = createTestContext();
+	});
+	afterEach(() => ctx.cleanup());
+
+	it("finds slots within everyone's working hours, across time zones", () => {
+		const vienna = parseWorkingHours("09:00-17:00", TIME_ZONE);
+		const newYork = parseWorkingHours("09:00-17:00", "America/New_York");
+		const result = findFreeSlots(
+			[
+				{ id: "alice", busy: [], workingHours: vienna },
+				{ id: "bob", busy: [], workingHours: newYork },
+			],
+			{ duration: HOUR, windowStart: MONDAY, windowEnd: MONDAY + 24 * HOUR, step: HOUR, limit: 10 },
+		);
+		// The overlap is 15:00-17:00 in Vienna, 14:00-16:00 UTC
+		expect(slots(result)).toEqual(["14:00-15:00", "15:00-16:00"]);
+	});
+
+	it("keeps buffers around busy times and ranks slots that leave no unusable gaps first", () => {
+		const workingHours = parseWorkingHours("09:00-13:00", TIME_ZONE);
+		const busy = [{ start: MONDAY + 10 * HOUR, end: MONDAY + 10.5 * HOUR }];
+		const result = findFreeSlots([{ id: "alice", busy, workingHours }], {
+			duration: HOUR,
+			windowStart: MONDAY,
+			windowEnd: MONDAY + 24 * HOUR,
+			buffer: 15 * 60 * 1000,
+			step: 15 * 60 * 1000,
+			limit: 3,
+		});
+		// Free (UTC): 08:00-08:45 (too short) and 09:45-12:00. Slots at either end of a free interval come first.
+		expect(slots(result)).toEqual(["09:45-10:45", "11:00-12:00", "10:00-11:00"]);
+		expect(result.map((slot) => slot.fragmentation)).toEqual([0, 0, 15 * 60 * 1000]);
+	});
+
+	it("skips weekends unless allowed and rejects invalid working hours", () => {
+		const saturday = MONDAY - 2 * 24 * HOUR;
+		const options = { duration: HOUR, windowStart: saturday, windowEnd: saturday + 24 * HOUR, step: HOUR };
+		const workingHours = parseWorkingHours("09:00-10:00", TIME_ZONE);
+		expect(findFreeSlots([{ id: "alice", busy: [], workingHours }], options)).toEqual([]);
+		const weekends = { ...workingHours, days: [0, 6] };
+		expect(slots(findFreeSlots([{ id: "alice", busy: [], workingHours: weekends }], options))).toEqual([
+			"08:00-09:00",
+		]);
+
+		expect(() => parseWorkingHours("9-17", TIME_ZONE)).toThrow("expected HH:MM-HH:MM");
+		expect(() => parseWorkingHours("17:00-09:00", TIME_ZONE)).toThrow("Invalid working hours");
+	});
+
+	it("takes busy times from free/busy, ignoring events shown as free", async () => {
+		await createEvent(ctx.service, { start: "2024-03-04T09:00:00+01:00", end: "2024-03-04T11:00:00+01:00" });
+		await createEvent(ctx.service, {
+			start: "2024-03-04T11:00:00+01:00",
+			end: "2024-03-04T12:00:00+01:00",
+			showAs: "free",
+		});
+		const windowStart = new Date(MONDAY).toISOString();
+		const windowEnd = new Date(MONDAY + 24 * HOUR).toISOString();
+		const busy = (await ctx.service.getFreeBusy(ACCOUNT, [ACCOUNT], windowStart, windowEnd)).get(ACCOUNT) ?? [];
+		expect(busy).toEqual([{ start: "2024-03-04T08:00:00.000Z", end: "2024-03-04T10:00:00.000Z" }]);
+
+		const result = findFreeSlots(
+			[
+				{
+					id: ACCOUNT,
+					busy: busy.map((b) => ({ start: Date.parse(b.start), end: Date.parse(b.end) })),
+					workingHours: parseWorkingHours("09:00-13:00", TIME_ZONE),
+				},
+			],
+			{ duration: 2 * HOUR, windowStart: MONDAY, windowEnd: MONDAY + 24 * HOUR },
+		);
+		expect(slots(result)).toEqual(["10:00-12:00"]);
+	});
+});
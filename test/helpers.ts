@@ -0,0 +1,36 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { type CalendarEvent, CalendarService, FakeCalendarBackend, type NewEvent } from "../src/index.js";
+
+export const ACCOUNT = "alice@example.com";
+export const TIME_ZONE = "Europe/Vienna";
+
+export interface TestContext {
+	service: CalendarService;
+	backend: FakeCalendarBackend;
+	/** Temporary directory holding the event cache and any config files of the test */
+	dir: string;
+	cleanup(): void;
+}
+
+/**
+ * A service over an in-memory fake of the Calendar API, with its files in a new temporary directory.
+ */
+export function createTestContext(): TestContext {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gccli-test-"));
+	const backend = new FakeCalendarBackend();
+	const service = new CalendarService({ configDir: dir, backend, retry: { retries: 0 } });
+	return { service, backend, dir, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Creates a timed event on the account's primary calendar, in TIME_ZONE unless given otherwise.
+ */
+export function createEvent(
+	service: CalendarService,
+	event: Partial<NewEvent> & { start: string; end: string },
+	calendarId = "primary",
+): Promise<CalendarEvent> {
+	return service.createEvent(ACCOUNT, calendarId, { summary: "Event", timeZone: TIME_ZONE, ...event });
+}
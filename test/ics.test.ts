@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { fromVEvent, parseICalendar, toICalendar } from "../src/ics.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createEvent, createTestContext } from "./helpers.js";
+
+const OTHER = "bob@example.com";
+
+describe("import and export", () => {
+	let ctx: TestContext;
+	beforeEach(() => {
+		ctx = createTestContext();
+	});
+	afterEach(() => ctx.cleanup());
+
+	const exportCalendar = async (account: string) => {
+		const events = await ctx.service.listAllEvents(account, "primary", { singleEvents: false });
+		return toICalendar(events, { timeZone: TIME_ZONE });
+	};
+
+	const importCalendar = (account: string, text: string, dryRun = false) => {
+		const root = parseICalendar(text);
+		const events = root.components.filter((c) => c.name === "VEVENT").map((c) => fromVEvent(c, root, "UTC"));
+		return ctx.service.importEvents(account, "primary", events, { dryRun });
+	};
+
+	it("round-trips a series with a modified instance into another account", async () => {
+		const { service } = ctx;
+		const series = await createEvent(service, {
+			summary: "Standup",
+			start: "2024-07-01T09:00:00+02:00",
+			end: "2024-07-01T09:15:00+02:00",
+			recurrence: ["RRULE:FREQ=DAILY;COUNT=3"],
+		});
+		const [, second] = (await service.listInstances(ACCOUNT, "primary", series.id!)).events;
+		await service.updateEvent(ACCOUNT, "primary", second.id!, {
+			summary: "Standup (long)",
+			end: "2024-07-02T10:00:00+02:00",
+		});
+
+		const text = await exportCalendar(ACCOUNT);
+		expect(text).toContain("BEGIN:VTIMEZONE\r\nTZID:Europe/Vienna");
+		expect(text).toContain("DTSTART;TZID=Europe/Vienna:20240701T090000");
+
+		const results = await importCalendar(OTHER, text);
+		expect(results.map((r) => r.action)).toEqual(["create", "create"]);
+
+		const { events } = await service.listEvents(OTHER, "primary", { timeMin: "2024-07-01T00:00:00Z" });
+		expect(events.map((e) => [e.summary, e.start?.dateTime, e.end?.dateTime])).toEqual([
+			["Standup", "2024-07-01T09:00:00+02:00", "2024-07-01T09:15:00+02:00"],
+			["Standup (long)", "2024-07-02T09:00:00+02:00", "2024-07-02T10:00:00+02:00"],
+			["Standup", "2024-07-03T09:00:00+02:00", "2024-07-03T09:15:00+02:00"],
+		]);
+		expect(new Set(events.map((e) => e.iCalUID))).toEqual(new Set([series.iCalUID]));
+		expect((await importCalendar(OTHER, text)).map((r) => r.action)).toEqual(["unchanged", "unchanged"]);
+	});
+
+	it("skips unchanged events and updates changed ones on re-import", async () => {
+		await createEvent(ctx.service, {
+			summary: "Review",
+			start: "2024-07-01T14:00:00+02:00",
+			end: "2024-07-01T15:00:00+02:00",
+		});
+		const text = await exportCalendar(ACCOUNT);
+		await importCalendar(OTHER, text);
+
+		expect((await importCalendar(OTHER, text)).map((r) => r.action)).toEqual(["unchanged"]);
+		const renamed = text.replace("SUMMARY:Review", "SUMMARY:Design review");
+		expect((await importCalendar(OTHER, renamed, true)).map((r) => r.action)).toEqual(["update"]);
+		expect((await ctx.service.listEvents(OTHER, "primary")).events[0].summary).toBe("Review");
+
+		await importCalendar(OTHER, renamed);
+		expect((await ctx.service.listEvents(OTHER, "primary")).events[0].summary).toBe("Design review");
+	});
+
+	it("applies a cancellation re-imported with a higher sequence", async () => {
+		const invite = (status: string, sequence: number) =>
+			[
+				"BEGIN:VCALENDAR",
+				"BEGIN:VEVENT",
+				"UID:invite-1@example.com",
+				"SUMMARY:Offsite",
+				"DTSTART:20240701T080000Z",
+				"DTEND:20240701T090000Z",
+				`STATUS:${status}`,
+				`SEQUENCE:${sequence}`,
+				"END:VEVENT",
+				"END:VCALENDAR",
+			].join("\r\n");
+		await importCalendar(OTHER, invite("CONFIRMED", 0));
+		expect((await importCalendar(OTHER, invite("CONFIRMED", 0))).map((r) => r.action)).toEqual(["unchanged"]);
+
+		expect((await importCalendar(OTHER, invite("CANCELLED", 1))).map((r) => r.action)).toEqual(["update"]);
+		expect((await ctx.service.listEvents(OTHER, "primary")).events).toEqual([]);
+	});
+
+	it("exports time zones with yearly rules that cover a series beyond the exported years", () => {
+		const text = toICalendar([
+			{
+				iCalUID: "weekly@example.com",
+				summary: "Weekly",
+				start: { dateTime: "2024-01-08T09:00:00-05:00", timeZone: "America/New_York" },
+				end: { dateTime: "2024-01-08T10:00:00-05:00", timeZone: "America/New_York" },
+				recurrence: ["RRULE:FREQ=WEEKLY"],
+			},
+		]);
+		expect(text).toContain("RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU\r\n");
+		expect(text).toContain("RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU\r\n");
+
+		// Resolve a much later occurrence from the VTIMEZONE alone
+		const later = text
+			.replace(/America\/New_York/g, "Eastern Standard Time")
+			.replace(
+				"DTSTART;TZID=Eastern Standard Time:20240108T090000",
+				"DTSTART;TZID=Eastern Standard Time:20300701T090000",
+			);
+		const root = parseICalendar(later);
+		const vevent = root.components.find((c) => c.name === "VEVENT")!;
+		expect(fromVEvent(vevent, root, "UTC").start?.dateTime).toBe("2030-07-01T09:00:00-04:00");
+	});
+
+	it("uses the daylight saving offset of non-IANA time zones in summer", () => {
+		const root = parseICalendar(
+			[
+				"BEGIN:VCALENDAR",
+				"BEGIN:VTIMEZONE",
+				"TZID:Pacific Standard Time",
+				"BEGIN:STANDARD",
+				"DTSTART:16010101T020000",
+				"TZOFFSETFROM:-0700",
+				"TZOFFSETTO:-0800",
+				"RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=1SU;BYMONTH=11",
+				"END:STANDARD",
+				"BEGIN:DAYLIGHT",
+				"DTSTART:16010101T020000",
+				"TZOFFSETFROM:-0800",
+				"TZOFFSETTO:-0700",
+				"RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=2SU;BYMONTH=3",
+				"END:DAYLIGHT",
+				"END:VTIMEZONE",
+				"BEGIN:VEVENT",
+				"UID:summer",
+				"DTSTART;TZID=Pacific Standard Time:20240701T170000",
+				"END:VEVENT",
+				"BEGIN:VEVENT",
+				"UID:winter",
+				"DTSTART;TZID=Pacific Standard Time:20240115T170000",
+				"END:VEVENT",
+				"END:VCALENDAR",
+			].join("\r\n"),
+		);
+		const starts = root.components
+			.filter((c) => c.name === "VEVENT")
+			.map((c) => fromVEvent(c, root, "UTC").start?.dateTime);
+		expect(starts).toEqual(["2024-07-01T17:00:00-07:00", "2024-01-15T17:00:00-08:00"]);
+	});
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EventBuilder, toGccliEvent } from "../src/index.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createTestContext } from "./helpers.js";
+
+describe("library API", () => {
+	let ctx: TestContext;
+	/** Number of events.list calls, i.e. pages fetched */
+	let pages: number;
+	beforeEach(() => {
+		ctx = createTestContext();
+		pages = 0;
+		const getClient = ctx.backend.getClient.bind(ctx.backend);
+		ctx.backend.getClient = (email) => {
+			const client = getClient(email);
+			const list = client.events.list.bind(client.events) as (params: unknown) => Promise<unknown>;
+			(client.events as unknown as { list: typeof list }).list = (params) => {
+				pages++;
+				return list(params);
+			};
+			return client;
+		};
+	});
+	afterEach(() => ctx.cleanup());
+
+	const standup = (day: number) =>
+		new EventBuilder(`Standup ${day}`)
+			.start(`2024-03-0${day}T09:00:00`)
+			.duration("15m")
+			.timeZone(TIME_ZONE)
+			.attendees("bob@example.com");
+
+	it("builds events and validates them", () => {
+		const event = standup(4).reminder("popup", 10).color("tomato").repeat({ frequency: "weekly", count: 3 }).build();
+		expect(event).toMatchObject({
+			summary: "Standup 4",
+			start: "2024-03-04T09:00:00",
+			end: "2024-03-04T09:15:00",
+			timeZone: TIME_ZONE,
+			attendees: ["bob@example.com"],
+			reminders: [{ method: "popup", minutes: 10 }],
+			recurrence: ["RRULE:FREQ=WEEKLY;COUNT=3"],
+		});
+		expect(
+			new EventBuilder("Call")
+				.start(new Date("2024-03-04T09:00:00Z"))
+				.duration(90 * 60 * 1000)
+				.build().end,
+		).toBe("2024-03-04T10:30:00.000Z");
+		expect(new EventBuilder("Offsite").allDay("2024-03-04", 2).build()).toMatchObject({
+			start: "2024-03-04",
+			end: "2024-03-06",
+			allDay: true,
+		});
+
+		expect(() => new EventBuilder().start(new Date(0)).duration("1h").build()).toThrow("Event has no summary");
+		expect(() => new EventBuilder("No end").start(new Date(0)).build()).toThrow("Event has no end or duration");
+		expect(() => new EventBuilder("x").start("tomorrow")).toThrow("Invalid start");
+		expect(() => new EventBuilder("x").allDay("2024-3-4")).toThrow("expected YYYY-MM-DD");
+	});
+
+	it("iterates events across pages, fetching pages only as needed", async () => {
+		for (let day = 1; day <= 5; day++) await ctx.service.createEvent(ACCOUNT, "primary", standup(day).build());
+
+		const summaries: string[] = [];
+		for await (const event of ctx.service.iterateEvents(ACCOUNT, "primary", { maxResults: 2 })) {
+			summaries.push(event.summary!);
+		}
+		expect(summaries).toEqual(["Standup 1", "Standup 2", "Standup 3", "Standup 4", "Standup 5"]);
+		expect(pages).toBe(3);
+
+		pages = 0;
+		for await (const event of ctx.service.iterateEvents(ACCOUNT, "primary", { maxResults: 2 })) {
+			if (event.summary === "Standup 2") break;
+		}
+		expect(pages).toBe(1);
+	});
+
+	it("iterates the instances of a series", async () => {
+		const series = await ctx.service.createEvent(
+			ACCOUNT,
+			"primary",
+			standup(4).repeat({ frequency: "daily", count: 5 }).build(),
+		);
+		const starts: string[] = [];
+		for await (const instance of ctx.service.iterateInstances(ACCOUNT, "primary", series.id!, { maxResults: 2 })) {
+			starts.push(toGccliEvent(instance, TIME_ZONE).start.toISOString());
+		}
+		expect(starts).toEqual([4, 5, 6, 7, 8].map((day) => `2024-03-0${day}T08:00:00.000Z`));
+	});
+
+	it("normalizes timed and all-day events", async () => {
+		const timed = toGccliEvent(await ctx.service.createEvent(ACCOUNT, "primary", standup(4).build()), TIME_ZONE);
+		expect(timed).toMatchObject({
+			summary: "Standup 4",
+			allDay: false,
+			status: "confirmed",
+			recurrence: [],
+			attendees: [{ email: "bob@example.com", responseStatus: "needsAction", optional: false, self: false }],
+		});
+		expect([timed.start.toISOString(), timed.end.toISOString()]).toEqual([
+			"2024-03-04T08:00:00.000Z",
+			"2024-03-04T08:15:00.000Z",
+		]);
+
+		const offsite = await ctx.service.createEvent(
+			ACCOUNT,
+			"primary",
+			new EventBuilder("Offsite").allDay("2024-03-04", 2).build(),
+		);
+		const allDay = toGccliEvent(offsite, TIME_ZONE);
+		expect([allDay.allDay, allDay.startDate, allDay.endDate, allDay.start.toISOString()]).toEqual([
+			true,
+			"2024-03-04",
+			"2024-03-06",
+			"2024-03-03T23:00:00.000Z",
+		]);
+	});
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ACCOUNT, TIME_ZONE, type TestContext, createEvent, createTestContext } from "./helpers.js";
+
+describe("listing events", () => {
+	let ctx: TestContext;
+	beforeEach(() => {
+		ctx = createTestContext();
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+		ctx.cleanup();
+	});
+
+	const summaries = async (options: Parameters<TestContext["service"]["listEvents"]>[2]) =>
+		(await ctx.service.listEvents(ACCOUNT, "primary", options)).events.map((e) => e.summary);
+
+	it("pages with page tokens and lists all pages", async () => {
+		for (let day = 1; day <= 5; day++) {
+			await createEvent(ctx.service, {
+				summary: `Event ${day}`,
+				start: `2024-03-0${day}T09:00:00`,
+				end: `2024-03-0${day}T10:00:00`,
+			});
+		}
+		const first = await ctx.service.listEvents(ACCOUNT, "primary", { maxResults: 2 });
+		expect(first.events.map((e) => e.summary)).toEqual(["Event 1", "Event 2"]);
+		const second = await ctx.service.listEvents(ACCOUNT, "primary", {
+			maxResults: 2,
+			pageToken: first.nextPageToken,
+		});
+		expect(second.events.map((e) => e.summary)).toEqual(["Event 3", "Event 4"]);
+		const last = await ctx.service.listEvents(ACCOUNT, "primary", { maxResults: 2, pageToken: second.nextPageToken });
+		expect([last.events.map((e) => e.summary), last.nextPageToken]).toEqual([["Event 5"], undefined]);
+
+		expect(await summaries({ maxResults: 10 })).toHaveLength(5);
+		expect(await ctx.service.listAllEvents(ACCOUNT, "primary", { timeMin: "2024-03-03T00:00:00Z" })).toHaveLength(3);
+	});
+
+	it("filters by deletion, update time, extended properties, type and iCalUID", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		vi.setSystemTime(new Date("2024-03-01T00:00:00Z"));
+		const old = await createEvent(ctx.service, {
+			summary: "Old",
+			start: "2024-03-04T09:00:00",
+			end: "2024-03-04T10:00:00",
+			privateProperties: { project: "apollo" },
+		});
+		const deleted = await createEvent(ctx.service, {
+			summary: "Deleted",
+			start: "2024-03-04T11:00:00",
+			end: "2024-03-04T12:00:00",
+		});
+		vi.setSystemTime(new Date("2024-03-02T00:00:00Z"));
+		await createEvent(ctx.service, { summary: "New", start: "2024-03-05T09:00:00", end: "2024-03-05T10:00:00" });
+		await ctx.service.createFocusTime(ACCOUNT, {
+			start: "2024-03-06T09:00:00",
+			end: "2024-03-06T11:00:00",
+			timeZone: TIME_ZONE,
+		});
+		await ctx.service.deleteEvent(ACCOUNT, "primary", deleted.id!);
+		await ctx.backend.getClient(ACCOUNT).events.patch({
+			calendarId: "primary",
+			eventId: old.id!,
+			requestBody: { extendedProperties: { private: { project: "apollo" }, shared: { room: "4.01" } } },
+		});
+
+		expect(await summaries({})).toEqual(["Old", "New", "Focus time"]);
+		expect(await summaries({ showDeleted: true })).toEqual(["Old", "Deleted", "New", "Focus time"]);
+		expect(await summaries({ updatedMin: "2024-03-01T12:00:00Z" })).toEqual(["Old", "New", "Focus time"]);
+		vi.setSystemTime(new Date("2024-03-03T00:00:00Z"));
+		await createEvent(ctx.service, { summary: "Newest", start: "2024-03-07T09:00:00", end: "2024-03-07T10:00:00" });
+		expect(await summaries({ updatedMin: "2024-03-02T12:00:00Z" })).toEqual(["Newest"]);
+		expect(await summaries({ privateProperties: { project: "apollo" } })).toEqual(["Old"]);
+		expect(await summaries({ privateProperties: { project: "gemini" } })).toEqual([]);
+		expect(await summaries({ sharedProperties: { room: "4.01" } })).toEqual(["Old"]);
+		expect(await summaries({ eventTypes: ["focusTime"] })).toEqual(["Focus time"]);
+		expect(await summaries({ eventTypes: ["default"] })).toEqual(["Old", "New", "Newest"]);
+		expect(await summaries({ iCalUID: old.iCalUID! })).toEqual(["Old"]);
+	});
+});
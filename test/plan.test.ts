@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parsePlan } from "../src/plan.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createEvent, createTestContext } from "./helpers.js";
+
+describe("apply", () => {
+	let ctx: TestContext;
+	beforeEach(() => {
+		ctx = createTestContext();
+	});
+	afterEach(() => ctx.cleanup());
+
+	it("reports only real changes in dry runs and applies floating times in the plan's time zone", async () => {
+		const event = await createEvent(ctx.service, {
+			summary: "Review",
+			start: "2024-03-04T09:00:00+01:00",
+			end: "2024-03-04T10:00:00+01:00",
+		});
+		const plan = parsePlan(
+			JSON.stringify([
+				{
+					op: "update",
+					id: event.id,
+					event: { summary: "Review", start: "2024-03-04T08:00:00Z", end: "2024-03-04T10:00:00" },
+				},
+				{ op: "update", id: event.id, event: { end: "2024-03-04T10:30:00" } },
+			]),
+			"plan.json",
+			"primary",
+			TIME_ZONE,
+		);
+
+		const planned = await ctx.service.applyPlan(ACCOUNT, plan, { dryRun: true });
+		expect(planned.map((r) => r.changes?.map((c) => c.field))).toEqual([[], ["end"]]);
+
+		const applied = await ctx.service.applyPlan(ACCOUNT, plan);
+		expect(applied.map((r) => r.status)).toEqual(["ok", "ok"]);
+		const updated = await ctx.service.getEvent(ACCOUNT, "primary", event.id!);
+		expect(updated.end).toEqual({ dateTime: "2024-03-04T10:30:00+01:00", timeZone: TIME_ZONE });
+	});
+
+	it("rejects malformed operations with a validation error", () => {
+		const parse = (operations: unknown) => () =>
+			parsePlan(JSON.stringify(operations), "plan.json", "primary", TIME_ZONE);
+		expect(parse([null])).toThrow("Invalid plan: operation 1: expected an object");
+		expect(parse([{ op: "update", id: { nested: true }, event: {} }])).toThrow('"id" must be a string');
+		expect(parse([{ op: "create", event: { start: 5, end: "2024-03-04" } }])).toThrow('"event.start" must be');
+		expect(parse({ calendar: "primary" })).toThrow("expected a list of operations");
+	});
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { CalendarEvent } from "../src/index.js";
+import { buildRRule } from "../src/recurrence.js";
+import { ACCOUNT, type TestContext, createEvent, createTestContext } from "./helpers.js";
+
+describe("recurrence scopes", () => {
+	let ctx: TestContext;
+	let series: CalendarEvent;
+	let instances: CalendarEvent[];
+
+	const listSummaries = async () => {
+		const { events } = await ctx.service.listEvents(ACCOUNT, "primary", {
+			timeMin: "2024-03-01T00:00:00Z",
+			timeMax: "2024-04-01T00:00:00Z",
+		});
+		return events.map((e) => `${e.start?.dateTime?.slice(0, 16)} ${e.summary}`);
+	};
+
+	beforeEach(async () => {
+		ctx = createTestContext();
+		series = await createEvent(ctx.service, {
+			summary: "Standup",
+			start: "2024-03-04T09:00:00+01:00",
+			end: "2024-03-04T09:15:00+01:00",
+			recurrence: ["RRULE:FREQ=WEEKLY;COUNT=4"],
+		});
+		instances = (await ctx.service.listInstances(ACCOUNT, "primary", series.id!)).events;
+	});
+	afterEach(() => ctx.cleanup());
+
+	it("updates only one instance with scope this", async () => {
+		await ctx.service.updateEvent(ACCOUNT, "primary", instances[1].id!, { summary: "Moved" }, "this");
+		expect(await listSummaries()).toEqual([
+			"2024-03-04T09:00 Standup",
+			"2024-03-11T09:00 Moved",
+			"2024-03-18T09:00 Standup",
+			"2024-03-25T09:00 Standup",
+		]);
+	});
+
+	it("splits the series with scope following", async () => {
+		const updated = await ctx.service.updateEvent(
+			ACCOUNT,
+			"primary",
+			instances[2].id!,
+			{ summary: "Later standup", start: "2024-03-18T10:00:00+01:00", end: "2024-03-18T10:15:00+01:00" },
+			"following",
+		);
+		expect(updated.id).not.toBe(series.id);
+		expect(updated.recurrence).toEqual(["RRULE:FREQ=WEEKLY;COUNT=2"]);
+
+		const master = await ctx.service.getEvent(ACCOUNT, "primary", series.id!);
+		// Ends one second before the first moved instance
+		expect(master.recurrence).toEqual(["RRULE:FREQ=WEEKLY;UNTIL=20240318T075959Z"]);
+		expect(await listSummaries()).toEqual([
+			"2024-03-04T09:00 Standup",
+			"2024-03-11T09:00 Standup",
+			"2024-03-18T10:00 Later standup",
+			"2024-03-25T10:00 Later standup",
+		]);
+	});
+
+	it("shifts every instance with scope all", async () => {
+		await ctx.service.updateEvent(
+			ACCOUNT,
+			"primary",
+			instances[1].id!,
+			{ summary: "Daily sync", start: "2024-03-11T09:30:00+01:00", end: "2024-03-11T09:45:00+01:00" },
+			"all",
+		);
+		expect(await listSummaries()).toEqual([
+			"2024-03-04T09:30 Daily sync",
+			"2024-03-11T09:30 Daily sync",
+			"2024-03-18T09:30 Daily sync",
+			"2024-03-25T09:30 Daily sync",
+		]);
+	});
+
+	it("deletes one instance, the following ones or the whole series", async () => {
+		await ctx.service.deleteEvent(ACCOUNT, "primary", instances[0].id!, "this");
+		expect(await listSummaries()).toHaveLength(3);
+
+		await ctx.service.deleteEvent(ACCOUNT, "primary", instances[2].id!, "following");
+		expect(await listSummaries()).toEqual(["2024-03-11T09:00 Standup"]);
+
+		await ctx.service.deleteEvent(ACCOUNT, "primary", instances[1].id!, "all");
+		expect(await listSummaries()).toEqual([]);
+	});
+});
+
+describe("buildRRule", () => {
+	it("ends a date-only UNTIL at the end of that day in the series' time zone", () => {
+		const rule = { frequency: "daily" as const, until: "2024-06-30" };
+		expect(buildRRule(rule, false, "America/Los_Angeles")).toBe("RRULE:FREQ=DAILY;UNTIL=20240701T065959Z");
+		expect(buildRRule(rule, false, "Asia/Tokyo")).toBe("RRULE:FREQ=DAILY;UNTIL=20240630T145959Z");
+		expect(buildRRule(rule, true)).toBe("RRULE:FREQ=DAILY;UNTIL=20240630");
+	});
+
+	it("rejects count together with until", () => {
+		expect(() => buildRRule({ frequency: "weekly", count: 2, until: "2024-06-30" })).toThrow(/either count or until/);
+	});
+});
@@ -0,0 +1,114 @@
+import type { calendar_v3 } from "googleapis";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AuthError, ConflictError, NotFoundError, PermissionError, QuotaError, classifyError } from "../src/errors.js";
+import { CalendarService } from "../src/index.js";
+import { getRetryAfter, withRetry } from "../src/retry.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createTestContext } from "./helpers.js";
+
+const apiError = (status: number, reason?: string) =>
+	Object.assign(new Error(`HTTP ${status}`), { status, errors: reason ? [{ reason }] : undefined });
+
+describe("retries", () => {
+	let ctx: TestContext;
+	let service: CalendarService;
+	/** Errors the next calls of an events method fail with, in order */
+	let failures: Record<string, unknown[]>;
+	let calls: Record<string, number>;
+	beforeEach(() => {
+		ctx = createTestContext();
+		failures = {};
+		calls = {};
+		const getClient = ctx.backend.getClient.bind(ctx.backend);
+		ctx.backend.getClient = (email) => {
+			const client = getClient(email);
+			const events = client.events as unknown as Record<string, (params: unknown) => Promise<unknown>>;
+			for (const method of ["list", "insert"]) {
+				const call = events[method];
+				events[method] = async (params) => {
+					calls[method] = (calls[method] ?? 0) + 1;
+					const failure = failures[method]?.shift();
+					if (failure) throw failure;
+					return call(params);
+				};
+			}
+			return client as calendar_v3.Calendar;
+		};
+		service = new CalendarService({ configDir: ctx.dir, backend: ctx.backend, retry: { retries: 2, baseDelay: 1 } });
+	});
+	afterEach(() => ctx.cleanup());
+
+	const create = () =>
+		service.createEvent(ACCOUNT, "primary", {
+			summary: "Review",
+			start: "2024-03-04T09:00:00",
+			end: "2024-03-04T10:00:00",
+			timeZone: TIME_ZONE,
+		});
+
+	it("retries server and network errors of reads", async () => {
+		failures.list = [apiError(503), Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })];
+		expect((await service.listEvents(ACCOUNT, "primary")).events).toEqual([]);
+		expect(calls.list).toBe(3);
+
+		failures.list = [apiError(503), apiError(503), apiError(503)];
+		await expect(service.listEvents(ACCOUNT, "primary")).rejects.toThrow("HTTP 503");
+	});
+
+	it("retries creates only when rate limited, so a create that took effect is not repeated", async () => {
+		failures.insert = [apiError(503)];
+		await expect(create()).rejects.toThrow("HTTP 503");
+		expect(calls.insert).toBe(1);
+
+		failures.insert = [apiError(429), apiError(403, "userRateLimitExceeded")];
+		await create();
+		expect(calls.insert).toBe(4);
+		expect((await service.listEvents(ACCOUNT, "primary")).events).toHaveLength(1);
+	});
+
+	it("waits as long as Retry-After asks", async () => {
+		expect(getRetryAfter({ response: { headers: { "retry-after": "2" } } })).toBe(2000);
+		expect(getRetryAfter({ response: { headers: new Headers({ "retry-after": "0" }) } })).toBe(0);
+		expect(getRetryAfter(apiError(503))).toBeUndefined();
+
+		const delays: number[] = [];
+		const failing = Object.assign(apiError(503), { response: { headers: { "retry-after": "0" } } });
+		let attempts = 0;
+		const result = await withRetry(
+			async () => {
+				if (++attempts < 3) throw failing;
+				return "done";
+			},
+			{ retries: 3, onRetry: ({ delay }) => delays.push(delay) },
+		);
+		expect([result, delays]).toEqual(["done", [0, 0]]);
+	});
+});
+
+describe("error classification", () => {
+	it("maps API errors to typed errors", () => {
+		expect(classifyError(apiError(403, "rateLimitExceeded"))).toBeInstanceOf(QuotaError);
+		expect(classifyError(apiError(429))).toBeInstanceOf(QuotaError);
+		expect(classifyError(apiError(403, "forbidden"))).toBeInstanceOf(PermissionError);
+		expect(classifyError(apiError(404))).toBeInstanceOf(NotFoundError);
+		expect(classifyError(apiError(410))).toBeInstanceOf(NotFoundError);
+		expect(classifyError(apiError(409))).toBeInstanceOf(ConflictError);
+		const other = apiError(500);
+		expect(classifyError(other)).toBe(other);
+		expect(classifyError("text")).toBe("text");
+	});
+
+	it("tells how to re-add an account whose authorization failed", () => {
+		const oauth = classifyError(apiError(401), ACCOUNT);
+		expect(oauth).toBeInstanceOf(AuthError);
+		expect((oauth as Error).message).toContain(`gccli accounts remove ${ACCOUNT} && gccli accounts add ${ACCOUNT}`);
+
+		const revoked = Object.assign(new Error("invalid_grant"), { response: { data: { error: "invalid_grant" } } });
+		const service = classifyError(revoked, {
+			email: ACCOUNT,
+			authType: "service",
+			serviceAccount: { clientEmail: "sa@project.iam.gserviceaccount.com", privateKey: "key", subject: ACCOUNT },
+		});
+		expect(service).toBeInstanceOf(AuthError);
+		expect((service as Error).message).toContain(`add-service ${ACCOUNT} --key <sa.json> --subject ${ACCOUNT}`);
+	});
+});
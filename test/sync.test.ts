@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ACCOUNT, type TestContext, createEvent, createTestContext } from "./helpers.js";
+
+describe("sync", () => {
+	let ctx: TestContext;
+	beforeEach(() => {
+		ctx = createTestContext();
+	});
+	afterEach(() => ctx.cleanup());
+
+	it("does a full sync first, then only fetches changes", async () => {
+		const { service } = ctx;
+		const kept = await createEvent(service, {
+			summary: "Kept",
+			start: "2024-03-04T09:00:00+01:00",
+			end: "2024-03-04T10:00:00+01:00",
+		});
+		const changed = await createEvent(service, {
+			summary: "Changed",
+			start: "2024-03-05T09:00:00+01:00",
+			end: "2024-03-05T10:00:00+01:00",
+		});
+		const deleted = await createEvent(service, {
+			summary: "Deleted",
+			start: "2024-03-06T09:00:00+01:00",
+			end: "2024-03-06T10:00:00+01:00",
+		});
+
+		const [first] = await service.syncCalendars(ACCOUNT);
+		expect(first).toEqual({ calendarId: ACCOUNT, added: 3, changed: 0, deleted: 0, fullSync: true });
+
+		await service.updateEvent(ACCOUNT, "primary", changed.id!, { summary: "Changed again" });
+		await service.deleteEvent(ACCOUNT, "primary", deleted.id!);
+		await createEvent(service, {
+			summary: "Added",
+			start: "2024-03-07T09:00:00+01:00",
+			end: "2024-03-07T10:00:00+01:00",
+		});
+
+		const { result, changes } = await service.syncEventChanges(ACCOUNT, ACCOUNT);
+		expect(result).toEqual({ calendarId: ACCOUNT, added: 1, changed: 1, deleted: 1, fullSync: false });
+		expect(changes.map((c) => [c.type, c.event.summary])).toEqual([
+			["updated", "Changed again"],
+			["created", "Added"],
+			["cancelled", "Deleted"],
+		]);
+
+		const cached = service.listCachedEvents(ACCOUNT, ACCOUNT).events;
+		expect(cached.map((e) => e.summary)).toEqual(["Kept", "Changed again", "Added"]);
+		expect(cached[0].id).toBe(kept.id);
+	});
+
+	it("caches primary under the primary calendar's ID", async () => {
+		const { service } = ctx;
+		await createEvent(service, {
+			summary: "Standup",
+			start: "2024-03-04T09:00:00+01:00",
+			end: "2024-03-04T09:15:00+01:00",
+		});
+
+		await service.syncCalendars(ACCOUNT);
+		expect(service.listCachedEvents(ACCOUNT, "primary").events.map((e) => e.summary)).toEqual(["Standup"]);
+
+		const [again] = await service.syncCalendars(ACCOUNT, ["primary"]);
+		expect(again).toMatchObject({ calendarId: ACCOUNT, fullSync: false });
+		expect(service.getCachedCalendar(ACCOUNT, "primary")).toEqual(service.getCachedCalendar(ACCOUNT, ACCOUNT));
+	});
+
+	it("stores recurring events as instances and answers time range queries from the cache", async () => {
+		const { service } = ctx;
+		await createEvent(service, {
+			summary: "Weekly",
+			start: "2024-03-04T09:00:00+01:00",
+			end: "2024-03-04T10:00:00+01:00",
+			recurrence: ["RRULE:FREQ=WEEKLY;COUNT=4"],
+		});
+		await service.syncCalendars(ACCOUNT);
+
+		const { events } = service.listCachedEvents(ACCOUNT, "primary", {
+			timeMin: "2024-03-10T00:00:00Z",
+			timeMax: "2024-03-20T00:00:00Z",
+		});
+		expect(events.map((e) => e.start?.dateTime)).toEqual(["2024-03-11T09:00:00+01:00", "2024-03-18T09:00:00+01:00"]);
+	});
+
+	it("refuses to read calendars that were never synced", () => {
+		expect(() => ctx.service.listCachedEvents(ACCOUNT, "primary")).toThrow(/is not cached/);
+	});
+});
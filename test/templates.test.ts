@@ -0,0 +1,83 @@
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EventBuilder } from "../src/index.js";
+import { TemplateStore, applyTemplate, fillTemplate, getTemplateVariables } from "../src/templates.js";
+import { ACCOUNT, TIME_ZONE, type TestContext, createTestContext } from "./helpers.js";
+
+describe("templates", () => {
+	let ctx: TestContext;
+	let file: string;
+	beforeEach(() => {
+		ctx = createTestContext();
+		file = path.join(ctx.dir, "templates.json");
+	});
+	afterEach(() => ctx.cleanup());
+
+	it("stores, lists and removes templates", () => {
+		const store = new TemplateStore(file);
+		store.set("standup", { summary: "Standup", duration: "15m" });
+		store.set("interview", { summary: "Interview: {{candidate}}", duration: "1h" });
+
+		const reloaded = new TemplateStore(file);
+		expect(reloaded.list().map((t) => t.name)).toEqual(["interview", "standup"]);
+		expect(reloaded.get("standup")).toEqual({ summary: "Standup", duration: "15m" });
+
+		expect(reloaded.remove("standup")).toBe(true);
+		expect(reloaded.remove("standup")).toBe(false);
+		expect(new TemplateStore(file).list().map((t) => t.name)).toEqual(["interview"]);
+		expect(() => reloaded.set("no spaces", {})).toThrow(/Invalid template name/);
+	});
+
+	it("fills placeholders and requires a value for each", () => {
+		const template = {
+			summary: "Interview: {{candidate}} ({{ role }})",
+			attendees: ["{{candidate}}@example.com", "hr@example.com"],
+			meet: true,
+		};
+		expect(getTemplateVariables(template)).toEqual(["candidate", "role"]);
+		expect(fillTemplate(template, { candidate: "jane", role: "Backend" })).toEqual({
+			summary: "Interview: jane (Backend)",
+			attendees: ["jane@example.com", "hr@example.com"],
+			meet: true,
+		});
+		expect(() => fillTemplate(template, { candidate: "jane" })).toThrow("Missing template variables: role");
+	});
+
+	it("lets explicit options replace conflicting template options", () => {
+		const template = { summary: "Standup", start: "09:00", duration: "15m", repeat: "weekly", count: "10" };
+		const apply = (options: Record<string, string>) => applyTemplate(template, options, TIME_ZONE);
+
+		expect(apply({ location: "Room 4" })).toEqual({ ...template, location: "Room 4" });
+		expect(apply({ end: "10:00" })).toMatchObject({ start: "09:00", end: "10:00", duration: undefined });
+		expect(apply({ start: "friday 9am-10:30am" })).toMatchObject({ end: undefined, duration: undefined });
+		expect(apply({ start: "2024-03-04 14:00" })).toMatchObject({ duration: "15m" });
+		expect(apply({ rrule: "FREQ=DAILY" })).toMatchObject({
+			rrule: "FREQ=DAILY",
+			repeat: undefined,
+			count: undefined,
+		});
+		expect(apply({ until: "2024-06-30" })).toMatchObject({ repeat: "weekly", until: "2024-06-30", count: undefined });
+		expect(applyTemplate({ rrule: "FREQ=DAILY" }, { repeat: "weekly" }, TIME_ZONE)).toEqual({
+			rrule: undefined,
+			repeat: "weekly",
+		});
+	});
+
+	it("creates events from a filled template", async () => {
+		const store = new TemplateStore(file);
+		store.set("handover", { summary: "Handover: {{team}}", location: "Room 4", duration: "30m" });
+		const options = fillTemplate(store.get("handover")!, { team: "Payments" });
+
+		const event = new EventBuilder(String(options.summary))
+			.location(String(options.location))
+			.start("2024-03-04T09:00:00+01:00")
+			.duration(String(options.duration))
+			.timeZone(TIME_ZONE)
+			.build();
+		const created = await ctx.service.createEvent(ACCOUNT, "primary", event);
+
+		const stored = await ctx.service.getEvent(ACCOUNT, "primary", created.id!);
+		expect(stored).toMatchObject({ summary: "Handover: Payments", location: "Room 4" });
+		expect(Date.parse(stored.end!.dateTime!) - Date.parse(stored.start!.dateTime!)).toBe(30 * 60 * 1000);
+	});
+});
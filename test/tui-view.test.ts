@@ -0,0 +1,141 @@
+import type { calendar_v3 } from "googleapis";
+import { describe, expect, it } from "vitest";
+import type { AgendaEntry } from "../src/calendar-service.js";
+import {
+	type TuiFrame,
+	type TuiView,
+	getEventDays,
+	getViewDays,
+	groupByDay,
+	renderFrame,
+	shiftDate,
+} from "../src/tui-view.js";
+import { ACCOUNT, TIME_ZONE } from "./helpers.js";
+
+const entry = (event: calendar_v3.Schema$Event): AgendaEntry => ({
+	account: ACCOUNT,
+	calendarId: "primary",
+	calendarName: "Alice",
+	event,
+});
+
+const standup = entry({
+	id: "standup",
+	summary: "Standup",
+	start: { dateTime: "2024-03-06T09:00:00+01:00" },
+	end: { dateTime: "2024-03-06T09:15:00+01:00" },
+	attendees: [{ email: ACCOUNT, self: true, responseStatus: "accepted" }, { email: "bob@example.com" }],
+});
+const offsite = entry({
+	id: "offsite",
+	summary: "Offsite",
+	start: { date: "2024-03-05" },
+	end: { date: "2024-03-08" },
+});
+const focus = entry({
+	id: "focus",
+	summary: "Deep work",
+	eventType: "focusTime",
+	start: { dateTime: "2024-03-06T13:00:00+01:00" },
+	end: { dateTime: "2024-03-06T15:00:00+01:00" },
+});
+
+const frame = (view: TuiView, overrides: Partial<TuiFrame> = {}): TuiFrame => {
+	const days = getViewDays(view, "2024-03-06");
+	return {
+		view,
+		days,
+		date: "2024-03-06",
+		today: "2024-03-06",
+		index: 0,
+		byDay: groupByDay([standup, offsite, focus], days, TIME_ZONE),
+		timeZone: TIME_ZONE,
+		showDetail: false,
+		pending: new Set(),
+		loading: false,
+		help: false,
+		status: { text: "? help", type: "hint" },
+		...overrides,
+	};
+};
+
+/** The frame's lines without ANSI styles */
+const render = (f: TuiFrame, width = 120, height = 20) =>
+	renderFrame(f, width, height).map((line) => line.replace(/\x1b\[[\d;]*m/g, ""));
+
+describe("TUI view", () => {
+	it("computes the days of each view and moves by view periods", () => {
+		expect(getViewDays("day", "2024-03-06")).toEqual(["2024-03-06"]);
+		expect(getViewDays("week", "2024-03-06")).toEqual([
+			"2024-03-04",
+			"2024-03-05",
+			"2024-03-06",
+			"2024-03-07",
+			"2024-03-08",
+			"2024-03-09",
+			"2024-03-10",
+		]);
+		const month = getViewDays("month", "2024-03-06");
+		expect([month.length, month[0], month[month.length - 1]]).toEqual([35, "2024-02-26", "2024-03-31"]);
+
+		expect(shiftDate("day", "2024-03-06", -1)).toBe("2024-03-05");
+		expect(shiftDate("week", "2024-03-06", 1)).toBe("2024-03-13");
+		expect(shiftDate("month", "2024-01-31", 1)).toBe("2024-02-29");
+	});
+
+	it("places events on the days they touch, all-day events first", () => {
+		expect(getEventDays(offsite.event, TIME_ZONE)).toEqual({ first: "2024-03-05", last: "2024-03-07" });
+		const midnight = { start: { dateTime: "2024-03-05T22:00:00Z" }, end: { dateTime: "2024-03-05T23:00:00Z" } };
+		expect(getEventDays(midnight, TIME_ZONE)).toEqual({ first: "2024-03-05", last: "2024-03-05" });
+
+		const byDay = frame("week").byDay;
+		expect(byDay.get("2024-03-06")?.map((e) => e.event.id)).toEqual(["offsite", "standup", "focus"]);
+		expect(byDay.get("2024-03-08")).toEqual([]);
+	});
+
+	it("renders the day, week and month views to the terminal size", () => {
+		for (const view of ["day", "week", "month"] as const) {
+			const lines = renderFrame(frame(view), 120, 20);
+			expect(lines).toHaveLength(20);
+			expect(lines.map((line) => line.replace(/\x1b\[[\d;]*m/g, "").length)).toEqual(Array(20).fill(120));
+		}
+
+		const day = render(frame("day")).join("\n");
+		expect(day).toContain("Offsite");
+		expect(day).toContain("Standup  (Alice)");
+		expect(day).toContain("Deep work [focus time]");
+
+		const week = render(frame("week"));
+		expect(week[0]).toContain("Week of");
+		expect(week[1]).toContain("Mon 03-04");
+		expect(week.join("\n")).toContain("09:00 Standup");
+
+		const month = render(frame("month"));
+		expect(month[0]).toContain("March 2024");
+		expect(month[month.length - 1].trim()).toBe("? help");
+	});
+
+	it("shows details, pending changes, errors and help", () => {
+		const detail = render(frame("day", { index: 1, showDetail: true }));
+		expect(detail[1]).toContain("│ Standup");
+		expect(detail.join("\n")).toContain("Your response: accepted");
+		expect(detail.join("\n")).toContain("Loading details...");
+
+		const narrow = render(frame("day", { index: 1, showDetail: true }), 60);
+		expect(narrow[1].trim()).toBe("Standup");
+
+		const pending = render(frame("day", { pending: new Set([standup]) })).join("\n");
+		expect(pending).toContain("Standup  (Alice) ...");
+
+		const error = renderFrame(frame("day", { status: { text: "Delete failed", type: "error" } }), 80, 10);
+		expect(error[9]).toBe(`\x1b[31m ${"Delete failed".padEnd(79)}\x1b[0m`);
+
+		const help = render(frame("day", { help: true })).join("\n");
+		expect(help).toContain("Previous/next day");
+
+		const hostile = entry({ summary: "\x1b[2JEvil", start: { date: "2024-03-06" }, end: { date: "2024-03-07" } });
+		const days = getViewDays("day", "2024-03-06");
+		const lines = renderFrame(frame("day", { byDay: groupByDay([hostile], days, TIME_ZONE) }), 80, 10);
+		expect(lines.join("\n")).not.toContain("\x1b[2J");
+	});
+});